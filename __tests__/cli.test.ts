@@ -0,0 +1,276 @@
+import { Cli, type CliIO } from '@/cli/Cli'
+import { ErrorCode } from '@/error'
+import { QRCode } from '@/QRCode'
+
+/** RFC 4226 and RFC 6238 SHA-1 secret. */
+const secret = '3132333435363738393031323334353637383930'
+
+const run = async ( args: string[], io: Partial<CliIO> = {} ) => {
+	let stdout = ''
+	let stderr = ''
+
+	const code = await Cli.Run( args, {
+		stdout: text => stdout += text,
+		stderr: text => stderr += text,
+		...io,
+	} )
+
+	return { code, stdout, stderr }
+}
+
+
+describe( 'Cli', () => {
+
+	it( 'prints usage', async () => {
+		const help = await run( [ '--help' ] )
+
+		expect( help.code ).toBe( 0 )
+		expect( help.stdout ).toMatch( /^Usage: crypto-otp <command>/ )
+
+		const missing = await run( [] )
+
+		expect( missing.code ).toBe( 2 )
+		expect( missing.stderr ).toMatch( /^Usage: crypto-otp <command>/ )
+	} )
+
+
+	it( 'exits with code 2 on usage errors', async () => {
+		expect( ( await run( [ 'foo' ] ) ).code ).toBe( 2 )
+		expect( ( await run( [ 'token', '--foo' ] ) ).code ).toBe( 2 )
+	} )
+
+
+	it( 'prints errors to stderr', async () => {
+		const result = await run( [ 'token' ] )
+
+		expect( result.code ).toBe( 1 )
+		expect( result.stderr ).toBe( 'Error: No secret has been provided. Use --secret or --uri.\n' )
+
+		const json = await run( [ 'token', '-s', secret, '-a', 'MD5', '--json' ] )
+
+		expect( JSON.parse( json.stderr ) ).toEqual( {
+			error: { message: 'Unsupported algorithm `MD5`.', code: ErrorCode.INVALID_ALGORITHM },
+		} )
+	} )
+
+} )
+
+
+describe( 'crypto-otp secret', () => {
+
+	it( 'prints the secret in every encoding', async () => {
+		const { code, stdout } = await run( [ 'secret', '-s', secret, '--json' ] )
+
+		expect( code ).toBe( 0 )
+		expect( JSON.parse( stdout ) ).toEqual( {
+			hex			: secret,
+			ascii		: '12345678901234567890',
+			base32		: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+			base64url	: 'MTIzNDU2Nzg5MDEyMzQ1Njc4OTA',
+		} )
+	} )
+
+
+	it( 'converts ascii secrets', async () => {
+		const { stdout } = await run( [ 'secret', '-s', '12345678901234567890', '-e', 'ascii' ] )
+
+		expect( stdout ).toBe( [
+			`hex        ${ secret }`,
+			'ascii      12345678901234567890',
+			'base32     GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ',
+			'base64url  MTIzNDU2Nzg5MDEyMzQ1Njc4OTA',
+			'',
+		].join( '\n' ) )
+	} )
+
+
+	it( 'generates a new secret', async () => {
+		const { stdout } = await run( [ 'secret' ] )
+
+		expect( stdout ).toMatch( /^hex {8}[0-9A-F]{40}\nbase32 {5}[A-Z2-7]{32}\nbase64url {2}\S+\n$/ )
+	} )
+
+
+	it( 'generates a secret sized for the hash algorithm', async () => {
+		expect( JSON.parse( ( await run( [ 'secret', '-a', 'SHA-512', '-j' ] ) ).stdout ) )
+			.toEqual( expect.objectContaining( { hex: expect.stringMatching( /^[0-9A-F]{128}$/ ) } ) )
+	} )
+
+} )
+
+
+describe( 'crypto-otp token', () => {
+
+	it( 'generates HOTP tokens', async () => {
+		expect( ( await run( [ 'token', '-s', secret, '-c', '1' ] ) ).stdout ).toBe( '287082  (counter 1)\n' )
+		expect( JSON.parse( ( await run( [ 'token', '-s', secret, '--type', 'hotp', '-j' ] ) ).stdout ) )
+			.toEqual( { type: 'hotp', token: '755224', counter: 0 } )
+	} )
+
+
+	it( 'generates TOTP tokens', async () => {
+		expect( ( await run( [ 'token', '-s', secret, '-d', '8', '-t', '59' ] ) ).stdout ).toBe( '94287082  (valid for 1s)\n' )
+		expect( JSON.parse( ( await run( [ 'token', '-s', secret, '-d', '8', '-t', '2005-03-18T01:58:29Z', '-j' ] ) ).stdout ) )
+			.toEqual( {
+				type: 'totp', token: '07081804', counter: 37037036,
+				nextTick: '2005-03-18T01:58:30.000Z', remaining: 1,
+			} )
+	} )
+
+
+	it( 'reads the credential from an otpauth URI', async () => {
+		const uri = 'otpauth://totp/alice?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&digits=8'
+
+		expect( ( await run( [ 'token', '-u', uri, '-t', '59' ] ) ).stdout ).toBe( '94287082  (valid for 1s)\n' )
+		expect( ( await run( [ 'token', '-u', uri.replace( 'totp', 'hotp' ) + '&counter=1', '-j' ] ) ).stdout )
+			.toBe( '{"type":"hotp","token":"94287082","counter":1}\n' )
+	} )
+
+
+	it( 'normalizes algorithm names', async () => {
+		const key = '3132333435363738393031323334353637383930313233343536373839303132'
+
+		expect( ( await run( [ 'token', '-s', key, '-a', 'sha256', '-d', '8', '-t', '59' ] ) ).stdout )
+			.toBe( '46119246  (valid for 1s)\n' )
+	} )
+
+
+	it( 'throws a new Exception when options are not valid', async () => {
+		expect( ( await run( [ 'token', '-s', secret, '-c', 'x' ] ) ).stderr ).toMatch( /integer --counter/ )
+		expect( ( await run( [ 'token', '-s', secret, '-t', 'yesterday' ] ) ).stderr ).toMatch( /--time/ )
+		expect( ( await run( [ 'token', '-s', secret, '-e', 'utf16' ] ) ).stderr ).toMatch( /encoding/ )
+		expect( ( await run( [ 'token', '-s', secret, '--type', 'ocra' ] ) ).stderr ).toMatch( /OTP type/ )
+	} )
+
+} )
+
+
+describe( 'crypto-otp verify', () => {
+
+	it( 'reports the token delta', async () => {
+		const valid = await run( [ 'verify', '287082', '-s', secret, '-c', '0', '-w', '2', '-j' ] )
+
+		expect( valid.code ).toBe( 0 )
+		expect( JSON.parse( valid.stdout ) ).toEqual( { valid: true, delta: 1 } )
+
+		const totp = await run( [ 'verify', '94287082', '-s', secret, '-d', '8', '-t', '89', '-w', '1' ] )
+
+		expect( totp.code ).toBe( 0 )
+		expect( totp.stdout ).toBe( 'valid (delta -1)\n' )
+	} )
+
+
+	it( 'exits with code 1 when the token is not valid', async () => {
+		const { code, stdout } = await run( [ 'verify', '287082', '-s', secret, '-c', '0' ] )
+
+		expect( code ).toBe( 1 )
+		expect( stdout ).toBe( 'invalid\n' )
+	} )
+
+
+	it( 'requires a token', async () => {
+		expect( ( await run( [ 'verify', '-s', secret, '-j' ] ) ).stderr )
+			.toContain( ErrorCode.EMPTY_VALUE )
+	} )
+
+} )
+
+
+describe( 'crypto-otp uri', () => {
+
+	it( 'builds otpauth URIs', async () => {
+		const totp = await run( [ 'uri', '-s', secret, '-l', 'alice', '-i', 'Example', '-p', '60' ] )
+
+		expect( totp.stdout ).toBe( 'otpauth://totp/alice?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&algorithm=SHA1&digits=6&issuer=Example&period=60\n' )
+
+		const hotp = await run( [ 'uri', '-s', secret, '-l', 'alice', '-c', '5', '-j' ] )
+
+		expect( JSON.parse( hotp.stdout ) ).toEqual( {
+			uri: 'otpauth://hotp/alice?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&algorithm=SHA1&digits=6&counter=5',
+		} )
+	} )
+
+
+	it( 'prints the QR Code', async () => {
+		const { stdout } = await run( [ 'uri', '-s', secret, '-l', 'alice', '--qr' ] )
+		const [ uri, empty, ...qr ] = stdout.trimEnd().split( '\n' )
+
+		expect( uri ).toMatch( /^otpauth:\/\/totp\/alice\?/ )
+		expect( empty ).toBe( '' )
+		expect( qr[ 0 ] ).toMatch( /^█+$/ )
+	} )
+
+
+	it( 'encodes the printed URI in the QR Code', async () => {
+		const { stdout } = await run( [ 'uri', '-s', secret, '-l', 'alice', '--type', 'hotp', '--qr' ] )
+		const [ uri, , ...qr ] = stdout.trimEnd().split( '\n' )
+
+		expect( uri ).toBe( 'otpauth://hotp/alice?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&algorithm=SHA1&digits=6&counter=0' )
+		expect( qr.join( '\n' ) ).toBe( new QRCode( uri! ).toTerminal( { invert: true } ).trimEnd() )
+	} )
+
+
+	it( 'requires a label', async () => {
+		expect( ( await run( [ 'uri', '-s', secret ] ) ).stderr ).toBe( 'Error: No label has been provided.\n' )
+	} )
+
+} )
+
+
+describe( 'crypto-otp watch', () => {
+
+	beforeEach( () => {
+		jest.useFakeTimers( { now: 58_000 } )
+	} )
+
+
+	afterEach( () => {
+		jest.useRealTimers()
+	} )
+
+
+	it( 'prints the token every second until aborted', async () => {
+		const controller	= new AbortController()
+		const result		= run( [ 'watch', '-s', secret, '-d', '8' ], { signal: controller.signal } )
+
+		jest.advanceTimersByTime( 2000 )
+		controller.abort()
+
+		const { code, stdout } = await result
+
+		expect( code ).toBe( 0 )
+		expect( stdout.split( '\n' ) ).toEqual( [
+			'94287082  2s', '94287082  1s', '37359152  30s', '',
+		] )
+	} )
+
+
+	it( 'rewrites the line on TTYs', async () => {
+		const controller	= new AbortController()
+		const result		= run( [ 'watch', '-s', secret, '-d', '8' ], { signal: controller.signal, isTTY: true } )
+
+		controller.abort()
+
+		expect( ( await result ).stdout ).toBe( '\x1b[2K\r94287082  2s\n' )
+	} )
+
+
+	it( 'prints JSON lines', async () => {
+		const controller	= new AbortController()
+		const result		= run( [ 'watch', '-s', secret, '-d', '8', '-j' ], { signal: controller.signal } )
+
+		jest.advanceTimersByTime( 1000 )
+		controller.abort()
+
+		expect( ( await result ).stdout ).toBe( '{"token":"94287082","remaining":2}\n{"token":"94287082","remaining":1}\n' )
+	} )
+
+
+	it( 'supports TOTP only', async () => {
+		const { code, stderr } = await run( [ 'watch', '-s', secret, '-c', '0' ] )
+
+		expect( code ).toBe( 1 )
+		expect( stderr ).toBe( 'Error: The watch command only supports TOTP credentials.\n' )
+	} )
+
+} )
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { Clock, FakeClock } from '@/Clock'
+import { Totp } from '@/Totp'
+import { Totp as WebTotp } from '@/web'
+import type { OTP } from '@/types'
+
+const secret: OTP.Secret = { key: '3132333435363738393031323334353637383930' }
+
+/** RFC 6238 test vector */
+const time	= 59
+const token	= '94287082'
+
+
+describe( 'Clock', () => {
+
+	it( 'converts dates, numbers and instants to seconds', () => {
+		expect( Clock.Seconds( 59 ) ).toBe( 59 )
+		expect( Clock.Seconds( new Date( 59000 ) ) ).toBe( 59 )
+		expect( Clock.Seconds( { epochMilliseconds: 59000 } ) ).toBe( 59 )
+	} )
+
+
+	it( 'adds the offset to the system time', () => {
+		const now = jest.spyOn( Date, 'now' ).mockReturnValue( 1000 )
+
+		try {
+			expect( new Clock().now() ).toBe( 1000 )
+			expect( new Clock( 30 ).now() ).toBe( 31000 )
+			expect( new Clock( -0.5 ).now() ).toBe( 500 )
+		} finally {
+			now.mockRestore()
+		}
+	} )
+
+} )
+
+
+describe( 'FakeClock', () => {
+
+	it( 'only moves when set or advanced', () => {
+		const clock = new FakeClock( new Date( 1000 ), 2 )
+
+		expect( clock.now() ).toBe( 3000 )
+
+		clock.advance( 1.5 )
+		expect( clock.now() ).toBe( 4500 )
+
+		clock.set( { epochMilliseconds: 0 } )
+		expect( clock.now() ).toBe( 2000 )
+	} )
+
+
+	it( 'runs due timers in order with the time set to their due time', () => {
+		const clock		= new FakeClock()
+		const calls: [ string, number ][] = []
+		const record	= ( name: string ) => () => calls.push( [ name, clock.now() ] )
+
+		clock.setTimeout( record( 'b' ), 2000 )
+		clock.setTimeout( record( 'a' ), 1000 )
+		clock.setTimeout( () => {
+			record( 'c' )()
+			clock.setTimeout( record( 'd' ), 500 )
+		}, 2000 )
+		const cancelled = clock.setTimeout( record( 'x' ), 1500 )
+
+		clock.clearTimeout( cancelled )
+		clock.advance( 2.5 )
+
+		expect( calls ).toEqual( [ [ 'a', 1000 ], [ 'b', 2000 ], [ 'c', 2000 ], [ 'd', 2500 ] ] )
+		expect( clock.now() ).toBe( 2500 )
+		expect( clock.pending ).toBe( 0 )
+	} )
+
+
+	it( 'doesn\'t run timers when the time is moved backwards', () => {
+		const clock		= new FakeClock( 10 )
+		const callback	= jest.fn()
+
+		clock.setTimeout( callback, 1000 )
+		clock.set( 5 )
+		clock.advance( -1 )
+
+		expect( callback ).not.toHaveBeenCalled()
+		expect( clock.pending ).toBe( 1 )
+		expect( clock.now() ).toBe( 5000 )
+
+		clock.set( 11 )
+
+		expect( callback ).toHaveBeenCalledTimes( 1 )
+	} )
+
+} )
+
+
+describe( 'Totp time sources', () => {
+
+	it( 'accepts dates, numbers and instants as time', () => {
+		expect( Totp.GetToken( { secret, digits: 8, time } ) ).toBe( token )
+		expect( Totp.GetToken( { secret, digits: 8, time: new Date( time * 1000 ) } ) ).toBe( token )
+		expect( Totp.GetToken( { secret, digits: 8, time: { epochMilliseconds: time * 1000 } } ) ).toBe( token )
+		expect( Totp.NextTick( { time: new Date( time * 1000 ) } ) ).toEqual( new Date( 60000 ) )
+	} )
+
+
+	it( 'reads the time from the given clock', () => {
+		const clock = new FakeClock( time )
+
+		expect( Totp.GetToken( { secret, digits: 8, clock } ) ).toBe( token )
+		expect( Totp.Verify( { secret, digits: 8, clock, token } ) ).toBe( true )
+		expect( Totp.Counter( { clock } ) ).toBe( 1 )
+		expect( Totp.NextTick( { clock } ) ).toEqual( new Date( 60000 ) )
+		expect( Totp.Now( { clock, time: 10 } ) ).toBe( 10 )
+	} )
+
+
+	it( 'applies the clock offset', () => {
+		const clock = new FakeClock( 0, time )
+
+		expect( Totp.GetToken( { secret, digits: 8, clock } ) ).toBe( token )
+		expect( Totp.Now( { clock } ) ).toBe( time )
+	} )
+
+
+	it( 'uses the `Totp.Clock` default time source', () => {
+		const defaultClock = Totp.Clock
+
+		Totp.Clock = new FakeClock( time )
+
+		try {
+			expect( Totp.GetToken( { secret, digits: 8 } ) ).toBe( token )
+			expect( new Totp( { secret, digits: 8 } ).token() ).toBe( token )
+		} finally {
+			Totp.Clock = defaultClock
+		}
+	} )
+
+
+	it( 'binds the clock to `Totp` instances', () => {
+		const clock	= new FakeClock( time )
+		const totp	= new Totp( { secret, digits: 8, clock } )
+
+		expect( totp.token() ).toBe( token )
+		expect( totp.verify( token ) ).toBe( true )
+		expect( totp.nextTick() ).toEqual( new Date( 60000 ) )
+
+		clock.advance( 1 )
+
+		expect( totp.verify( token ) ).toBe( false )
+		expect( totp.token( new Date( time * 1000 ) ) ).toBe( token )
+		expect( totp.watch().current().counter ).toBe( 2 )
+	} )
+
+
+	it( 'binds the clock to Web Crypto `Totp` instances', async () => {
+		const clock	= new FakeClock( time )
+		const totp	= new WebTotp( { secret, digits: 8, clock } )
+
+		await expect( totp.token() ).resolves.toBe( token )
+		await expect( totp.verify( token ) ).resolves.toBe( true )
+		await expect( WebTotp.GetToken( { secret, digits: 8, time: { epochMilliseconds: time * 1000 } } ) ).resolves.toBe( token )
+		expect( totp.nextTick() ).toEqual( new Date( 60000 ) )
+	} )
+
+} )
+
+
+describe( 'Totp.Watch() with a fake clock', () => {
+
+	it( 'emits updates when the fake clock reaches the tick boundaries', () => {
+		const clock		= new FakeClock( 50 )
+		const updates: OTP.TOTP.WatchUpdate[] = []
+		const watcher	= Totp.Watch( { secret, digits: 8, clock } )
+
+		watcher.subscribe( update => updates.push( update ) )
+		clock.advance( 10 )
+		watcher.stop()
+
+		expect( updates.map( ( { token, counter } ) => ( { token, counter } ) ) ).toEqual( [
+			{ token: Totp.GetToken( { secret, digits: 8, time: 50 } ), counter: 1 },
+			{ token: Totp.GetToken( { secret, digits: 8, time: 60 } ), counter: 2 },
+		] )
+		expect( clock.pending ).toBe( 0 )
+	} )
+
+
+	it( 'schedules clocks without timers with the `Totp.Clock` timers', () => {
+		const defaultClock = Totp.Clock
+
+		const timers	= new FakeClock( 50 )
+		const listener	= jest.fn()
+
+		Totp.Clock = timers
+
+		try {
+			const watcher = Totp.Watch( { secret, clock: { now: () => timers.now() + 5000 } } )
+
+			watcher.subscribe( listener )
+			timers.advance( 5 )
+			watcher.stop()
+
+			expect( listener ).toHaveBeenCalledTimes( 2 )
+			expect( listener ).toHaveBeenLastCalledWith( expect.objectContaining( { counter: 2 } ) )
+		} finally {
+			Totp.Clock = defaultClock
+		}
+	} )
+
+} )
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Core } from '@/Core'
+import { Otp } from '@/Otp'
+import { Otp as WebOtp } from '@/web'
+import { ErrorCode } from '@/error'
+
+/** RFC 4226 - Appendix D, counter 0 HMAC-SHA-1 digest. */
+const digest = Buffer.from( 'cc93cf18508d94934c64b65d8ba7667fb7cde4b0', 'hex' )
+
+
+describe( 'Core', () => {
+
+	it( 'converts digests to tokens', () => {
+		expect( Core.DigestToToken( digest, 6, undefined, '0123456789' ) ).toBe( '755224' )
+		expect( Core.DigestToToken( new Uint8Array( digest ), 6, undefined, '0123456789' ) ).toBe( '755224' )
+		expect( Core.DigestToToken( digest, 6, 'steam', '0123456789' ) ).toHaveLength( Core.SteamDigits )
+		expect( () => Core.DigestToToken( digest, 11, undefined, '0123456789' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_DIGITS } ) )
+	} )
+
+
+	it( 'draws random strings from the given random bytes source', () => {
+		const random = jest.fn( ( size: number ) => new Uint8Array( size ).fill( 255 ).fill( 1, 0, 1 ) )
+
+		expect( Core.RandomString( 2, 'abc', random ) ).toBe( 'bb' )
+		expect( random ).toHaveBeenCalledTimes( 2 )
+		expect( Core.GenerateSecretASCII( 4, false, size => new Uint8Array( size ).fill( 61 ) ) ).toBe( 'zzzz' )
+	} )
+
+
+	it( 'pre-checks tokens against the token alphabet and length', () => {
+		expect( Core.TokenFailure( '755224', 6, undefined, '0123456789' ) ).toBeUndefined()
+		expect( Core.TokenFailure( '75522a', 6, undefined, '0123456789' ) ).toEqual( { valid: false, reason: 'malformed' } )
+		expect( Core.TokenFailure( '7552', 6, undefined, '0123456789' ) ).toEqual( { valid: false, reason: 'length-mismatch' } )
+		expect( Core.TokenFailure( 'BCDFG', 6, 'steam', '0123456789' ) ).toBeUndefined()
+	} )
+
+
+	it( 'calculates TOTP counters and time steps', () => {
+		expect( Core.Now( 59, { now: () => 0 } ) ).toBe( 59 )
+		expect( Core.Now( undefined, { now: () => 59000 } ) ).toBe( 59 )
+		expect( Core.Counter( 59, 30, 0 ) ).toBe( 1 )
+		expect( Core.Counter( 59, 30, 30 ) ).toBe( 0 )
+		expect( Core.NextTick( 1, 30, 0 ) ).toEqual( new Date( 60000 ) )
+		expect( () => Core.Counter( 59, 0, 0 ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PERIOD } ) )
+	} )
+
+
+	it( 'is shared by the Node.js and the Web Crypto implementations', () => {
+		expect( Otp.DigestToToken( digest ) ).toBe( WebOtp.DigestToToken( digest ) )
+		expect( Otp.MaxDigits( '0123456789ABCDEF' ) ).toBe( WebOtp.MaxDigits( '0123456789ABCDEF' ) )
+		expect( Otp.KeyLength( 'SHA-512' ) ).toBe( WebOtp.KeyLength( 'SHA-512' ) )
+		expect( Otp.ASCIILength( 20 ) ).toBe( WebOtp.ASCIILength( 20 ) )
+		expect( WebOtp.GenerateSecretASCII( 30 ) ).toMatch( /^[0-9A-Za-z]{30}$/ )
+	} )
+
+} )
\ No newline at end of file
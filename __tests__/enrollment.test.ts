@@ -0,0 +1,140 @@
+import { Enrollment } from '@/Enrollment'
+import { Totp } from '@/Totp'
+import { FakeClock } from '@/Clock'
+import { ErrorCode } from '@/error'
+import type { OTP } from '@/types'
+
+
+const secret	= { key: '3132333435363738393031323334353637383930' }
+const time		= 59
+
+
+describe( 'Enrollment.Start()', () => {
+
+	it( 'creates a serializable pending enrollment', () => {
+		const pending = Enrollment.Start( { label: 'alice@example.com', issuer: 'Example', secret, time } )
+
+		expect( pending ).toEqual( {
+			secret		: { key: secret.key, encoding: 'hex', algorithm: 'SHA-1' },
+			label		: 'alice@example.com',
+			issuer		: 'Example',
+			digits		: 6,
+			encoder		: undefined,
+			alphabet	: '0123456789',
+			period		: 30,
+			epoch		: 0,
+			window		: 1,
+			url			: Totp.AuthURL( { label: 'alice@example.com', issuer: 'Example', secret: { key: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', encoding: 'base32' }, period: 30 } ),
+			createdAt	: 59,
+			expiresAt	: 659,
+		} )
+		expect( JSON.parse( JSON.stringify( pending ) ) ).toEqual( expect.objectContaining( { url: pending.url } ) )
+	} )
+
+
+	it( 'generates a new secret key if none is given', () => {
+		const pending = Enrollment.Start( { label: 'alice@example.com', algorithm: 'SHA-256', ttl: 60, time } )
+
+		expect( pending.secret.key ).toMatch( /^[0-9A-F]{64}$/ )
+		expect( pending.secret.algorithm ).toBe( 'SHA-256' )
+		expect( pending.url ).toContain( 'algorithm=SHA256' )
+		expect( pending.expiresAt ).toBe( 119 )
+	} )
+
+
+	it( 'throws a new Exception when options are not valid', () => {
+		expect( () => Enrollment.Start( { label: 'alice', ttl: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => Enrollment.Start( { label: 'alice', period: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PERIOD } ) )
+	} )
+
+} )
+
+
+describe( 'Enrollment.Confirm()', () => {
+
+	const pending	= Enrollment.Start( { label: 'alice@example.com', secret, time } )
+	const token		= ( time: number ) => Totp.GetToken( { secret, time } )
+
+	it( 'confirms the enrollment with a valid token', () => {
+		expect( Enrollment.Confirm( pending, { token: token( 90 ), time: 90 } ) ).toEqual( {
+			secret		: pending.secret,
+			label		: 'alice@example.com',
+			issuer		: undefined,
+			digits		: 6,
+			encoder		: undefined,
+			alphabet	: '0123456789',
+			period		: 30,
+			epoch		: 0,
+			window		: 1,
+			drift		: 0,
+			counter		: 3,
+			confirmedAt	: 90,
+		} )
+	} )
+
+
+	it( 'measures the initial clock drift', () => {
+		expect( Enrollment.Confirm( pending, { token: token( 60 ), time: 90 } ) )
+			.toEqual( expect.objectContaining( { drift: -1, counter: 2 } ) )
+		expect( Enrollment.Confirm( pending, { token: token( 120 ), time: 90 } ) )
+			.toEqual( expect.objectContaining( { drift: 1, counter: 4 } ) )
+		expect( Enrollment.Confirm( pending, { token: token( 150 ), time: 90 } ) ).toBeNull()
+	} )
+
+
+	it( 'requires two consecutive tokens when next is given', () => {
+		expect( Enrollment.Confirm( pending, { token: token( 60 ), next: token( 90 ), time: 90 } ) )
+			.toEqual( expect.objectContaining( { drift: 0, counter: 3 } ) )
+		expect( Enrollment.Confirm( pending, { token: token( 90 ), next: token( 60 ), time: 90 } ) ).toBeNull()
+		expect( Enrollment.Confirm( pending, { token: token( 60 ), next: token( 120 ), time: 90 } ) ).toBeNull()
+		expect( Enrollment.Confirm( pending, { token: token( 90 ), next: token( 90 ), time: 90 } ) ).toBeNull()
+	} )
+
+
+	it( 'requires the next token to match within the window', () => {
+		expect( Enrollment.Confirm( pending, { token: token( 90 ), next: token( 120 ), time: 90 } ) )
+			.toEqual( expect.objectContaining( { drift: 1, counter: 4 } ) )
+		expect( Enrollment.Confirm( pending, { token: token( 120 ), next: token( 150 ), time: 90 } ) ).toBeNull()
+	} )
+
+
+	it( 'yields a credential usable with Totp instances', () => {
+		const credential = Enrollment.Confirm( pending, { token: token( 90 ), time: 90 } )!
+
+		expect( new Totp( credential ).verify( token( 300 ), { time: 300 } ) ).toBe( true )
+	} )
+
+
+	it( 'confirms a deserialized pending enrollment', () => {
+		const restored = JSON.parse( JSON.stringify( pending ) ) as OTP.ENROLLMENT.Pending
+
+		expect( Enrollment.Confirm( restored, { token: token( 90 ), time: 90 } ) ).not.toBeNull()
+	} )
+
+
+	it( 'throws a new Exception when the pending enrollment has expired', () => {
+		expect( Enrollment.IsExpired( pending, 658 ) ).toBe( false )
+		expect( Enrollment.IsExpired( pending, 659 ) ).toBe( true )
+		expect( () => Enrollment.Confirm( pending, { token: token( 659 ), time: 659 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.ENROLLMENT_EXPIRED } ) )
+	} )
+
+
+	it( 'reads the time from the given clock', () => {
+		const clock		= new FakeClock( time )
+		const pending	= Enrollment.Start( { label: 'alice@example.com', secret, clock } )
+
+		expect( pending ).toEqual( expect.objectContaining( { createdAt: 59, expiresAt: 659 } ) )
+
+		clock.advance( 31 )
+		expect( Enrollment.Confirm( pending, { token: token( 90 ), clock } ) )
+			.toEqual( expect.objectContaining( { drift: 0, counter: 3, confirmedAt: 90 } ) )
+
+		clock.set( 659 )
+		expect( () => Enrollment.Confirm( pending, { token: token( 659 ), clock } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.ENROLLMENT_EXPIRED } ) )
+	} )
+
+} )
\ No newline at end of file
@@ -1,4 +1,7 @@
+import { Otp } from '@/Otp'
 import { Hotp } from '@/Hotp'
+import { SealedSecret } from '@/SealedSecret'
+import { ErrorCode } from '@/error'
 import type { OTP } from '@/types'
 
 const hexSecret		= 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7'
@@ -102,6 +105,53 @@ describe( 'Hotp.Counter()', () => {
 } )
 
 
+describe( 'Hotp.CounterBytes()', () => {
+
+	it( 'encodes the counter as 8 bytes big-endian integer', () => {
+		expect( Hotp.CounterBytes( 10 ) ).toEqual( Buffer.from( '000000000000000a', 'hex' ) )
+		expect( Hotp.CounterBytes( 0x123456789A ) ).toEqual( Buffer.from( '000000123456789a', 'hex' ) )
+		expect( Hotp.CounterBytes( Number.MAX_SAFE_INTEGER ) ).toEqual( Buffer.from( '001fffffffffffff', 'hex' ) )
+	} )
+
+
+	it( 'falls back to the formatted counter for unsafe integers', () => {
+		expect( Hotp.CounterBytes( 2345434545234e+8 ) )
+			.toEqual( Buffer.from( Hotp.Counter( 2345434545234e+8 ), 'hex' ) )
+	} )
+
+} )
+
+
+describe( 'Otp.PrepareKey()', () => {
+
+	const options: OTP.HOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	it( 'decodes the secret key once', () => {
+		const key = Otp.PrepareKey( { key: base32Secret, encoding: 'base32', algorithm: 'SHA-256' } )
+
+		expect( key.algorithm ).toBe( 'SHA-256' )
+		expect( key.hmacKey.export().toString( 'hex' ) ).toBe( Otp.HmacKey( base32Secret, 'base32' ) )
+		expect( Otp.PrepareKey( { key: base64Secret, encoding: 'base64url' } ).hmacKey.export() )
+			.toEqual( Buffer.from( hexSecret, 'hex' ) )
+	} )
+
+
+	it( 'can be used in place of the plain secret', () => {
+		const secret	= Otp.PrepareKey( options.secret )
+		const token		= Hotp.GetToken( { ...options, counter: 11 } )
+
+		expect( Hotp.GetToken( { secret, counter: 11 } ) ).toBe( token )
+		expect( Hotp.GetDelta( { secret, token, counter: 9, window: 2 } ) ).toBe( 2 )
+		expect( Hotp.Resync( {
+			secret, tokens: [ token, Hotp.GetToken( { ...options, counter: 12 } ) ],
+		} ) ).toBe( 13 )
+	} )
+
+} )
+
+
 describe( 'Hotp.AuthURL()', () => {
 
 	it( 'uses default values for `counter` and `digits`', () => {
@@ -259,6 +309,30 @@ describe( 'Hotp.GetDelta()', () => {
 	} )
 
 
+	it( 'honors the token alphabet', () => {
+
+		const alphabet	= '0123456789ABCDEF'
+		const token		= Hotp.GetToken( { ...options, digits: 8, alphabet, counter: 5 } )
+
+		expect( token ).toMatch( /^[0-9A-F]{8}$/ )
+		expect( Hotp.GetDelta( { ...options, digits: 8, alphabet, token, counter: 3, window: 2 } ) ).toBe( 2 )
+		expect( Hotp.GetDelta( { ...options, digits: 8, token, counter: 3, window: 2 } ) ).toBe( null )
+
+	} )
+
+
+	it( 'returns `null` if given token has multi-byte characters', () => {
+
+		expect(
+			Hotp.GetDelta( {
+				...options,
+				token	: '12345é',
+			} )
+		).toBe( null )
+
+	} )
+
+
 	it( 'throws a new Exception when no token is provided', () => {
 
 		expect( () => {
@@ -271,6 +345,53 @@ describe( 'Hotp.GetDelta()', () => {
 } )
 
 
+describe( 'Hotp.Check()', () => {
+
+	const options: OTP.HOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	it( 'returns the delta and the matched counter', () => {
+		expect( Hotp.Check( {
+			...options,
+			token	: Hotp.GetToken( { ...options, counter: 11 } ),
+			counter	: 9,
+			window	: 2,
+		} ) ).toEqual( { valid: true, delta: 2, matchedCounter: 11 } )
+
+		expect( Hotp.Check( {
+			...options,
+			token	: Hotp.GetToken( { ...options, counter: 9 } ),
+			counter	: 12,
+			window	: 3,
+		}, true ) ).toEqual( { valid: true, delta: -3, matchedCounter: 9 } )
+	} )
+
+
+	it( 'returns the failure reason', () => {
+		expect( Hotp.Check( { ...options, token: '12a456' } ) )
+			.toEqual( { valid: false, reason: 'malformed' } )
+		expect( Hotp.Check( { ...options, token: '12345é' } ) )
+			.toEqual( { valid: false, reason: 'malformed' } )
+		expect( Hotp.Check( { ...options, token: '1234567' } ) )
+			.toEqual( { valid: false, reason: 'length-mismatch' } )
+		expect( Hotp.Check( { ...options, token: Hotp.GetToken( { ...options, counter: 12 } ), counter: 9, window: 2 } ) )
+			.toEqual( { valid: false, reason: 'no-match' } )
+	} )
+
+
+	it( 'honors the token alphabet and encoder', () => {
+		const token = Hotp.GetToken( { ...options, encoder: 'steam' } )
+
+		expect( Hotp.Check( { ...options, encoder: 'steam', token } ).valid ).toBe( true )
+		expect( Hotp.Check( { ...options, encoder: 'steam', token: 'AAAAA' } ) )
+			.toEqual( { valid: false, reason: 'malformed' } )
+		expect( Hotp.Check( { ...options, alphabet: '0123456789ABCDEF', token: 'ABCDEF' } ).valid ).toBe( false )
+	} )
+
+} )
+
+
 describe( 'Hotp.Verify()', () => {
 
 	const options: OTP.HOTP.GetTokenOptions = {
@@ -333,4 +454,147 @@ describe( 'Hotp.Verify()', () => {
 		} ) ).toBe( false )
 	} )
 
+} )
+
+describe( 'Hotp.Resync()', () => {
+
+	const options: OTP.HOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	const tokens = ( counter: number, count: number ) => (
+		Array.from( { length: count }, ( _, index ) => (
+			Hotp.GetToken( { ...options, counter: counter + index } )
+		) ) as OTP.HOTP.ResyncOptions[ 'tokens' ]
+	)
+
+
+	it( 'returns the counter following the last given token', () => {
+		expect( Hotp.Resync( {
+			...options,
+			tokens	: tokens( 500, 2 ),
+			counter	: 10,
+		} ) ).toBe( 502 )
+
+		expect( Hotp.Resync( {
+			...options,
+			tokens	: tokens( 500, 3 ),
+			counter	: 10,
+		} ) ).toBe( 503 )
+	} )
+
+
+	it( 'returns null if tokens are not consecutive', () => {
+		expect( Hotp.Resync( {
+			...options,
+			tokens	: [
+				Hotp.GetToken( { ...options, counter: 500 } ),
+				Hotp.GetToken( { ...options, counter: 502 } ),
+			],
+			counter	: 10,
+		} ) ).toBe( null )
+	} )
+
+
+	it( 'handles window', () => {
+		expect( Hotp.Resync( {
+			...options,
+			tokens	: tokens( 1200, 2 ),
+			counter	: 10,
+		} ) ).toBe( null )
+
+		expect( Hotp.Resync( {
+			...options,
+			tokens	: tokens( 1200, 2 ),
+			counter	: 10,
+			window	: 1500,
+		} ) ).toBe( 1202 )
+	} )
+
+
+	it( 'returns null if tokens are not of correct length', () => {
+		expect( Hotp.Resync( {
+			...options,
+			tokens	: tokens( 500, 2 ),
+			digits	: 8,
+			counter	: 10,
+		} ) ).toBe( null )
+	} )
+
+
+	it( 'throws a new Exception when tokens count is not supported', () => {
+		expect( () => Hotp.Resync( {
+			...options,
+			// @ts-expect-error negative testing
+			tokens: [],
+		} ) ).toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+
+		expect( () => Hotp.Resync( {
+			...options,
+			tokens: tokens( 500, 1 ),
+		} ) ).toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+	} )
+
+} )
+
+
+describe( 'new Hotp()', () => {
+
+	it( 'generates and verifies tokens', () => {
+		const hotp = new Hotp( { secret: { key: hexSecret }, window: 2 } )
+
+		expect( hotp.token() ).toBe( Hotp.GetToken( { secret: { key: hexSecret } } ) )
+		expect( hotp.token( 5 ) ).toBe( Hotp.GetToken( { secret: { key: hexSecret }, counter: 5 } ) )
+		expect( hotp.delta( hotp.token( 7 ), 5 ) ).toBe( 2 )
+		expect( hotp.delta( hotp.token( 8 ), 5 ) ).toBeNull()
+		expect( hotp.verify( hotp.token( 6 ), 5 ) ).toBe( true )
+	} )
+
+
+	it( 'supports every secret encoding', () => {
+		const token = new Hotp( { secret: { key: hexSecret } } ).token( 1 )
+
+		expect( new Hotp( { secret: { key: base64Secret, encoding: 'base64url' } } ).token( 1 ) ).toBe( token )
+		expect( new Hotp( { secret: { key: base32Secret, encoding: 'base32' } } ).token( 1 ) )
+			.toBe( Hotp.GetToken( { secret: { key: base32Secret, encoding: 'base32' }, counter: 1 } ) )
+	} )
+
+
+	it( 'supports sealed secrets', () => {
+		const keyring = { current: 'k1', keys: { k1: Buffer.alloc( 32, 7 ) } }
+		const hotp = new Hotp( { secret: { sealed: SealedSecret.Seal( { key: hexSecret }, keyring ), keyring }, digits: 8 } )
+
+		expect( hotp.token( 3 ) ).toBe( Hotp.GetToken( { secret: { key: hexSecret }, digits: 8, counter: 3 } ) )
+	} )
+
+
+	it( 'is not affected by later changes to the static defaults', () => {
+		const hotp		= new Hotp( { secret: { key: hexSecret } } )
+		const token		= hotp.token( 1 )
+		const defaults	= { digits: Otp.Digits, encoding: Otp.Encoding, algorithm: Otp.Algorithm }
+
+		try {
+			Otp.Digits		= 8
+			Otp.Encoding	= 'base32'
+			Otp.Algorithm	= 'SHA-512'
+
+			expect( hotp.token( 1 ) ).toBe( token )
+			expect( hotp.digits ).toBe( 6 )
+			expect( hotp.verify( token, 1 ) ).toBe( true )
+		} finally {
+			Otp.Digits		= defaults.digits
+			Otp.Encoding	= defaults.encoding
+			Otp.Algorithm	= defaults.algorithm
+		}
+	} )
+
+
+	it( 'builds the otpauth URL', () => {
+		const hotp = new Hotp( { secret: { key: hexSecret }, digits: 8 } )
+
+		expect( hotp.authURL( { label: 'alice', issuer: 'Example', counter: 3 } ) ).toBe(
+			Hotp.AuthURL( { label: 'alice', issuer: 'Example', counter: 3, digits: 8, secret: { key: hexSecret } } )
+		)
+	} )
+
 } )
\ No newline at end of file
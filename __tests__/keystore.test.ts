@@ -0,0 +1,120 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { FileKeyStore } from '@/FileKeyStore'
+import { Hotp } from '@/Hotp'
+import { Totp } from '@/Totp'
+import { Throttle } from '@/Throttle'
+import { ErrorCode } from '@/error'
+import type { OTP } from '@/types'
+
+
+const secret: OTP.Secret = { key: '3132333435363738393031323334353637383930' }
+const directory = fs.mkdtempSync( path.join( os.tmpdir(), 'crypto-otp-' ) )
+
+afterAll( () => fs.rmSync( directory, { recursive: true, force: true } ) )
+
+
+describe( 'FileKeyStore', () => {
+
+	const store = new FileKeyStore( path.join( directory, 'keys' ) )
+
+	it( 'imports and removes secret keys', () => {
+		store.import( 'alice', { key: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', encoding: 'base32' } )
+
+		expect( store.has( 'alice' ) ).toBe( true )
+		expect( JSON.parse( fs.readFileSync( path.join( store.directory, 'alice.json' ), 'utf8' ) ) )
+			.toEqual( { key: secret.key, algorithm: 'SHA-1' } )
+
+		store.delete( 'alice' )
+
+		expect( store.has( 'alice' ) ).toBe( false )
+	} )
+
+
+	it( 'creates signers bound to the secret key algorithm', async () => {
+		store.import( 'bob', { ...secret, algorithm: 'SHA-256' } )
+
+		expect( store.signer( 'bob' ).algorithm ).toBe( 'SHA-256' )
+		expect( ( await store.asyncSigner( 'bob' ) ).algorithm ).toBe( 'SHA-256' )
+		expect( () => store.signer( 'bob' ).sign( 'SHA-1', Hotp.CounterBytes( 0 ) ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_ALGORITHM } ) )
+	} )
+
+
+	it( 'throws a new Exception when the key ID is not valid or the key is not in the store', async () => {
+		expect( () => store.import( '../alice', secret ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => store.signer( 'carol' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.NOT_FOUND } ) )
+		await expect( store.asyncSigner( 'carol' ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.NOT_FOUND } ) )
+
+		store.import( 'carol', secret )
+
+		const signer = store.signer( 'carol' )
+
+		store.delete( 'carol' )
+
+		expect( () => signer.sign( 'SHA-1', Hotp.CounterBytes( 0 ) ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.NOT_FOUND } ) )
+	} )
+
+} )
+
+
+describe( 'Hotp and Totp with signers', () => {
+
+	const store = new FileKeyStore( directory )
+
+	store.import( 'alice', secret )
+	store.import( 'bob', { key: '3132333435363738393031323334353637383930313233343536373839303132', algorithm: 'SHA-256' } )
+
+	it( 'generates tokens', () => {
+		expect( Hotp.GetToken( { secret: store.signer( 'alice' ), counter: 1 } ) ).toBe( '287082' )
+		expect( Totp.GetToken( { secret: store.signer( 'alice' ), digits: 8, time: 59 } ) ).toBe( '94287082' )
+		expect( Totp.GetToken( { secret: store.signer( 'bob' ), digits: 8, time: 59 } ) ).toBe( '46119246' )
+	} )
+
+
+	it( 'verifies tokens', () => {
+		const secret = store.signer( 'alice' )
+
+		expect( Hotp.GetDelta( { secret, token: '287082', window: 2 } ) ).toBe( 1 )
+		expect( Hotp.Resync( { secret, tokens: [ '359152', '969429' ] } ) ).toBe( 4 )
+		expect( Totp.Verify( { secret, digits: 8, time: 59, token: '94287082' } ) ).toBe( true )
+		expect( new Throttle().totp( 'alice', { secret, time: 59, token: '000000' } ) ).toBe( false )
+	} )
+
+
+	it( 'passes the algorithm and the counter bytes to the signer', () => {
+		const sign = jest.fn( store.signer( 'alice' ).sign )
+
+		Hotp.GetToken( { secret: { sign }, counter: 1 } )
+
+		expect( sign ).toHaveBeenCalledWith( 'SHA-1', Buffer.from( '0000000000000001', 'hex' ) )
+	} )
+
+
+	it( 'throws a new Exception when the signer output is not a valid digest', () => {
+		const outputs: unknown[] = [ new Uint8Array(), new Uint8Array( 32 ), 'digest', null ]
+
+		outputs.forEach( output => {
+			expect( () => Hotp.GetToken( { secret: { sign: () => output as Uint8Array }, counter: 1 } ) )
+				.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_DIGEST } ) )
+		} )
+
+		expect( () => Hotp.GetToken( { secret: { algorithm: 'SHA-256', sign: () => new Uint8Array( 20 ) }, counter: 1 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_DIGEST } ) )
+	} )
+
+
+	it( 'throws a new Exception when an asynchronous signer is given', async () => {
+		const signer = await store.asyncSigner( 'alice' )
+
+		expect( () => Totp.GetToken( { secret: signer as OTP.Signer } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.ASYNC_SIGNER } ) )
+	} )
+
+} )
\ No newline at end of file
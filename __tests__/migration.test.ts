@@ -0,0 +1,190 @@
+import { Migration } from '@/Migration'
+import { Totp } from '@/Totp'
+import { ErrorCode } from '@/error'
+import type { OTP } from '@/types'
+
+/**
+ * Payloads built with an independent protobuf encoder.
+ * Export of 2 batches with `batch_id` -123456789.
+ */
+const batch1 = 'otpauth-migration://offline?data=CjUKCkhlbGxvId6tvu8SGEV4YW1wbGU6YWxpY2VAZ29vZ2xlLmNvbRoHRXhhbXBsZSABKAEwAhABGAIgACjr5ZDF%2F%2F%2F%2F%2F%2F8B'
+const batch2 = 'otpauth-migration://offline?data=CjIKFAABAgMEBQYHCAkKCwwNDg8QERITEgxib2JAY29ycC5jb20aBENvcnAgAigCMAE4KhABGAIgASjr5ZDF%2F%2F%2F%2F%2F%2F8B'
+
+
+describe( 'Migration.Decode()', () => {
+
+	it( 'decodes a migration batch', () => {
+		const batch = Migration.Decode( batch1 )
+
+		expect( batch.version ).toBe( 1 )
+		expect( batch.batchSize ).toBe( 2 )
+		expect( batch.batchIndex ).toBe( 0 )
+		expect( batch.batchId ).toBe( -123456789 )
+		expect( batch.entries ).toEqual( [ {
+			type	: 'totp',
+			label	: 'Example:alice@google.com',
+			account	: 'alice@google.com',
+			issuer	: 'Example',
+			digits	: 6,
+			secret	: { key: 'JBSWY3DPEHPK3PXP', encoding: 'base32', algorithm: 'SHA-1' },
+		} ] )
+	} )
+
+
+	it( 'maps algorithm, digits and type enums', () => {
+		expect( Migration.Decode( batch2 ).entries ).toEqual( [ {
+			type	: 'hotp',
+			label	: 'bob@corp.com',
+			account	: 'bob@corp.com',
+			issuer	: 'Corp',
+			digits	: 8,
+			counter	: 42,
+			secret	: { key: 'AAAQEAYEAUDAOCAJBIFQYDIOB4IBCEQT', encoding: 'base32', algorithm: 'SHA-256' },
+		} ] )
+	} )
+
+
+	it( 'decodes unescaped `+` characters', () => {
+		const url = 'otpauth-migration://offline?data=ChAKBT4+Pj4+EgVhbGljZTAC'
+
+		expect( Migration.Decode( url ).entries[ 0 ]?.secret.key ).toBe( 'HY7D4PR6' )
+	} )
+
+
+	it( 'throws a new Exception when the URI is malformed', () => {
+		const expectException = ( url: string, code: ErrorCode ) => {
+			expect( () => Migration.Decode( url ) )
+				.toThrow( expect.objectContaining( { code } ) )
+		}
+
+		expectException( 'not a url', ErrorCode.INVALID_URL )
+		expectException( 'otpauth://totp/alice?secret=JBSWY3DPEHPK3PXP', ErrorCode.INVALID_PROTOCOL )
+		expectException( 'otpauth-migration://offline', ErrorCode.EMPTY_VALUE )
+		expectException( 'otpauth-migration://offline?data=CgUKAw', ErrorCode.INVALID_PAYLOAD )
+	} )
+
+
+	it( 'reports the credentials which cannot be decoded', () => {
+		const expectError = ( url: string, code: ErrorCode ) => {
+			const { entries, errors } = Migration.Decode( url )
+
+			expect( entries ).toEqual( [] )
+			expect( errors ).toEqual( [ { batchIndex: 0, index: 0, error: expect.objectContaining( { code } ) } ] )
+		}
+
+		expectError( 'otpauth-migration://offline?data=CgUKAf8gBA%3D%3D', ErrorCode.INVALID_ALGORITHM )
+		expectError( 'otpauth-migration://offline?data=CgA%3D', ErrorCode.EMPTY_VALUE )
+	} )
+
+} )
+
+
+describe( 'Migration.Import()', () => {
+
+	it( 'imports all the batches of an export', () => {
+		const { entries, errors } = Migration.Import( [ batch2, batch1 ] )
+
+		expect( entries.map( entry => entry.label ) )
+			.toEqual( [ 'Example:alice@google.com', 'bob@corp.com' ] )
+		expect( errors ).toEqual( [] )
+	} )
+
+
+	it( 'skips the credentials which cannot be decoded', () => {
+		const urls = Migration.Export( [
+			{ type: 'totp', label: 'Example:alice', issuer: 'Example', secret: { key: 'FBFF' } },
+			{ type: 'totp', label: 'Other:bob', issuer: 'Example', secret: { key: 'FBFF' } },
+			{ type: 'totp', label: 'carol:bob:mallory', secret: { key: 'FBFF' } },
+			{ type: 'hotp', label: 'dave', counter: 1, secret: { key: 'FBFF' } },
+		], { batchSize: 2 } )
+
+		const { entries, errors } = Migration.Import( urls )
+
+		expect( entries.map( entry => entry.label ) ).toEqual( [ 'Example:alice', 'dave' ] )
+		expect( errors ).toEqual( [
+			{ batchIndex: 0, index: 1, error: expect.objectContaining( { code: ErrorCode.ISSUER_MISMATCH } ) },
+			{ batchIndex: 1, index: 0, error: expect.objectContaining( { code: ErrorCode.INVALID_LABEL } ) },
+		] )
+	} )
+
+
+	it( 'throws a new Exception when batches are missing or duplicated', () => {
+		expect( () => Migration.Import( batch1 ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PAYLOAD } ) )
+		expect( () => Migration.Import( [ batch1, batch1 ] ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PAYLOAD } ) )
+		expect( () => Migration.Import( [] ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+	} )
+
+
+	it( 'throws a new Exception when batches belong to different exports', () => {
+		const [ other ] = Migration.Export( [ {
+			type: 'totp', label: 'alice', secret: { key: 'FBFF' },
+		} ], { batchId: 1 } )
+
+		expect( () => Migration.Import( [ batch1, other! ] ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PAYLOAD } ) )
+	} )
+
+} )
+
+
+describe( 'Migration.Export()', () => {
+
+	const entries: OTP.AuthURLOptions<OTP.Type>[] = [
+		{ type: 'totp', label: 'Example:alice@google.com', issuer: 'Example', secret: { key: 'JBSWY3DPEHPK3PXP', encoding: 'base32' } },
+		{ type: 'hotp', label: 'bob@corp.com', issuer: 'Corp', counter: 42, digits: 8, secret: { key: '000102030405060708090A0B0C0D0E0F10111213', algorithm: 'SHA-256' } },
+		{ type: 'totp', label: 'carol', digits: 8, secret: { key: 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7', algorithm: 'SHA-512' } },
+	]
+
+
+	it( 'produces migration URIs that can be imported back', () => {
+		const urls = Migration.Export( entries )
+
+		expect( urls ).toHaveLength( 1 )
+		expect( Migration.Import( urls ).entries ).toEqual( [
+			...Migration.Decode( batch1 ).entries,
+			...Migration.Decode( batch2 ).entries,
+			{
+				type	: 'totp',
+				label	: 'carol',
+				account	: 'carol',
+				digits	: 8,
+				secret	: { key: Totp.GetSecrets( { secret: { key: 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7' } } ).base32, encoding: 'base32', algorithm: 'SHA-512' },
+			},
+		] )
+	} )
+
+
+	it( 'splits credentials into batches', () => {
+		const urls = Migration.Export( entries, { batchSize: 2, batchId: 7 } )
+
+		expect( urls ).toHaveLength( 2 )
+		expect( urls.map( url => Migration.Decode( url ) ) ).toEqual( [
+			expect.objectContaining( { batchSize: 2, batchIndex: 0, batchId: 7, version: 1 } ),
+			expect.objectContaining( { batchSize: 2, batchIndex: 1, batchId: 7, version: 1 } ),
+		] )
+		expect( Migration.Import( urls ).entries ).toHaveLength( 3 )
+	} )
+
+
+	it( 'throws a new Exception when a credential is not supported by migration payloads', () => {
+		const secret: OTP.Secret = { key: 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7' }
+
+		const expectException = ( entry: OTP.AuthURLOptions<OTP.Type>, code: ErrorCode ) => {
+			expect( () => Migration.Export( [ entry ] ) )
+				.toThrow( expect.objectContaining( { code } ) )
+		}
+
+		expectException( { type: 'totp', label: 'alice', secret: { ...secret, algorithm: 'SHA-384' } }, ErrorCode.INVALID_ALGORITHM )
+		expectException( { type: 'totp', label: 'alice', secret, digits: 7 }, ErrorCode.INVALID_DIGITS )
+		expectException( { type: 'totp', label: 'alice', secret, period: 60 }, ErrorCode.INVALID_PERIOD )
+		expectException( { type: 'totp', label: 'alice', secret, encoder: 'steam' }, ErrorCode.INVALID_ENCODER )
+		expectException( { type: 'totp', label: 'alice', secret, alphabet: '0123456789ABCDEF' }, ErrorCode.INVALID_ALPHABET )
+
+		expect( () => Migration.Export( [], { batchSize: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+	} )
+
+} )
\ No newline at end of file
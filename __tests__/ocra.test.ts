@@ -0,0 +1,373 @@
+import { Ocra } from '@/Ocra'
+import { FakeClock } from '@/Clock'
+import { ErrorCode } from '@/error'
+import type { OTP } from '@/types'
+
+/**
+ * RFC 6287 - Appendix C test vectors.
+ * 
+ * [RFC 6287 - IETF](https://datatracker.ietf.org/doc/html/rfc6287#appendix-C)
+ */
+const SEED		= '3132333435363738393031323334353637383930'
+const SEED32	= '3132333435363738393031323334353637383930313233343536373839303132'
+const SEED64	= '31323334353637383930313233343536373839303132333435363738393031323334353637383930313233343536373839303132333435363738393031323334'
+const PIN		= '1234'
+const PIN_HASH	= '7110eda4d09e062aa5e4a390b0a572ac0d2c0220'
+/** Mar 25 2008, 12:06:30 GMT */
+const TIME		= 0x132d0b6 * 60
+
+
+describe( 'Ocra.GetToken()', () => {
+
+	describe( 'One-Way Challenge Response', () => {
+
+		it( 'OCRA-1:HOTP-SHA1-6:QN08', () => {
+			const suite = 'OCRA-1:HOTP-SHA1-6:QN08'
+			const expected = [
+				'237653', '243178', '653583', '740991', '608993',
+				'388898', '816933', '224598', '750600', '294470',
+			]
+
+			expected.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED }, question: String( index ).repeat( 8 ),
+				} ) ).toBe( token )
+			} )
+		} )
+
+
+		it( 'OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1', () => {
+			const suite = 'OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1'
+			const expected = [
+				'65347737', '86775851', '78192410', '71565254', '10104329',
+				'65983500', '70069104', '91771096', '75011558', '08522129',
+			]
+
+			expected.forEach( ( token, counter ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED32 }, question: '12345678', counter, password: PIN,
+				} ) ).toBe( token )
+			} )
+		} )
+
+
+		it( 'OCRA-1:HOTP-SHA256-8:QN08-PSHA1', () => {
+			const suite = 'OCRA-1:HOTP-SHA256-8:QN08-PSHA1'
+			const expected = [ '83238735', '01501458', '17957585', '86776967', '86807031' ]
+
+			expected.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED32 }, question: String( index ).repeat( 8 ), passwordHash: PIN_HASH,
+				} ) ).toBe( token )
+			} )
+		} )
+
+
+		it( 'OCRA-1:HOTP-SHA512-8:C-QN08', () => {
+			const suite = 'OCRA-1:HOTP-SHA512-8:C-QN08'
+			const expected = [
+				'07016083', '63947962', '70123924', '25341727', '33203315',
+				'34205738', '44343969', '51946085', '20403879', '31409299',
+			]
+
+			expected.forEach( ( token, counter ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED64 }, question: String( counter ).repeat( 8 ), counter,
+				} ) ).toBe( token )
+			} )
+		} )
+
+
+		it( 'OCRA-1:HOTP-SHA512-8:QN08-T1M', () => {
+			const suite = 'OCRA-1:HOTP-SHA512-8:QN08-T1M'
+			const expected = [ '95209754', '55907591', '22048402', '24218844', '36209546' ]
+
+			expected.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED64 }, question: String( index ).repeat( 8 ), time: TIME,
+				} ) ).toBe( token )
+			} )
+		} )
+
+	} )
+
+
+	describe( 'Mutual Challenge-Response', () => {
+
+		it( 'OCRA-1:HOTP-SHA256-8:QA08', () => {
+			const suite = 'OCRA-1:HOTP-SHA256-8:QA08'
+			const server = [ '28247970', '01984843', '65387857', '03351211', '83412541' ]
+			const client = [ '15510767', '90175646', '33777207', '95285278', '28934924' ]
+
+			server.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED32 }, question: `CLI2222${ index }SRV1111${ index }`, mutual: true,
+				} ) ).toBe( token )
+			} )
+
+			client.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED32 }, question: `SRV1111${ index }CLI2222${ index }`, mutual: true,
+				} ) ).toBe( token )
+			} )
+		} )
+
+
+		it( 'OCRA-1:HOTP-SHA512-8:QA08 / OCRA-1:HOTP-SHA512-8:QA08-PSHA1', () => {
+			const server = [ '79496648', '76831980', '12250499', '90856481', '12761449' ]
+			const client = [ '18806276', '70020315', '01600026', '18951020', '32528969' ]
+
+			server.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite: 'OCRA-1:HOTP-SHA512-8:QA08', secret: { key: SEED64 }, question: `CLI2222${ index }SRV1111${ index }`, mutual: true,
+				} ) ).toBe( token )
+			} )
+
+			client.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite: 'OCRA-1:HOTP-SHA512-8:QA08-PSHA1', secret: { key: SEED64 }, question: `SRV1111${ index }CLI2222${ index }`, mutual: true, password: PIN,
+				} ) ).toBe( token )
+			} )
+		} )
+
+	} )
+
+
+	describe( 'Plain Signature', () => {
+
+		it( 'OCRA-1:HOTP-SHA256-8:QA08', () => {
+			const suite = 'OCRA-1:HOTP-SHA256-8:QA08'
+			const expected = [ '53095496', '04110475', '31331128', '76028668', '46554205' ]
+
+			expected.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED32 }, question: `SIG1${ index }000`,
+				} ) ).toBe( token )
+			} )
+		} )
+
+
+		it( 'OCRA-1:HOTP-SHA512-8:QA10-T1M', () => {
+			const suite = 'OCRA-1:HOTP-SHA512-8:QA10-T1M'
+			const expected = [ '77537423', '31970405', '10235557', '95213541', '65360607' ]
+
+			expected.forEach( ( token, index ) => {
+				expect( Ocra.GetToken( {
+					suite, secret: { key: SEED64 }, question: `SIG1${ index }00000`, time: TIME,
+				} ) ).toBe( token )
+			} )
+		} )
+
+	} )
+
+
+	it( 'validates the secret key', () => {
+		const options = { suite: 'OCRA-1:HOTP-SHA1-6:QN08', question: '12345678' }
+
+		expect( () => Ocra.GetToken( { ...options, secret: { key: 'XYZ' } } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_SECRET } ) )
+		expect( () => Ocra.GetToken( { ...options, secret: { key: SEED.slice( 0, 30 ) } } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WEAK_SECRET } ) )
+		expect( Ocra.GetToken( { ...options, secret: { key: SEED.slice( 0, 30 ) }, minSecretBits: 0 } ) )
+			.toMatch( /^\d{6}$/ )
+	} )
+
+} )
+
+
+
+describe( 'Ocra.ParseSuite()', () => {
+
+	it( 'parses an OCRA suite', () => {
+		expect( Ocra.ParseSuite( 'OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1' ) ).toEqual( {
+			suite		: 'OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1',
+			algorithm	: 'SHA-256',
+			digits		: 8,
+			counter		: true,
+			question	: { format: 'N', length: 8 },
+			password	: 'SHA-1',
+		} )
+
+		expect( Ocra.ParseSuite( 'OCRA-1:HOTP-SHA512-6:QH40-S128-T2H' ) ).toEqual( {
+			suite		: 'OCRA-1:HOTP-SHA512-6:QH40-S128-T2H',
+			algorithm	: 'SHA-512',
+			digits		: 6,
+			counter		: false,
+			question	: { format: 'H', length: 40 },
+			session		: 128,
+			timestep	: 7200,
+		} )
+	} )
+
+
+	it( 'throws a new Exception when the suite is malformed', () => {
+		const suites = [
+			'',
+			'OCRA-2:HOTP-SHA1-6:QN08',
+			'OCRA-1:HOTP-SHA1-6',
+			'OCRA-1:HOTP-MD5-6:QN08',
+			'OCRA-1:HOTP-SHA1-3:QN08',
+			'OCRA-1:HOTP-SHA1-11:QN08',
+			'OCRA-1:HOTP-SHA1-6:C',
+			'OCRA-1:HOTP-SHA1-6:QX08',
+			'OCRA-1:HOTP-SHA1-6:QN65',
+			'OCRA-1:HOTP-SHA1-6:QN08-PMD5',
+			'OCRA-1:HOTP-SHA1-6:QN08-S64',
+			'OCRA-1:HOTP-SHA1-6:QN08-T60S',
+			'OCRA-1:HOTP-SHA1-6:QN08-T1M-C',
+		]
+
+		suites.forEach( suite => {
+			expect( () => Ocra.ParseSuite( suite ) )
+				.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_SUITE } ) )
+		} )
+	} )
+
+} )
+
+
+describe( 'Ocra.DataInput()', () => {
+
+	it( 'builds the DataInput', () => {
+		const dataInput = Ocra.DataInput( {
+			suite: 'OCRA-1:HOTP-SHA1-6:C-QH08-PSHA1-S004-T1M', question: 'ab', counter: 1,
+			passwordHash: PIN_HASH, session: 'ff', timestamp: 2,
+		} )
+
+		expect( dataInput ).toBe(
+			Buffer.from( 'OCRA-1:HOTP-SHA1-6:C-QH08-PSHA1-S004-T1M' ).toString( 'hex' ) + '00' +
+			'0000000000000001' +
+			'ab'.padEnd( 256, '0' ) +
+			PIN_HASH +
+			'000000ff' +
+			'0000000000000002'
+		)
+	} )
+
+
+	it( 'hashes the given password', () => {
+		const options: OTP.OCRA.DataInputOptions = { suite: 'OCRA-1:HOTP-SHA1-6:QN08-PSHA1', question: '1' }
+
+		expect( Ocra.DataInput( { ...options, password: PIN } ) )
+			.toBe( Ocra.DataInput( { ...options, passwordHash: PIN_HASH } ) )
+	} )
+
+
+	it( 'throws a new Exception when required inputs are missing', () => {
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:C-QN08', question: '1' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QN08-PSHA1', question: '1' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QN08-S064', question: '1' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QN08', question: '' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+	} )
+
+
+	it( 'throws a new Exception when the question doesn\'t match the suite format', () => {
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QN08', question: '12AB' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QH08', question: 'XYZ' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QN08', question: '-1234' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QA08', question: 'SIG1\u00e9000' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+	} )
+
+
+	it( 'throws a new Exception when the question exceeds the suite question length', () => {
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QN08', question: '123456789' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QH08', question: 'ABCDEF012' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QA64', question: 'A'.repeat( 65 ) } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QA08', question: 'CLI22220SRV11110' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+	} )
+
+
+	it( 'accepts questions up to twice the suite question length in mutual challenge-response', () => {
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QA08', question: 'CLI22220SRV11110', mutual: true } ) )
+			.not.toThrow()
+		expect( () => Ocra.DataInput( { suite: 'OCRA-1:HOTP-SHA1-6:QA08', question: 'CLI22220SRV111100', mutual: true } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_QUESTION } ) )
+	} )
+
+} )
+
+
+describe( 'Ocra.GetDelta()', () => {
+
+	const secret: OTP.Secret = { key: SEED32 }
+
+
+	it( 'handles counter window', () => {
+		const suite = 'OCRA-1:HOTP-SHA256-8:C-QN08-PSHA1'
+		const token = Ocra.GetToken( { suite, secret, question: '12345678', counter: 7, password: PIN } )
+
+		expect( Ocra.GetDelta( { suite, secret, question: '12345678', counter: 5, password: PIN, token, window: 2 } ) )
+			.toBe( 2 )
+		expect( Ocra.GetDelta( { suite, secret, question: '12345678', counter: 8, password: PIN, token, window: 2 } ) )
+			.toBe( null )
+	} )
+
+
+	it( 'handles timestamp two-sided window', () => {
+		const suite = 'OCRA-1:HOTP-SHA256-8:QN08-T1M'
+		const token = Ocra.GetToken( { suite, secret, question: '12345678', time: TIME } )
+
+		expect( Ocra.GetDelta( { suite, secret, question: '12345678', time: TIME + 60, token, window: 1 } ) )
+			.toBe( -1 )
+		expect( Ocra.GetDelta( { suite, secret, question: '12345678', time: TIME - 60, token, window: 1 } ) )
+			.toBe( 1 )
+		expect( Ocra.GetDelta( { suite, secret, question: '12345678', time: TIME + 120, token, window: 1 } ) )
+			.toBe( null )
+	} )
+
+
+	it( 'reads the timestamp time from the given clock', () => {
+		const suite = 'OCRA-1:HOTP-SHA256-8:QN08-T1M'
+		const clock	= new FakeClock( TIME + 30 )
+
+		expect( Ocra.GetToken( { suite, secret, question: '12345678', clock } ) )
+			.toBe( Ocra.GetToken( { suite, secret, question: '12345678', time: TIME } ) )
+		expect( Ocra.Timestamp( 60, { clock } ) ).toBe( 0x132d0b6 )
+	} )
+
+
+	it( 'throws a new Exception when no token is provided', () => {
+		expect( () => Ocra.GetDelta( {
+			suite: 'OCRA-1:HOTP-SHA1-6:QN08', secret, question: '1',
+			// @ts-expect-error negative testing
+			token: undefined,
+		} ) ).toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+	} )
+
+} )
+
+
+describe( 'Ocra.Verify()', () => {
+
+	const secret: OTP.Secret = { key: SEED32 }
+	const suite = 'OCRA-1:HOTP-SHA256-8:QA08'
+
+
+	it( 'verifies a response correctly', () => {
+		expect( Ocra.Verify( { suite, secret, question: 'SIG10000', token: '53095496' } ) ).toBe( true )
+		expect( Ocra.Verify( { suite, secret, question: 'SIG11000', token: '53095496' } ) ).toBe( false )
+		expect( Ocra.Verify( { suite, secret, question: 'SIG10000', token: '5309549' } ) ).toBe( false )
+	} )
+
+
+	it( 'supports no truncation', () => {
+		const suite		= 'OCRA-1:HOTP-SHA256-0:QA08'
+		const token		= Ocra.GetToken( { suite, secret, question: 'SIG10000' } )
+
+		expect( token ).toMatch( /^[0-9A-F]{64}$/ )
+		expect( Ocra.Verify( { suite, secret, question: 'SIG10000', token } ) ).toBe( true )
+	} )
+
+} )
\ No newline at end of file
@@ -1,4 +1,9 @@
+import crypto from 'crypto'
+
 import { Otp } from '@/Otp'
+import { Hotp } from '@/Hotp'
+import { Totp } from '@/Totp'
+import { ErrorCode } from '@/error'
 
 const hexSecret		= 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7'
 const base64Secret	= Buffer.from( hexSecret, 'hex' ).toString( 'base64url' )
@@ -35,6 +40,58 @@ describe( 'Otp.Seed()', () => {
 } )
 
 
+describe( 'Otp.GenerateSecret()', () => {
+
+	it( 'generates a secret sized for the hash algorithm', () => {
+		expect( Otp.GenerateSecret() ).toEqual( {
+			key: expect.stringMatching( /^[0-9A-F]{40}$/ ), encoding: 'hex', algorithm: 'SHA-1',
+		} )
+		expect( Otp.GenerateSecret( { algorithm: 'SHA-256' } ).key ).toMatch( /^[0-9A-F]{64}$/ )
+		expect( Otp.GenerateSecret( { algorithm: 'SHA-384' } ).key ).toMatch( /^[0-9A-F]{96}$/ )
+		expect( Otp.GenerateSecret( { algorithm: 'SHA-512' } ).key ).toMatch( /^[0-9A-F]{128}$/ )
+	} )
+
+
+	it( 'supports encodings and custom lengths', () => {
+		const base32 = Otp.GenerateSecret( { algorithm: 'SHA-512', encoding: 'base32' } )
+
+		expect( base32.key ).toMatch( /^[A-Z2-7]{103}=$/ )
+		expect( Buffer.from( Otp.GetSecrets( { secret: base32 } ).hex, 'hex' ) ).toHaveLength( 64 )
+		expect( Otp.GenerateSecret( { encoding: 'base64url', length: 30 } ).key ).toMatch( /^[\w-]{40}$/ )
+		expect( Otp.GenerateSecret( { encoding: 'ascii', length: 16 } ).key ).toMatch( /^[0-9A-Za-z]{16}$/ )
+	} )
+
+
+	it( 'sizes ASCII secrets to match the hash algorithm entropy', () => {
+		expect( Otp.ASCIILength( 20 ) ).toBe( 27 )
+		expect( Otp.ASCIILength( 20, true ) ).toBe( 26 )
+		expect( Otp.ASCIILength( 64 ) ).toBe( 86 )
+		expect( Otp.GenerateSecret( { encoding: 'ascii' } ).key ).toMatch( /^[0-9A-Za-z]{27}$/ )
+		expect( Otp.GenerateSecret( { algorithm: 'SHA-256', encoding: 'ascii' } ).key ).toHaveLength( 43 )
+	} )
+
+
+	it( 'returns a secret ready to be used', () => {
+		const secret = Otp.GenerateSecret( { algorithm: 'SHA-256', encoding: 'base32' } )
+		const token = Totp.GetToken( { secret } )
+
+		expect( Totp.GetDelta( { secret, token } ) ).toBe( 0 )
+	} )
+
+
+	it( 'throws a new Exception when options are not valid', () => {
+		expect( () => Otp.GenerateSecret( { length: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => Otp.GenerateSecret( { length: 1.5 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		// @ts-expect-error negative testing
+		expect( () => Otp.GenerateSecret( { algorithm: 'MD5' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_ALGORITHM } ) )
+	} )
+
+} )
+
+
 describe( 'Otp.GenerateSecretASCII()', () => {
 	
 	it( 'produces always a unique result', () => {
@@ -54,6 +111,23 @@ describe( 'Otp.GenerateSecretASCII()', () => {
 		
 	} )
 
+
+	it( 'uses the A-Z, a-z and 0-9 alphabet', () => {
+		expect( Otp.GenerateSecretASCII( 500 ) ).toMatch( /^[0-9A-Za-z]{500}$/ )
+	} )
+
+
+	it( 'rejects bytes that would bias the output', () => {
+		const randomBytes = jest.spyOn( crypto, 'randomBytes' )
+			.mockReturnValueOnce( Buffer.from( [ 248, 255, 0, 61, 62 ] ) as never )
+			.mockReturnValueOnce( Buffer.from( [ 125, 200 ] ) as never )
+
+		expect( Otp.GenerateSecretASCII( 5 ) ).toBe( '0z01E' )
+		expect( randomBytes ).toHaveBeenNthCalledWith( 2, 2 )
+
+		randomBytes.mockRestore()
+	} )
+
 } )
 
 
@@ -139,6 +213,48 @@ describe( 'Otp.DigestToToken()', () => {
 	} )
 
 
+	it( 'generates a Steam Guard token', () => {
+		const token = (
+			Otp.DigestToToken( zeroCounterDigest, undefined, 'steam' )
+		)
+		expect( token ).toMatch( /^[23456789BCDFGHJKMNPQRTVWXY]{5}$/ )
+	} )
+
+
+	it( 'generates a token with an arbitrary digits count', () => {
+		expect( Otp.DigestToToken( zeroCounterDigest, 4 ) ).toBe( '2208' )
+		expect( Otp.DigestToToken( zeroCounterDigest, 10 ) ).toBe( '0564022208' )
+	} )
+
+
+	it( 'generates a token with a custom alphabet', () => {
+		expect( Otp.DigestToToken( zeroCounterDigest, 8, undefined, '0123456789ABCDEF' ) )
+			.toBe( '219E4BC0' )
+		expect( Otp.DigestToToken( zeroCounterDigest, 6, undefined, '0123456789ABCDEF' ) )
+			.toBe( '9E4BC0' )
+	} )
+
+
+	it( 'throws a new Exception when digits exceed the supported range', () => {
+		expect( () => Otp.DigestToToken( zeroCounterDigest, 0 ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_DIGITS } ) )
+		expect( () => Otp.DigestToToken( zeroCounterDigest, 11 ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_DIGITS } ) )
+		expect( () => Otp.DigestToToken( zeroCounterDigest, 6.5 ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_DIGITS } ) )
+		expect( () => Otp.DigestToToken( zeroCounterDigest, 9, undefined, '0123456789ABCDEF' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_DIGITS } ) )
+	} )
+
+
+	it( 'throws a new Exception when the alphabet is not valid', () => {
+		expect( () => Otp.DigestToToken( zeroCounterDigest, 6, undefined, 'A' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_ALPHABET } ) )
+		expect( () => Otp.DigestToToken( zeroCounterDigest, 6, undefined, 'ABCA' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_ALPHABET } ) )
+	} )
+
+
 	it( 'handles empty input buffers', () => {
 
 		expect( Otp.DigestToToken( Buffer.from( '' ) ) )
@@ -186,4 +302,186 @@ describe( 'Otp.GetSecrets()', () => {
 		expect( secrets.base32 ).toBe( '3QHD3HSGDPADIH3MIUNYJCZRFXUVG7VX' )
 	} )
 
+} )
+
+describe( 'Otp.ParseAuthURL()', () => {
+
+	const base32Key = '3QHD3HSGDPADIH3MIUNYJCZRFXUVG7VX'
+
+	const expectException = ( url: string, code: ErrorCode ) => {
+		expect( () => Otp.ParseAuthURL( url ) )
+			.toThrow( expect.objectContaining( { code } ) )
+	}
+
+
+	it( 'parses a HOTP Auth URL', () => {
+		const url = Hotp.AuthURL( {
+			label	: 'example@email.com',
+			issuer	: 'Issuer',
+			digits	: 8,
+			counter	: 10,
+			secret	: { key: hexSecret, algorithm: 'SHA-256' },
+		} )
+
+		expect( Otp.ParseAuthURL( url ) ).toEqual( {
+			type	: 'hotp',
+			label	: 'example@email.com',
+			account	: 'example@email.com',
+			issuer	: 'Issuer',
+			digits	: 8,
+			counter	: 10,
+			secret	: { key: base32Key, encoding: 'base32', algorithm: 'SHA-256' },
+		} )
+	} )
+
+
+	it( 'parses a TOTP Auth URL', () => {
+		const url = Totp.AuthURL( {
+			label	: 'Issuer:example@email.com',
+			period	: 60,
+			secret	: { key: hexSecret },
+		} )
+
+		expect( Otp.ParseAuthURL( new URL( url ) ) ).toEqual( {
+			type	: 'totp',
+			label	: 'Issuer:example@email.com',
+			account	: 'example@email.com',
+			issuer	: 'Issuer',
+			digits	: 6,
+			period	: 60,
+			secret	: { key: base32Key, encoding: 'base32', algorithm: 'SHA-1' },
+		} )
+	} )
+
+
+	it( 'produces options that can be used to rebuild the same Auth URL', () => {
+		const url = Totp.AuthURL( {
+			label	: 'Big Corporation: alice@bigco.com',
+			issuer	: 'Big Corporation',
+			secret	: { key: hexSecret },
+		} )
+
+		const { type, account, ...options } = Otp.ParseAuthURL( url )
+
+		expect( type ).toBe( 'totp' )
+		expect( account ).toBe( 'alice@bigco.com' )
+		expect( Totp.AuthURL( options ) ).toBe( url )
+	} )
+
+
+	it( 'applies default values when optional parameters are missing', () => {
+		const parsed = Otp.ParseAuthURL( `otpauth://totp/Example:alice@google.com?secret=${ base32Key }` )
+
+		expect( parsed.issuer ).toBe( 'Example' )
+		expect( parsed.digits ).toBe( 6 )
+		expect( parsed.secret.algorithm ).toBe( 'SHA-1' )
+		expect( parsed ).not.toHaveProperty( 'period' )
+	} )
+
+
+	it( 'parses arbitrary periods', () => {
+		expect( Otp.ParseAuthURL( `otpauth://totp/alice?secret=${ base32Key }&period=10` ) )
+			.toHaveProperty( 'period', 10 )
+		expect( Otp.ParseAuthURL( `otpauth://totp/alice?secret=${ base32Key }&period=600` ) )
+			.toHaveProperty( 'period', 600 )
+	} )
+
+
+	it( 'parses the `encoder` parameter', () => {
+		const parsed = Otp.ParseAuthURL( `otpauth://totp/Steam:username?secret=${ base32Key }&issuer=Steam&digits=5&encoder=steam` )
+
+		expect( parsed.encoder ).toBe( 'steam' )
+		expect( parsed.digits ).toBe( 6 )
+
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&encoder=other`, ErrorCode.INVALID_ENCODER )
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&encoder=steam&digits=6`, ErrorCode.INVALID_DIGITS )
+	} )
+
+
+	it( 'parses the `alphabet` parameter', () => {
+		const url		= `otpauth://totp/alice?secret=${ base32Key }&digits=8&alphabet=0123456789ABCDEF`
+		const parsed	= Otp.ParseAuthURL( url )
+
+		expect( parsed.alphabet ).toBe( '0123456789ABCDEF' )
+		expect( parsed.digits ).toBe( 8 )
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars
+		const { type, account, ...options } = parsed
+
+		expect( Otp.ParseAuthURL( Totp.AuthURL( options ) ) ).toEqual( parsed )
+
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&alphabet=AA`, ErrorCode.INVALID_ALPHABET )
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&digits=9&alphabet=0123456789ABCDEF`, ErrorCode.INVALID_DIGITS )
+	} )
+
+
+	it( 'parses vendor and custom parameters', () => {
+		const parsed = Otp.ParseAuthURL(
+			`otpauth://totp/alice?secret=${ base32Key }&image=https%3A%2F%2Fexample.com%2Ficon.png&color=1A73E8&lock=true&touch=0&foo=bar`
+		)
+
+		expect( parsed ).toEqual( expect.objectContaining( {
+			image: 'https://example.com/icon.png', color: '1A73E8', lock: true, touch: false, params: { foo: 'bar' },
+		} ) )
+		// eslint-disable-next-line @typescript-eslint/no-unused-vars
+		const { type, account, ...options } = parsed
+
+		expect( Otp.ParseAuthURL( Totp.AuthURL( options ) ) ).toEqual( parsed )
+		expect( Otp.ParseAuthURL( `otpauth://totp/alice?secret=${ base32Key }` ) ).not.toHaveProperty( 'params' )
+	} )
+
+
+	it( 'throws a new Exception when the URL is malformed', () => {
+		expectException( 'not a url', ErrorCode.INVALID_URL )
+		expectException( `https://totp/alice?secret=${ base32Key }`, ErrorCode.INVALID_PROTOCOL )
+		expectException( `otpauth://motp/alice?secret=${ base32Key }`, ErrorCode.INVALID_TYPE )
+		expectException( 'otpauth://totp/alice', ErrorCode.EMPTY_VALUE )
+		expectException( `otpauth://hotp/alice?secret=${ base32Key }`, ErrorCode.EMPTY_VALUE )
+	} )
+
+
+	it( 'throws a new Exception when the label is malformed', () => {
+		expectException( `otpauth://totp/?secret=${ base32Key }`, ErrorCode.INVALID_LABEL )
+		expectException( `otpauth://totp/A:B:C?secret=${ base32Key }`, ErrorCode.INVALID_LABEL )
+		expectException( `otpauth://totp/:alice?secret=${ base32Key }`, ErrorCode.INVALID_LABEL )
+		expectException( `otpauth://totp/%E0%A4%A?secret=${ base32Key }`, ErrorCode.INVALID_LABEL )
+	} )
+
+
+	it( 'throws a new Exception when the label prefix doesn\'t match the issuer', () => {
+		expectException( `otpauth://totp/Example:alice?secret=${ base32Key }&issuer=Other`, ErrorCode.ISSUER_MISMATCH )
+	} )
+
+
+	it( 'throws a new Exception when parameters are not supported', () => {
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&algorithm=MD5`, ErrorCode.INVALID_ALGORITHM )
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&digits=11`, ErrorCode.INVALID_DIGITS )
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&digits=0`, ErrorCode.INVALID_DIGITS )
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&digits=six`, ErrorCode.INVALID_DIGITS )
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&period=0`, ErrorCode.INVALID_PERIOD )
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&period=1.5`, ErrorCode.INVALID_PERIOD )
+		expectException( `otpauth://totp/alice?secret=${ base32Key }&period=-30`, ErrorCode.INVALID_PERIOD )
+		expectException( `otpauth://hotp/alice?secret=${ base32Key }&counter=-1`, ErrorCode.INVALID_COUNTER )
+		expectException( `otpauth://hotp/alice?secret=${ base32Key }&counter=1.5`, ErrorCode.INVALID_COUNTER )
+	} )
+
+} )
+
+describe( 'Otp.TokenLength()', () => {
+
+	it( 'returns the expected token length', () => {
+		expect( Otp.TokenLength() ).toBe( 6 )
+		expect( Otp.TokenLength( 8 ) ).toBe( 8 )
+		expect( Otp.TokenLength( 8, 'steam' ) ).toBe( 5 )
+	} )
+
+} )
+
+describe( 'Otp.MaxDigits()', () => {
+
+	it( 'returns the maximum token length for the given alphabet', () => {
+		expect( Otp.MaxDigits() ).toBe( 10 )
+		expect( Otp.MaxDigits( '0123456789ABCDEF' ) ).toBe( 8 )
+		expect( Otp.MaxDigits( '01' ) ).toBe( 31 )
+	} )
+
 } )
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { QRCode } from '@/QRCode'
+import { Otp } from '@/Otp'
+import { Totp } from '@/Totp'
+import { ErrorCode } from '@/error'
+
+/**
+ * `hello world` encoded in byte mode, version 1, `M` error correction level and mask pattern 2,
+ * generated with an independent QR Code encoder.
+ */
+const helloWorld = [
+	'111111100101101111111',
+	'100000100010001000001',
+	'101110101111001011101',
+	'101110101110101011101',
+	'101110101010101011101',
+	'100000101001001000001',
+	'111111101010101111111',
+	'000000001010000000000',
+	'101111100101001111100',
+	'011011010101111111101',
+	'101011110110111001110',
+	'101001000101110011100',
+	'000101111100111000001',
+	'000000001010100011001',
+	'111111100001001000110',
+	'100000101000010101111',
+	'101110101001001100001',
+	'101110101100111111000',
+	'101110101100100100100',
+	'100000100110110011100',
+	'111111101101101010010',
+]
+
+const toRows = ( qrcode: QRCode ) => (
+	qrcode.modules.map( row => row.map( module => module ? '1' : '0' ).join( '' ) )
+)
+
+
+describe( 'QRCode', () => {
+
+	it( 'encodes data in byte mode', () => {
+		const qrcode = new QRCode( 'hello world', { level: 'M', mask: 2 } )
+
+		expect( qrcode.version ).toBe( 1 )
+		expect( qrcode.size ).toBe( 21 )
+		expect( qrcode.mask ).toBe( 2 )
+		expect( toRows( qrcode ) ).toEqual( helloWorld )
+	} )
+
+
+	it( 'selects the smallest version fitting the data', () => {
+		expect( new QRCode( 'x'.repeat( 14 ), { level: 'M' } ).version ).toBe( 1 )
+		expect( new QRCode( 'x'.repeat( 15 ), { level: 'M' } ).version ).toBe( 2 )
+		expect( new QRCode( 'x'.repeat( 14 ), { level: 'H' } ).version ).toBe( 2 )
+		expect( new QRCode( 'x'.repeat( 2953 ), { level: 'L' } ).version ).toBe( 40 )
+		expect( new QRCode( 'x', { minVersion: 7 } ).size ).toBe( 45 )
+	} )
+
+
+	it( 'selects a mask pattern if none is given', () => {
+		const qrcode = new QRCode( 'hello world' )
+
+		expect( qrcode.mask ).toBeGreaterThanOrEqual( 0 )
+		expect( qrcode.mask ).toBeLessThanOrEqual( 7 )
+		expect( toRows( new QRCode( 'hello world', { mask: qrcode.mask } ) ) )
+			.toEqual( toRows( qrcode ) )
+	} )
+
+
+	it( 'throws a new Exception when the data doesn\'t fit', () => {
+		expect( () => new QRCode( 'x'.repeat( 2954 ), { level: 'L' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.DATA_TOO_LONG } ) )
+		expect( () => new QRCode( 'x'.repeat( 15 ), { maxVersion: 1 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.DATA_TOO_LONG } ) )
+	} )
+
+
+	it( 'throws a new Exception when options are not valid', () => {
+		// @ts-expect-error negative testing
+		expect( () => new QRCode( 'x', { level: 'X' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => new QRCode( 'x', { minVersion: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => new QRCode( 'x', { minVersion: 10, maxVersion: 5 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => new QRCode( 'x', { mask: 8 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+	} )
+
+} )
+
+
+describe( 'QRCode.toSVG()', () => {
+
+	const qrcode = new QRCode( 'hello world', { mask: 2 } )
+
+	it( 'renders the QR Code as SVG', () => {
+		const svg	= qrcode.toSVG()
+		const dark	= helloWorld.join( '' ).replace( /0/g, '' ).length
+
+		expect( svg ).toMatch( /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" viewBox="0 0 29 29"/ )
+		expect( svg.match( /h1v1h-1z/g ) ).toHaveLength( dark )
+		expect( svg ).toContain( 'M4,4h1v1h-1z' )
+	} )
+
+
+	it( 'supports rendering options', () => {
+		const svg = qrcode.toSVG( { margin: 0, dark: 'red', light: 'transparent', size: 210 } )
+
+		expect( svg ).toContain( 'viewBox="0 0 21 21" width="210" height="210"' )
+		expect( svg ).toContain( 'M0,0h1v1h-1z' )
+		expect( svg ).toContain( 'fill="red"' )
+		expect( svg ).toContain( 'fill="transparent"' )
+		expect( qrcode.toSVG( { dark: '"/><script/>' } ) ).not.toContain( '<script' )
+	} )
+
+} )
+
+
+describe( 'QRCode.toDataURL()', () => {
+
+	const qrcode = new QRCode( 'hello world', { mask: 2 } )
+
+	it( 'renders the QR Code as PNG data URL', () => {
+		const url = qrcode.toDataURL( { scale: 2 } )
+
+		expect( url ).toMatch( /^data:image\/png;base64,/ )
+
+		const png = Buffer.from( url.split( ',' )[ 1 ]!, 'base64' )
+
+		expect( png.subarray( 0, 8 ) ).toEqual( Buffer.from( [ 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a ] ) )
+		expect( png.subarray( 12, 16 ).toString( 'ascii' ) ).toBe( 'IHDR' )
+		expect( png.readUInt32BE( 16 ) ).toBe( 58 )
+		expect( png.readUInt32BE( 20 ) ).toBe( 58 )
+		expect( png.subarray( 41, 47 ) ).toEqual( Buffer.from( 'ffffff000000', 'hex' ) )
+	} )
+
+
+	it( 'supports hex colors', () => {
+		const png = Buffer.from( qrcode.toDataURL( { dark: '#123', light: '#FAFAFA' } ).split( ',' )[ 1 ]!, 'base64' )
+
+		expect( png.subarray( 41, 47 ) ).toEqual( Buffer.from( 'fafafa112233', 'hex' ) )
+	} )
+
+
+	it( 'throws a new Exception when options are not valid', () => {
+		expect( () => qrcode.toDataURL( { dark: 'red' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => qrcode.toDataURL( { scale: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+	} )
+
+} )
+
+
+describe( 'QRCode.toTerminal()', () => {
+
+	const qrcode = new QRCode( 'hello world', { mask: 2 } )
+
+	it( 'renders the QR Code with Unicode half blocks', () => {
+		const lines = qrcode.toTerminal( { margin: 0 } ).split( '\n' )
+
+		expect( lines ).toHaveLength( 11 )
+		expect( lines.every( line => line.length === 21 ) ).toBe( true )
+		expect( lines[ 0 ] ).toBe( '█▀▀▀▀▀█  ▀▄▀▀ █▀▀▀▀▀█' )
+		expect( lines[ 10 ] ).toBe( '▀▀▀▀▀▀▀ ▀▀ ▀▀ ▀ ▀  ▀ ' )
+	} )
+
+
+	it( 'supports margin and inverted rendering', () => {
+		const lines = qrcode.toTerminal( { invert: true } ).split( '\n' )
+
+		expect( lines ).toHaveLength( 15 )
+		expect( lines[ 0 ] ).toBe( '█'.repeat( 29 ) )
+		expect( lines[ 2 ] ).toMatch( /^████ ▄▄▄▄▄ / )
+	} )
+
+} )
+
+
+describe( 'Otp.AuthQRCode()', () => {
+
+	it( 'encodes the otpauth URL', () => {
+		const options = {
+			label	: 'Example:alice@google.com',
+			issuer	: 'Example',
+			secret	: { key: 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7' },
+		}
+
+		const qrcode = Otp.AuthQRCode( { ...options, type: 'totp' }, { level: 'Q', mask: 3 } )
+
+		expect( qrcode.level ).toBe( 'Q' )
+		expect( toRows( qrcode ) ).toEqual(
+			toRows( new QRCode( Totp.AuthURL( options ), { level: 'Q', mask: 3 } ) )
+		)
+	} )
+
+} )
\ No newline at end of file
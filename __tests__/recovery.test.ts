@@ -0,0 +1,93 @@
+import { RecoveryCodes } from '@/RecoveryCodes'
+import { ErrorCode } from '@/error'
+
+
+describe( 'RecoveryCodes.Generate()', () => {
+
+	it( 'generates grouped recovery codes with their hashes', async () => {
+		const { codes, hashes } = await RecoveryCodes.Generate( { count: 3 } )
+
+		expect( codes ).toHaveLength( 3 )
+		expect( hashes ).toHaveLength( 3 )
+		expect( new Set( codes ).size ).toBe( 3 )
+		codes.forEach( code => expect( code ).toMatch( /^[2-9A-HJ-NP-Z]{5}-[2-9A-HJ-NP-Z]{5}$/ ) )
+		hashes.forEach( hash => expect( hash ).toMatch( /^scrypt\$16384\$8\$1\$[\w-]{22}\$[\w-]{43}$/ ) )
+	} )
+
+
+	it( 'supports a custom format', async () => {
+		const { codes } = await RecoveryCodes.Generate( {
+			count: 1, alphabet: '0123456789', length: 12, groupSize: 4, separator: ' ',
+		} )
+
+		expect( codes[ 0 ] ).toMatch( /^\d{4} \d{4} \d{4}$/ )
+		expect( ( await RecoveryCodes.Generate( { count: 1, groupSize: 0 } ) ).codes[ 0 ] ).toMatch( /^[2-9A-HJ-NP-Z]{10}$/ )
+		expect( ( await RecoveryCodes.Generate( { count: 1, length: 7, groupSize: 3 } ) ).codes[ 0 ] ).toMatch( /^\w{3}-\w{3}-\w$/ )
+	} )
+
+
+	it( 'throws a new Exception when options are not valid', async () => {
+		await expect( RecoveryCodes.Generate( { count: 0 } ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		await expect( RecoveryCodes.Generate( { length: 1.5 } ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		await expect( RecoveryCodes.Generate( { groupSize: -1 } ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		await expect( RecoveryCodes.Generate( { separator: 'A' } ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		await expect( RecoveryCodes.Generate( { alphabet: 'AAB' } ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.INVALID_ALPHABET } ) )
+	} )
+
+} )
+
+
+describe( 'RecoveryCodes.Verify()', () => {
+
+	let codes: string[]
+	let hashes: string[]
+
+	beforeAll( async () => {
+		( { codes, hashes } = await RecoveryCodes.Generate( { count: 2 } ) )
+	} )
+
+	it( 'verifies a recovery code and consumes it', async () => {
+		const result = await RecoveryCodes.Verify( codes[ 1 ]!, hashes )
+
+		expect( result ).toEqual( { valid: true, index: 1, hashes: [ hashes[ 0 ] ] } )
+		await expect( RecoveryCodes.Verify( codes[ 1 ]!, result.hashes ) ).resolves
+			.toEqual( { valid: false, index: -1, hashes: result.hashes } )
+	} )
+
+
+	it( 'normalizes the submitted code', async () => {
+		const code = codes[ 0 ]!.replace( '-', '' ).toLowerCase()
+
+		expect( ( await RecoveryCodes.Verify( ` ${ code.slice( 0, 3 ) } ${ code.slice( 3 ) } `, hashes ) ).index ).toBe( 0 )
+	} )
+
+
+	it( 'rejects unknown recovery codes', async () => {
+		await expect( RecoveryCodes.Verify( 'AAAAA-AAAAA', hashes ) ).resolves
+			.toEqual( { valid: false, index: -1, hashes } )
+		expect( ( await RecoveryCodes.Verify( 'AAAAA', hashes ) ).valid ).toBe( false )
+	} )
+
+
+	it( 'verifies codes hashed with RecoveryCodes.Hash()', async () => {
+		const hash = await RecoveryCodes.Hash( '1234-5678', { alphabet: '0123456789', separator: '-' } )
+
+		expect( ( await RecoveryCodes.Verify( '12345678', [ hash ], { alphabet: '0123456789', length: 8 } ) ).valid ).toBe( true )
+	} )
+
+
+	it( 'throws a new Exception when the code is empty or a hash is malformed', async () => {
+		await expect( RecoveryCodes.Verify( ' - ', hashes ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+		await expect( RecoveryCodes.Verify( codes[ 0 ]!, [ 'bcrypt$1$2$3$salt$hash' ] ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		await expect( RecoveryCodes.Verify( codes[ 0 ]!, [ 'scrypt$x$8$1$salt$hash' ] ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+	} )
+
+} )
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Totp } from '@/Totp'
+import { MemoryReplayStore } from '@/ReplayStore'
+import { FakeClock } from '@/Clock'
+import type { OTP } from '@/types'
+
+const hexSecret = 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7'
+
+
+describe( 'MemoryReplayStore', () => {
+
+	afterEach( () => {
+		jest.useRealTimers()
+	} )
+
+
+	it( 'records the last accepted counter', () => {
+		const store = new MemoryReplayStore()
+
+		expect( store.get( 'user' ) ).toBeUndefined()
+
+		expect( store.setIfGreater( 'user', 10 ) ).toBe( true )
+		expect( store.get( 'user' ) ).toBe( 10 )
+		expect( store.get( 'other' ) ).toBeUndefined()
+
+		store.delete( 'user' )
+		expect( store.get( 'user' ) ).toBeUndefined()
+	} )
+
+
+	it( 'only records counters greater than the last recorded one', () => {
+		const store = new MemoryReplayStore()
+
+		expect( store.setIfGreater( 'user', 10 ) ).toBe( true )
+		expect( store.setIfGreater( 'user', 10 ) ).toBe( false )
+		expect( store.setIfGreater( 'user', 9 ) ).toBe( false )
+		expect( store.get( 'user' ) ).toBe( 10 )
+		expect( store.setIfGreater( 'user', 11 ) ).toBe( true )
+		expect( store.get( 'user' ) ).toBe( 11 )
+	} )
+
+
+	it( 'evicts expired entries', () => {
+		jest.useFakeTimers( { now: 0 } )
+
+		const store = new MemoryReplayStore( { ttl: 60 } )
+		store.setIfGreater( 'user', 10 )
+
+		jest.setSystemTime( 59 * 1000 )
+		expect( store.get( 'user' ) ).toBe( 10 )
+
+		jest.setSystemTime( 60 * 1000 )
+		expect( store.get( 'user' ) ).toBeUndefined()
+	} )
+
+
+	it( 'evicts expired entries with the given clock', () => {
+		const clock = new FakeClock( 0 )
+		const store = new MemoryReplayStore( { ttl: 60, clock } )
+		store.setIfGreater( 'user', 10 )
+
+		clock.set( 59 )
+		expect( store.get( 'user' ) ).toBe( 10 )
+
+		clock.set( 60 )
+		expect( store.get( 'user' ) ).toBeUndefined()
+	} )
+
+} )
+
+
+describe( 'Totp replay protection', () => {
+
+	const options: OTP.TOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	const time = new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+
+
+	it( 'rejects a token that has already been used', () => {
+		const replay	= { store: new MemoryReplayStore(), id: 'user' }
+		const token		= Totp.GetToken( { ...options, time } )
+
+		expect( Totp.Verify( { ...options, token, time, replay } ) ).toBe( true )
+
+		expect( Totp.Verify( { ...options, token, time: time + 10, replay } ) ).toBe( false )
+	} )
+
+
+	it( 'rejects tokens at or below the last accepted time-step counter', () => {
+		const replay	= { store: new MemoryReplayStore(), id: 'user' }
+		const token		= Totp.GetToken( { ...options, time } )
+		const previous	= Totp.GetToken( { ...options, time: time - 30 } )
+
+		expect( Totp.GetDelta( { ...options, token, time, window: 1, replay } ) ).toBe( 0 )
+		expect( replay.store.get( 'user' ) ).toBe( Totp.Counter( { time } ) )
+
+		expect( Totp.GetDelta( { ...options, token: previous, time, window: 1, replay } ) ).toBeNull()
+		expect( Totp.Check( { ...options, token: previous, time, window: 1, replay } ) )
+			.toEqual( { valid: false, reason: 'replayed' } )
+	} )
+
+
+	it( 'accepts the next token', () => {
+		const replay = { store: new MemoryReplayStore(), id: 'user' }
+
+		expect( Totp.Verify( { ...options, token: Totp.GetToken( { ...options, time } ), time, replay } ) )
+			.toBe( true )
+
+		expect( Totp.Verify( { ...options, token: Totp.GetToken( { ...options, time: time + 30 } ), time: time + 30, replay } ) )
+			.toBe( true )
+	} )
+
+
+	it( 'tracks credentials separately', () => {
+		const store = new MemoryReplayStore()
+		const token = Totp.GetToken( { ...options, time } )
+
+		expect( Totp.Verify( { ...options, token, time, replay: { store, id: 'user-1' } } ) ).toBe( true )
+		expect( Totp.Verify( { ...options, token, time, replay: { store, id: 'user-2' } } ) ).toBe( true )
+	} )
+
+
+	it( 'doesn\'t record invalid tokens', () => {
+		const replay = { store: new MemoryReplayStore(), id: 'user' }
+
+		expect( Totp.Verify( { ...options, token: '000000', time, replay } ) ).toBe( false )
+		expect( replay.store.get( 'user' ) ).toBeUndefined()
+	} )
+
+} )
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { SealedSecret } from '@/SealedSecret'
+import { Hotp } from '@/Hotp'
+import { Totp } from '@/Totp'
+import { Throttle } from '@/Throttle'
+import { ErrorCode } from '@/error'
+import type { OTP } from '@/types'
+
+const secret: OTP.Secret = { key: '3132333435363738393031323334353637383930' }
+
+const keyring: OTP.SEALED.Keyring = {
+	current	: '2024',
+	keys	: {
+		'2023'	: Buffer.alloc( 32, 1 ),
+		'2024'	: Buffer.alloc( 32, 2 ),
+	},
+}
+
+
+describe( 'SealedSecret.Seal()', () => {
+
+	it( 'seals a secret with the current master key', () => {
+		const sealed = SealedSecret.Seal( secret, keyring )
+
+		expect( sealed ).toMatch( /^v1\.2024\.[\w-]{16}\.[\w-]+$/ )
+		expect( sealed ).not.toContain( secret.key )
+		expect( SealedSecret.Seal( secret, keyring ) ).not.toBe( sealed )
+	} )
+
+
+	it( 'seals a secret with the given master key', () => {
+		expect( SealedSecret.KeyId( SealedSecret.Seal( secret, keyring, '2023' ) ) ).toBe( '2023' )
+	} )
+
+
+	it( 'throws a new Exception when the master key is not valid', () => {
+		expect( () => SealedSecret.Seal( secret, keyring, '2025' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.NOT_FOUND } ) )
+		expect( () => SealedSecret.Seal( secret, keyring, '__proto__' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.NOT_FOUND } ) )
+		expect( () => SealedSecret.Seal( secret, keyring, 'v1.2024' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => SealedSecret.Seal( secret, { current: 'short', keys: { short: Buffer.alloc( 16 ) } } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => SealedSecret.Seal( { key: '' }, keyring ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+	} )
+
+} )
+
+
+describe( 'SealedSecret.Open()', () => {
+
+	it( 'opens a sealed secret with its metadata', () => {
+		expect( SealedSecret.Open( SealedSecret.Seal( secret, keyring ), keyring ) )
+			.toEqual( { key: secret.key, encoding: 'hex', algorithm: 'SHA-1' } )
+
+		const base32: OTP.Secret = { key: 'GEZDGNBVGY3TQOJQ', encoding: 'base32', algorithm: 'SHA-256' }
+
+		expect( SealedSecret.Open( SealedSecret.Seal( base32, keyring ), keyring ) ).toEqual( base32 )
+	} )
+
+
+	it( 'throws a new Exception when the sealed secret has been tampered with', () => {
+		const sealed = SealedSecret.Seal( secret, keyring )
+		const [ version, keyId, iv, ciphertext ] = sealed.split( '.' ) as [ string, string, string, string ]
+		const flipped = Buffer.from( ciphertext, 'base64url' )
+
+		flipped[ 0 ]! ^= 1
+
+		const expectException = ( sealed: string, code: ErrorCode ) => {
+			expect( () => SealedSecret.Open( sealed, keyring ) )
+				.toThrow( expect.objectContaining( { code } ) )
+		}
+
+		expectException( [ version, keyId, iv, flipped.toString( 'base64url' ) ].join( '.' ), ErrorCode.INVALID_SEALED_SECRET )
+		expectException( [ version, '2023', iv, ciphertext ].join( '.' ), ErrorCode.INVALID_SEALED_SECRET )
+		expectException( [ 'v2', keyId, iv, ciphertext ].join( '.' ), ErrorCode.INVALID_SEALED_SECRET )
+		expectException( [ version, keyId, iv ].join( '.' ), ErrorCode.INVALID_SEALED_SECRET )
+		expectException( [ version, keyId, 'AAAA', ciphertext ].join( '.' ), ErrorCode.INVALID_SEALED_SECRET )
+		expectException( '', ErrorCode.INVALID_SEALED_SECRET )
+		expectException( [ version, 'unknown', iv, ciphertext ].join( '.' ), ErrorCode.NOT_FOUND )
+	} )
+
+
+	it( 'throws a new Exception when the master key is wrong', () => {
+		const sealed = SealedSecret.Seal( secret, keyring )
+
+		expect( () => SealedSecret.Open( sealed, { current: '2024', keys: { '2024': Buffer.alloc( 32, 3 ) } } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_SEALED_SECRET } ) )
+	} )
+
+} )
+
+
+describe( 'SealedSecret.Rotate()', () => {
+
+	it( 're-encrypts a sealed secret with the current master key', () => {
+		const sealed	= SealedSecret.Seal( secret, keyring, '2023' )
+		const rotated	= SealedSecret.Rotate( sealed, keyring )
+
+		expect( SealedSecret.KeyId( rotated ) ).toBe( '2024' )
+		expect( SealedSecret.Open( rotated, { current: '2024', keys: { '2024': keyring.keys[ '2024' ]! } } ) )
+			.toEqual( SealedSecret.Open( sealed, keyring ) )
+	} )
+
+
+	it( 'returns the given sealed secret if already sealed with the master key', () => {
+		const sealed = SealedSecret.Seal( secret, keyring )
+
+		expect( SealedSecret.Rotate( sealed, keyring ) ).toBe( sealed )
+	} )
+
+} )
+
+
+describe( 'Hotp and Totp with sealed secrets', () => {
+
+	const sealed: OTP.SEALED.Options = { sealed: SealedSecret.Seal( secret, keyring, '2023' ), keyring }
+
+	it( 'generates tokens', () => {
+		expect( Hotp.GetToken( { secret: sealed, counter: 1 } ) ).toBe( '287082' )
+		expect( Totp.GetToken( { secret: sealed, digits: 8, time: 59 } ) ).toBe( '94287082' )
+	} )
+
+
+	it( 'verifies tokens', () => {
+		expect( Hotp.GetDelta( { secret: sealed, token: '287082', window: 2 } ) ).toBe( 1 )
+		expect( Hotp.Resync( { secret: sealed, tokens: [ '359152', '969429' ] } ) ).toBe( 4 )
+		expect( Totp.Verify( { secret: sealed, digits: 8, time: 59, token: '94287082' } ) ).toBe( true )
+		expect( new Throttle().totp( 'alice', { secret: sealed, time: 59, token: '000000' } ) ).toBe( false )
+	} )
+
+
+	it( 'uses the sealed secret algorithm', () => {
+		const sha256 = SealedSecret.Seal( {
+			key: '3132333435363738393031323334353637383930313233343536373839303132', algorithm: 'SHA-256',
+		}, keyring )
+
+		expect( Totp.GetToken( { secret: { sealed: sha256, keyring }, digits: 8, time: 59 } ) ).toBe( '46119246' )
+	} )
+
+} )
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { Hotp } from '@/Hotp'
+import { Totp } from '@/Totp'
+import { Throttle } from '@/Throttle'
+import { MemoryThrottleStore } from '@/ThrottleStore'
+import { MemoryReplayStore } from '@/ReplayStore'
+import { FakeClock } from '@/Clock'
+import { ErrorCode } from '@/error'
+import type { OTP } from '@/types'
+
+const hexSecret = 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7'
+
+
+describe( 'Throttle', () => {
+
+	const options: OTP.HOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	const valid		= Hotp.GetToken( { ...options, counter: 10 } )
+	const invalid	= Hotp.GetToken( { ...options, counter: 9 } )
+
+	beforeEach( () => {
+		jest.useFakeTimers( { now: 0 } )
+	} )
+
+	afterEach( () => {
+		jest.useRealTimers()
+	} )
+
+
+	it( 'counts failed verifications per credential', () => {
+		const throttle = new Throttle( { delay: 0 } )
+
+		expect( throttle.hotp( 'user-1', { ...options, token: invalid, counter: 10 } ) ).toBe( false )
+		expect( throttle.hotp( 'user-1', { ...options, token: invalid, counter: 10 } ) ).toBe( false )
+
+		expect( throttle.status( 'user-1' ).failures ).toBe( 2 )
+		expect( throttle.status( 'user-2' ).failures ).toBe( 0 )
+	} )
+
+
+	it( 'resets the state on success', () => {
+		const throttle = new Throttle( { delay: 0 } )
+
+		throttle.hotp( 'user', { ...options, token: invalid, counter: 10 } )
+
+		expect( throttle.hotp( 'user', { ...options, token: valid, counter: 10 } ) ).toBe( true )
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 0, locked: false } )
+	} )
+
+
+	it( 'applies exponential back-off delays', () => {
+		const throttle = new Throttle( { delay: 1, factor: 2, maxDelay: 3 } )
+		const verify = () => throttle.hotp( 'user', { ...options, token: invalid, counter: 10 } )
+
+		verify()
+		expect( throttle.status( 'user' ).retryAfter ).toEqual( new Date( 1000 ) )
+		expect( verify ).toThrow( expect.objectContaining( { code: ErrorCode.TOO_EARLY } ) )
+
+		jest.setSystemTime( 1000 )
+		verify()
+		expect( throttle.status( 'user' ).retryAfter ).toEqual( new Date( 3000 ) )
+
+		jest.setSystemTime( 3000 )
+		verify()
+		/** capped by `maxDelay` */
+		expect( throttle.status( 'user' ).retryAfter ).toEqual( new Date( 6000 ) )
+
+		jest.setSystemTime( 6000 )
+		expect( throttle.status( 'user' ).retryAfter ).toBeUndefined()
+	} )
+
+
+	it( 'locks the credential after `maxFailures` failed verifications', () => {
+		const throttle = new Throttle( { delay: 0, maxFailures: 3 } )
+		const verify = ( token: string ) => throttle.hotp( 'user', { ...options, token, counter: 10 } )
+
+		verify( invalid )
+		verify( invalid )
+		verify( invalid )
+
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 3, locked: true } )
+		expect( () => verify( valid ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.TOO_MANY } ) )
+
+		jest.setSystemTime( 24 * 60 * 60 * 1000 )
+		expect( throttle.status( 'user' ).locked ).toBe( true )
+
+		throttle.reset( 'user' )
+		expect( verify( valid ) ).toBe( true )
+	} )
+
+
+	it( 'unlocks the credential after `lockout` seconds', () => {
+		const throttle = new Throttle( { delay: 0, maxFailures: 1, lockout: 60 } )
+
+		throttle.hotp( 'user', { ...options, token: invalid, counter: 10 } )
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 1, locked: true, retryAfter: new Date( 60 * 1000 ) } )
+
+		jest.setSystemTime( 60 * 1000 )
+		expect( throttle.hotp( 'user', { ...options, token: valid, counter: 10 } ) ).toBe( true )
+	} )
+
+
+	it( 'locks the credential again after a single failure once the lockout expires', () => {
+		const throttle	= new Throttle( { delay: 0, maxFailures: 2, lockout: 60 } )
+		const verify	= ( token: string ) => throttle.hotp( 'user', { ...options, token, counter: 10 } )
+
+		verify( invalid )
+		verify( invalid )
+
+		jest.setSystemTime( 60 * 1000 )
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 2, locked: false } )
+		expect( verify( invalid ) ).toBe( false )
+		expect( throttle.status( 'user' ).locked ).toBe( true )
+	} )
+
+
+	it( 'restarts counting failures once the lockout expires if `resetOnUnlock` is set', () => {
+		const throttle	= new Throttle( { delay: 0, maxFailures: 2, lockout: 60, resetOnUnlock: true } )
+		const verify	= ( token: string ) => throttle.hotp( 'user', { ...options, token, counter: 10 } )
+
+		verify( invalid )
+		verify( invalid )
+
+		jest.setSystemTime( 60 * 1000 )
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 0, locked: false } )
+		expect( verify( invalid ) ).toBe( false )
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 1, locked: false } )
+	} )
+
+
+	it( 'reads the time from the given clock', () => {
+		const clock		= new FakeClock( 100 )
+		const throttle	= new Throttle( { delay: 2, maxFailures: 2, lockout: 60, clock } )
+		const verify	= ( token: string ) => throttle.hotp( 'user', { ...options, token, counter: 10 } )
+
+		verify( invalid )
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 1, locked: false, retryAfter: new Date( 102 * 1000 ) } )
+
+		clock.advance( 2 )
+		verify( invalid )
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 2, locked: true, retryAfter: new Date( 162 * 1000 ) } )
+
+		clock.advance( 60 )
+		expect( verify( valid ) ).toBe( true )
+	} )
+
+
+	it( 'counts replayed TOTP tokens as failed verifications', () => {
+		const throttle	= new Throttle( { delay: 0, maxFailures: 5 } )
+		const time		= new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+		const token		= Totp.GetToken( { ...options, time } )
+		const replay	= { store: new MemoryReplayStore(), id: 'user' }
+
+		expect( throttle.totp( 'user', { ...options, token, time, replay } ) ).toBe( true )
+
+		for ( let i = 0; i < 5; i++ ) {
+			expect( throttle.totp( 'user', { ...options, token, time, replay } ) ).toBe( false )
+		}
+
+		expect( throttle.status( 'user' ) ).toEqual( { failures: 5, locked: true } )
+	} )
+
+
+	it( 'wraps TOTP verification', () => {
+		const throttle	= new Throttle( { delay: 0, store: new MemoryThrottleStore() } )
+		const time		= new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+		const token		= Totp.GetToken( { ...options, time } )
+
+		expect( throttle.totp( 'user', { ...options, token, time: time + 30 } ) ).toBe( false )
+		expect( throttle.status( 'user' ).failures ).toBe( 1 )
+		expect( throttle.totp( 'user', { ...options, token, time } ) ).toBe( true )
+		expect( throttle.status( 'user' ).failures ).toBe( 0 )
+	} )
+
+
+	it( 'reports locked credentials when checking tokens', () => {
+		const throttle	= new Throttle( { delay: 1, maxFailures: 2 } )
+		const check		= ( token: string ) => throttle.check( 'user', () => Hotp.Check( { ...options, token, counter: 10 } ) )
+
+		expect( check( invalid ) ).toEqual( { valid: false, reason: 'no-match' } )
+		expect( check( valid ) ).toEqual( { valid: false, reason: 'locked', retryAfter: new Date( 1000 ) } )
+
+		jest.setSystemTime( 1000 )
+		expect( check( invalid ) ).toEqual( { valid: false, reason: 'no-match' } )
+		expect( check( valid ) ).toEqual( { valid: false, reason: 'locked' } )
+
+		throttle.reset( 'user' )
+		expect( check( valid ) ).toEqual( { valid: true, delta: 0, matchedCounter: 10 } )
+		expect( throttle.status( 'user' ).failures ).toBe( 0 )
+	} )
+
+} )
\ No newline at end of file
@@ -1,4 +1,9 @@
+import { Otp } from '@/Otp'
 import { Totp } from '@/Totp'
+import { TotpWatcher } from '@/TotpWatcher'
+import { MemoryReplayStore } from '@/ReplayStore'
+import { MemoryDriftStore } from '@/DriftStore'
+import { ErrorCode } from '@/error'
 import type { OTP } from '@/types'
 
 const hexSecret		= 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7'
@@ -98,6 +103,21 @@ describe( 'Totp.GetToken()', () => {
 	} )
 
 
+	it( 'supports arbitrary periods', () => {
+		const time = new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+
+		expect( Totp.GetToken( { ...options, period: 10, time } ) )
+			.toBe( Totp.GetToken( { ...options, period: 10, time: time + 9 } ) )
+		expect( Totp.GetToken( { ...options, period: 10, time } ) )
+			.not.toBe( Totp.GetToken( { ...options, period: 10, time: time + 10 } ) )
+
+		expect( Totp.GetToken( { ...options, period: 600, time } ) )
+			.toBe( Totp.GetToken( { ...options, period: 600, time: time + 599 } ) )
+		expect( Totp.GetToken( { ...options, period: 600, time } ) )
+			.not.toBe( Totp.GetToken( { ...options, period: 600, time: time + 600 } ) )
+	} )
+
+
 	it( 'supports base32 secret key', () => {
 		const token = (
 			Totp.GetToken( {
@@ -146,6 +166,14 @@ describe( 'Totp.Counter()', () => {
 
 		expect( counter1 ).not.toBe( counter2 )
 	} )
+
+
+	it( 'throws a new Exception when the period is not a positive integer', () => {
+		for ( const period of [ 0, -30, 1.5, NaN, Infinity ] ) {
+			expect( () => Totp.Counter( { period } ) )
+				.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PERIOD } ) )
+		}
+	} )
 	
 } )
 
@@ -166,6 +194,16 @@ describe( 'Totp.NextTick()', () => {
 			
 	} )
 
+
+	it( 'supports arbitrary periods', () => {
+		const time = new Date( '2024-12-13T16:00:05.000Z' ).getTime() / 1000
+
+		expect( Totp.NextTick( { time, period: 10 } ).toISOString() )
+			.toBe( '2024-12-13T16:00:10.000Z' )
+		expect( Totp.NextTick( { time, period: 300 } ).toISOString() )
+			.toBe( '2024-12-13T16:05:00.000Z' )
+	} )
+
 } )
 
 
@@ -197,6 +235,67 @@ describe( 'Totp.AuthURL()', () => {
 
 	} )
 
+
+	it( 'supports arbitrary periods', () => {
+		const url = new URL( Totp.AuthURL( {
+			label	: 'example@email.com',
+			period	: 10,
+			secret	: { key: hexSecret },
+		} ) )
+
+		expect( url.searchParams.get( 'period' ) ).toBe( '10' )
+
+		expect( () => Totp.AuthURL( { label: 'example@email.com', period: 0, secret: { key: hexSecret } } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PERIOD } ) )
+	} )
+
+
+	it( 'supports vendor and custom parameters', () => {
+		const url = Totp.AuthURL( {
+			label	: 'alice', secret: { key: hexSecret }, encoder: 'steam',
+			image	: 'https://example.com/icon.png', color: '1A73E8', lock: true, touch: false, params: { foo: 'bar' },
+		} )
+
+		expect( url ).toBe(
+			`otpauth://totp/alice?secret=${ Totp.GetSecrets( { secret: { key: hexSecret } } ).base32 }&algorithm=SHA1&digits=5&encoder=steam` +
+			'&image=https%3A%2F%2Fexample.com%2Ficon.png&color=1A73E8&lock=true&touch=false&foo=bar'
+		)
+	} )
+
+
+	it( 'omits the parameters not supported by the authenticator profile', () => {
+		const options: Omit<OTP.AuthURLOptions<'totp'>, 'type'> = {
+			label	: 'alice', secret: { key: hexSecret }, period: 60, encoder: 'steam',
+			image	: 'https://example.com/icon.png', color: '1A73E8', lock: true, touch: true, params: { foo: 'bar' },
+		}
+
+		const params = ( options: Omit<OTP.AuthURLOptions<'totp'>, 'type'> ) => (
+			[ ...new URL( Totp.AuthURL( options ) ).searchParams.keys() ]
+		)
+
+		expect( params( { ...options, strict: true } ) ).toEqual( [ 'secret', 'algorithm', 'digits', 'period' ] )
+		expect( params( { ...options, profile: 'google' } ) ).toEqual( [ 'secret', 'algorithm', 'digits', 'period' ] )
+		expect( params( { ...options, profile: 'yubico', strict: true } ) ).toEqual( [ 'secret', 'algorithm', 'digits', 'period' ] )
+		expect( params( { ...options, profile: 'freeotp' } ) )
+			.toEqual( [ 'secret', 'algorithm', 'digits', 'period', 'image', 'color', 'lock', 'foo' ] )
+		expect( params( { ...options, profile: 'aegis' } ) )
+			.toEqual( [ 'secret', 'algorithm', 'digits', 'encoder', 'period', 'image', 'foo' ] )
+		expect( params( { ...options, profile: 'yubico' } ) )
+			.toEqual( [ 'secret', 'algorithm', 'digits', 'period', 'touch', 'foo' ] )
+	} )
+
+
+	it( 'throws a new Exception when vendor options are not valid', () => {
+		const options = { label: 'alice', secret: { key: hexSecret } }
+
+		expect( () => Totp.AuthURL( { ...options, color: '#1A73E8' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => Totp.AuthURL( { ...options, params: { period: 10 } } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => Totp.AuthURL( { ...options, profile: 'other' as OTP.AuthURLProfile } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+	} )
+
 } )
 
 
@@ -245,6 +344,16 @@ describe( 'Totp.GetDelta()', () => {
 	} )
 
 
+	it( 'supports arbitrary periods', () => {
+		const time	= new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+		const token	= Totp.GetToken( { ...options, period: 300, time } )
+
+		expect( Totp.GetDelta( { ...options, token, period: 300, time: time + 299 } ) ).toBe( 0 )
+		expect( Totp.GetDelta( { ...options, token, period: 300, time: time + 300, window: 1 } ) ).toBe( -1 )
+		expect( Totp.GetDelta( { ...options, token, period: 300, time: time + 600, window: 1 } ) ).toBe( null )
+	} )
+
+
 	it( 'throws a new Exception when no token is provided', () => {
 		let pass = false
 
@@ -262,6 +371,155 @@ describe( 'Totp.GetDelta()', () => {
 } )
 
 
+describe( 'Totp.Check()', () => {
+
+	const options: OTP.TOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	const time = new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+
+	it( 'returns the matched time step validity', () => {
+		expect( Totp.Check( {
+			...options,
+			token	: Totp.GetToken( { ...options, time } ),
+			time	: time + 30,
+			window	: 1,
+		} ) ).toEqual( {
+			valid			: true,
+			delta			: -1,
+			matchedCounter	: time / 30,
+			validFrom		: new Date( '2024-12-13T16:00:00.000Z' ),
+			validUntil		: new Date( '2024-12-13T16:00:30.000Z' ),
+		} )
+	} )
+
+
+	it( 'honors period and epoch', () => {
+		const result = Totp.Check( {
+			...options,
+			token	: Totp.GetToken( { ...options, period: 60, epoch: 10, time: time + 10 } ),
+			period	: 60,
+			epoch	: 10,
+			time	: time + 69,
+		} )
+
+		expect( result ).toEqual( expect.objectContaining( {
+			valid		: true,
+			validFrom	: new Date( '2024-12-13T16:00:10.000Z' ),
+			validUntil	: new Date( '2024-12-13T16:01:10.000Z' ),
+		} ) )
+	} )
+
+
+	it( 'returns the failure reason', () => {
+		expect( Totp.Check( { ...options, token: 'abcdef', time } ) )
+			.toEqual( { valid: false, reason: 'malformed' } )
+		expect( Totp.Check( { ...options, token: '12345', time } ) )
+			.toEqual( { valid: false, reason: 'length-mismatch' } )
+		expect( Totp.Check( { ...options, token: Totp.GetToken( { ...options, time } ), time: time + 60, window: 1 } ) )
+			.toEqual( { valid: false, reason: 'no-match' } )
+	} )
+
+
+	it( 'reports replayed tokens', () => {
+		const replay	= { store: new MemoryReplayStore(), id: 'alice' }
+		const token		= Totp.GetToken( { ...options, time } )
+
+		expect( Totp.Check( { ...options, token, time, replay } ).valid ).toBe( true )
+		expect( Totp.Check( { ...options, token, time, replay } ) )
+			.toEqual( { valid: false, reason: 'replayed' } )
+		expect( Totp.GetDelta( { ...options, token, time, replay } ) ).toBeNull()
+	} )
+
+} )
+
+
+describe( 'Totp prepared keys', () => {
+
+	const time = new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+
+	it( 'generates and verifies tokens with a prepared key', () => {
+		const secret: OTP.Secret	= { key: base32Secret, encoding: 'base32', algorithm: 'SHA-512' }
+		const key					= Otp.PrepareKey( secret )
+		const token					= Totp.GetToken( { secret, time } )
+
+		expect( Totp.GetToken( { secret: key, time } ) ).toBe( token )
+		expect( Totp.GetDelta( { secret: key, token, time: time + 30, window: 1 } ) ).toBe( -1 )
+	} )
+
+} )
+
+
+describe( 'Totp drift tracking', () => {
+
+	const options: OTP.TOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	const time = new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+
+	it( 'centers the window on the stored drift', () => {
+		const store	= new MemoryDriftStore()
+		const drift	= { store, id: 'user' }
+		/** The user device clock is 3 time steps ahead. */
+		const token	= ( time: number ) => Totp.GetToken( { ...options, time: time + 90 } )
+
+		expect( Totp.Check( { ...options, token: token( time ), time, window: 1, drift } ) )
+			.toEqual( { valid: false, reason: 'no-match' } )
+
+		store.set( 'user', 2 )
+
+		expect( Totp.Check( { ...options, token: token( time ), time, window: 1, drift } ) )
+			.toEqual( expect.objectContaining( { valid: true, delta: 3, drift: 2.5 } ) )
+		expect( Totp.GetDelta( { ...options, token: token( time + 30 ), time: time + 30, window: 1, drift } ) ).toBe( 3 )
+		expect( store.get( 'user' ) ).toBe( 2.75 )
+	} )
+
+
+	it( 'follows the observed drift over successive verifications', () => {
+		const store	= new MemoryDriftStore()
+		const drift	= { store, id: 'user' }
+
+		/** The user device clock drifts ahead by one time step every two verifications. */
+		const token = ( step: number ) => Totp.GetToken( { ...options, time: time + step * 3600 + Math.floor( step / 2 ) * 30 } )
+
+		for ( let step = 0; step < 12; step++ ) {
+			expect( Totp.Verify( { ...options, token: token( step ), time: time + step * 3600, window: 1, drift } ) ).toBe( true )
+		}
+
+		expect( Math.round( store.get( 'user' )! ) ).toBe( 5 )
+		expect( Totp.Verify( { ...options, token: token( 11 ), time: time + 11 * 3600, window: 1 } ) ).toBe( false )
+	} )
+
+
+	it( 'honors the smoothing factor', () => {
+		const store	= new MemoryDriftStore()
+		const token	= Totp.GetToken( { ...options, time: time - 30 } )
+
+		expect( Totp.Check( { ...options, token, time, window: 1, drift: { store, id: 'user', smoothing: 1 } } ) )
+			.toEqual( expect.objectContaining( { delta: -1, drift: -1 } ) )
+		expect( () => Totp.Check( { ...options, token, time, drift: { store, id: 'user', smoothing: 0 } } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+	} )
+
+
+	it( 'doesn\'t update the drift on failure', () => {
+		const store	= new MemoryDriftStore()
+		const replay	= { store: new MemoryReplayStore(), id: 'user' }
+		const token	= Totp.GetToken( { ...options, time: time + 30 } )
+
+		store.set( 'user', 1 )
+
+		expect( Totp.Check( { ...options, token, time, replay, drift: { store, id: 'user' } } ).valid ).toBe( true )
+		expect( Totp.Check( { ...options, token, time, replay, drift: { store, id: 'user' } } ) )
+			.toEqual( { valid: false, reason: 'replayed' } )
+		expect( store.get( 'user' ) ).toBe( 1 )
+	} )
+
+} )
+
+
 describe( 'Totp.Verify()', () => {
 
 	const options: OTP.HOTP.GetTokenOptions = {
@@ -313,4 +571,287 @@ describe( 'Totp.Verify()', () => {
 		} ) ).toBe( true )
 	} )
 
+} )
+
+describe( 'Steam Guard', () => {
+
+	/** Steam `shared_secret` is base64 encoded. */
+	const options: OTP.TOTP.GetTokenOptions = {
+		secret	: { key: 'cnOgv/KdpLoP6Nbh0GMkXkPXALQ=', encoding: 'base64url' },
+		encoder	: 'steam',
+	}
+
+	const time = 1700000000
+
+
+	it( 'generates a 5 characters Steam Guard token', () => {
+		expect( Totp.GetToken( { ...options, time } ) ).toBe( 'X45RP' )
+		expect( Totp.GetToken( { ...options, time: time + 30 } ) ).toBe( 'YWH3Q' )
+	} )
+
+
+	it( 'ignores `digits`', () => {
+		expect( Totp.GetToken( { ...options, digits: 8, time } ) ).toBe( 'X45RP' )
+	} )
+
+
+	it( 'verifies a Steam Guard token with window', () => {
+		expect( Totp.GetDelta( { ...options, token: 'YWH3Q', time, window: 1 } ) ).toBe( 1 )
+		expect( Totp.Verify( { ...options, token: 'X45RP', time } ) ).toBe( true )
+		expect( Totp.Verify( { ...options, token: 'YWH3Q', time } ) ).toBe( false )
+		expect( Totp.Verify( { ...options, token: '123456', time } ) ).toBe( false )
+	} )
+
+
+	it( 'adds the `encoder` parameter to the Auth URL', () => {
+		const url = new URL( Totp.AuthURL( { ...options, label: 'Steam:username', issuer: 'Steam' } ) )
+
+		expect( url.searchParams.get( 'encoder' ) ).toBe( 'steam' )
+		expect( url.searchParams.get( 'digits' ) ).toBe( '5' )
+	} )
+
+} )
+
+
+describe( 'new Totp()', () => {
+
+	const time = 1734105659
+
+	it( 'generates and verifies tokens', () => {
+		const totp = new Totp( { secret: { key: hexSecret }, period: 60, window: 1 } )
+		const token = totp.token( time )
+
+		expect( token ).toBe( Totp.GetToken( { secret: { key: hexSecret }, period: 60, time } ) )
+		expect( totp.delta( token, { time: time + 60 } ) ).toBe( -1 )
+		expect( totp.delta( token, { time: time + 120 } ) ).toBeNull()
+		expect( totp.verify( token, { time } ) ).toBe( true )
+	} )
+
+
+	it( 'honors the epoch and returns the next tick', () => {
+		const totp = new Totp( { secret: { key: hexSecret }, epoch: 15 } )
+
+		expect( totp.token( time ) ).toBe( Totp.GetToken( { secret: { key: hexSecret }, epoch: 15, time } ) )
+		expect( totp.nextTick( 20 ) ).toEqual( new Date( 45_000 ) )
+	} )
+
+
+	it( 'supports replay protection', () => {
+		const totp	= new Totp( { secret: { key: base32Secret, encoding: 'base32' } } )
+		const store	= new MemoryReplayStore()
+		const token	= totp.token( time )
+
+		expect( totp.verify( token, { time, replay: { store, id: 'alice' } } ) ).toBe( true )
+		expect( totp.verify( token, { time, replay: { store, id: 'alice' } } ) ).toBe( false )
+	} )
+
+
+	it( 'is not affected by later changes to the static defaults', () => {
+		const totp		= new Totp( { secret: { key: base64Secret, encoding: 'base64url' } } )
+		const token		= totp.token( time )
+		const defaults	= { period: Totp.Period, digits: Otp.Digits }
+
+		try {
+			Totp.Period	= 60
+			Otp.Digits	= 8
+
+			expect( totp.token( time ) ).toBe( token )
+			expect( totp.period ).toBe( 30 )
+			expect( totp.nextTick( 20 ) ).toEqual( new Date( 30_000 ) )
+		} finally {
+			Totp.Period	= defaults.period
+			Otp.Digits	= defaults.digits
+		}
+	} )
+
+
+	it( 'builds the otpauth URL', () => {
+		const totp = new Totp( { secret: { key: hexSecret, algorithm: 'SHA-256' }, period: 60 } )
+
+		expect( totp.authURL( { label: 'alice', issuer: 'Example' } ) ).toBe(
+			Totp.AuthURL( { label: 'alice', issuer: 'Example', period: 60, secret: { key: hexSecret, algorithm: 'SHA-256' } } )
+		)
+	} )
+
+
+	it( 'throws a new Exception when the period is not valid', () => {
+		expect( () => new Totp( { secret: { key: hexSecret }, period: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PERIOD } ) )
+	} )
+
+} )
+
+describe( 'Totp.Watch()', () => {
+
+	/** RFC 6238 SHA-1 secret. */
+	const secret = { key: '3132333435363738393031323334353637383930' }
+
+	/** A clock running timers only when advanced. Timers fire `lateness` milliseconds late. */
+	const createClock = ( now: number, lateness: number = 0 ) => {
+		const timers = new Map<number, { at: number, callback: () => void }>()
+		let id = 0
+
+		return {
+			now			: () => now,
+			setTimeout	: ( callback: () => void, delay: number ) => {
+				timers.set( ++id, { at: now + delay, callback } )
+				return id
+			},
+			clearTimeout: ( handle: unknown ) => { timers.delete( handle as number ) },
+			pending		: () => timers.size,
+			advance		: ( ms: number ) => {
+				const target	= now + ms
+				const first		= () => [ ...timers ].sort( ( a, b ) => a[ 1 ].at - b[ 1 ].at )[ 0 ]
+
+				for ( let next = first(); next && next[ 1 ].at <= target; next = first() ) {
+					const [ handle, { at, callback } ] = next
+
+					timers.delete( handle )
+					now = at + lateness
+					callback()
+				}
+
+				now = Math.max( now, target )
+			},
+		}
+	}
+
+	it( 'emits the current token at every tick boundary', () => {
+		const clock		= createClock( 59_000 )
+		const updates: OTP.TOTP.WatchUpdate[] = []
+
+		Totp.Watch( { secret, digits: 8, clock } ).subscribe( update => updates.push( update ) )
+
+		clock.advance( 31_000 )
+
+		expect( updates ).toEqual( [
+			{ token: '94287082', counter: 1, remaining: 1, progress: 29 / 30, nextTick: new Date( 60_000 ) },
+			{ token: '37359152', counter: 2, remaining: 30, progress: 0, nextTick: new Date( 90_000 ) },
+			{ token: Totp.GetToken( { secret, digits: 8, time: 90 } ), counter: 3, remaining: 30, progress: 0, nextTick: new Date( 120_000 ) },
+		] )
+	} )
+
+
+	it( 'stays aligned to the epoch when timers fire late', () => {
+		const clock		= createClock( 10_000, 250 )
+		const updates: number[] = []
+
+		Totp.Watch( { secret, clock, epoch: 5, interval: 10 } ).subscribe( ( { remaining } ) => updates.push( remaining ) )
+
+		clock.advance( 60_000 )
+
+		expect( updates ).toEqual( [ 25, 19.75, 9.75, 29.75, 19.75, 9.75, 29.75 ] )
+	} )
+
+
+	it( 'emits countdown updates every interval seconds', () => {
+		const clock		= createClock( 58_500 )
+		const updates: number[] = []
+
+		Totp.Watch( { secret, clock, interval: 1 } ).subscribe( ( { remaining } ) => updates.push( remaining ) )
+
+		clock.advance( 3000 )
+
+		expect( updates ).toEqual( [ 1.5, 1, 30, 29 ] )
+	} )
+
+
+	it( 'only runs timers while there are subscribers', () => {
+		const clock			= createClock( 0 )
+		const watcher		= Totp.Watch( { secret, clock } )
+		const listener		= jest.fn()
+		const unsubscribe	= watcher.subscribe( listener )
+
+		expect( clock.pending() ).toBe( 1 )
+
+		unsubscribe()
+		clock.advance( 60_000 )
+
+		expect( clock.pending() ).toBe( 0 )
+		expect( listener ).toHaveBeenCalledTimes( 1 )
+	} )
+
+
+	it( 'can be consumed as an async iterable and stopped with an AbortSignal', async () => {
+		const clock			= createClock( 0 )
+		const controller	= new AbortController()
+		const counters: number[] = []
+
+		for await ( const { counter } of Totp.Watch( { secret, clock, signal: controller.signal } ) ) {
+			counters.push( counter )
+
+			if ( counters.length === 3 ) controller.abort()
+			else clock.advance( 30_000 )
+		}
+
+		expect( counters ).toEqual( [ 0, 1, 2 ] )
+		expect( clock.pending() ).toBe( 0 )
+	} )
+
+
+	it( 'does not emit once stopped', async () => {
+		const clock		= createClock( 0 )
+		const listener	= jest.fn()
+		const watcher	= new Totp( { secret } ).watch( { clock, signal: AbortSignal.abort() } )
+
+		watcher.subscribe( listener )
+
+		expect( listener ).not.toHaveBeenCalled()
+		expect( await watcher[ Symbol.asyncIterator ]().next() ).toEqual( { value: undefined, done: true } )
+	} )
+
+
+	it( 'rejects pending async iterators when an update fails', async () => {
+		const clock		= createClock( 0 )
+		const error		= new Error( 'Unable to open the secret.' )
+		const watcher	= new TotpWatcher( { period: 30, epoch: 0, clock }, time => {
+			if ( time >= 30 ) throw error
+			return '123456'
+		} )
+		const iterator	= watcher[ Symbol.asyncIterator ]()
+
+		expect( await iterator.next() ).toEqual( { value: expect.objectContaining( { token: '123456' } ), done: false } )
+
+		const next = iterator.next()
+
+		expect( () => clock.advance( 30_000 ) ).not.toThrow()
+		await expect( next ).rejects.toBe( error )
+		expect( await iterator.next() ).toEqual( { value: undefined, done: true } )
+		expect( clock.pending() ).toBe( 0 )
+	} )
+
+
+	it( 'stops when a listener throws', async () => {
+		const clock		= createClock( 0 )
+		const error		= new Error( 'Listener failed.' )
+		const watcher	= Totp.Watch( { secret, clock } )
+		const iterator	= watcher[ Symbol.asyncIterator ]()
+		const listener	= jest.fn()
+
+		await iterator.next()
+
+		watcher.subscribe( ( { counter } ) => { if ( counter ) throw error } )
+		watcher.subscribe( listener )
+
+		const next = iterator.next()
+
+		clock.advance( 30_000 )
+
+		await expect( next ).resolves.toEqual( { value: expect.objectContaining( { counter: 1 } ), done: false } )
+		await expect( iterator.next() ).rejects.toBe( error )
+		expect( clock.pending() ).toBe( 0 )
+
+		clock.advance( 30_000 )
+
+		expect( listener ).toHaveBeenCalledTimes( 1 )
+	} )
+
+
+	it( 'throws a new Exception when the interval is not valid', () => {
+		expect( () => Totp.Watch( { secret, interval: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+		expect( () => Totp.Watch( { secret, period: 0 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PERIOD } ) )
+	} )
+
 } )
\ No newline at end of file
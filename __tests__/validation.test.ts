@@ -0,0 +1,161 @@
+import { Validation } from '@/Validation'
+import { Otp } from '@/Otp'
+import { Hotp } from '@/Hotp'
+import { Totp } from '@/Totp'
+import { Hotp as WebHotp } from '@/web'
+import { ErrorCode } from '@/error'
+import type { OTP } from '@/types'
+
+const hexSecret		= 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7'
+const base32Secret	= 'L5WNCK5A5SHCZNOIUTFHJ7GNCFWEGGY5'
+const weakSecret	= 'JBSWY3DPEHPK3PXP'
+
+const withCode = ( code: ErrorCode ) => expect.objectContaining( { code } )
+
+
+describe( 'Validation.SecretKey()', () => {
+
+	it( 'returns the decoded secret key length in bytes', () => {
+		expect( Validation.SecretKey( hexSecret, 'hex', 'RFC4648' ) ).toBe( 20 )
+		expect( Validation.SecretKey( base32Secret, 'base32', 'RFC4648' ) ).toBe( 20 )
+		expect( Validation.SecretKey( 'GEZDGNBVGY3TQOJQGEZDGNBVGY======', 'base32', 'RFC4648' ) ).toBe( 16 )
+		expect( Validation.SecretKey( Buffer.from( hexSecret, 'hex' ).toString( 'base64url' ), 'base64url', 'RFC4648' ) ).toBe( 20 )
+		expect( Validation.SecretKey( Buffer.from( hexSecret, 'hex' ).toString( 'base64' ), 'base64url', 'RFC4648' ) ).toBe( 20 )
+		expect( Validation.SecretKey( 'j1kQ7mN3pR9sT2vW5xY8', 'ascii', 'RFC4648' ) ).toBe( 20 )
+	} )
+
+
+	it( 'throws a new Exception when no secret key is given', () => {
+		expect( () => Validation.SecretKey( '', 'hex', 'RFC4648' ) )
+			.toThrow( withCode( ErrorCode.EMPTY_VALUE ) )
+	} )
+
+
+	it( 'throws a new Exception when the secret key is not correctly encoded', () => {
+		const malformed: [ string, OTP.Encoding ][] = [
+			[ hexSecret.slice( 1 ), 'hex' ],
+			[ hexSecret.replace( 'D', 'G' ), 'hex' ],
+			[ base32Secret.replace( 'L', '1' ), 'base32' ],
+			[ base32Secret.slice( 2 ), 'base32' ],
+			[ `${ hexSecret }$`, 'base64url' ],
+			[ 'AAAAA', 'base64url' ],
+			[ 'j1kQ7mN3pR9sT2vW5xY8€', 'ascii' ],
+		]
+
+		malformed.forEach( ( [ key, encoding ] ) => {
+			expect( () => Validation.SecretKey( key, encoding, 'RFC4648' ) )
+				.toThrow( withCode( ErrorCode.INVALID_SECRET ) )
+		} )
+	} )
+
+
+	it( 'throws a new Exception when the secret key is shorter than 128 bits', () => {
+		expect( () => Validation.SecretKey( weakSecret, 'base32', 'RFC4648' ) )
+			.toThrow( withCode( ErrorCode.WEAK_SECRET ) )
+		expect( () => Validation.SecretKey( hexSecret.slice( 0, 30 ), 'hex', 'RFC4648' ) )
+			.toThrow( withCode( ErrorCode.WEAK_SECRET ) )
+		expect( Validation.SecretKey( hexSecret.slice( 0, 32 ), 'hex', 'RFC4648' ) ).toBe( 16 )
+		expect( () => Validation.SecretKey( hexSecret.slice( 0, 32 ), 'hex', 'RFC4648', 160 ) )
+			.toThrow( withCode( ErrorCode.WEAK_SECRET ) )
+	} )
+
+
+	it( 'accepts shorter secret keys when opting out', () => {
+		expect( Validation.SecretKey( weakSecret, 'base32', 'RFC4648', 0 ) ).toBe( 10 )
+		expect( Totp.GetToken( { secret: { key: weakSecret, encoding: 'base32' }, minSecretBits: 0 } ) ).toMatch( /^\d{6}$/ )
+		expect( new Totp( { secret: { key: weakSecret, encoding: 'base32' }, minSecretBits: 0 } ).token() ).toMatch( /^\d{6}$/ )
+		expect( Totp.AuthURL( { secret: { key: weakSecret, encoding: 'base32' }, label: 'alice', minSecretBits: 0 } ) )
+			.toContain( `secret=${ weakSecret }` )
+	} )
+
+} )
+
+
+describe( 'Secret keys validation', () => {
+
+	it( 'rejects malformed and weak secret keys before generating tokens', () => {
+		expect( () => Hotp.GetToken( { secret: { key: hexSecret.slice( 1 ) }, counter: 0 } ) )
+			.toThrow( withCode( ErrorCode.INVALID_SECRET ) )
+		expect( () => Totp.GetToken( { secret: { key: weakSecret, encoding: 'base32' } } ) )
+			.toThrow( withCode( ErrorCode.WEAK_SECRET ) )
+		expect( () => new Totp( { secret: { key: weakSecret, encoding: 'base32' } } ) )
+			.toThrow( withCode( ErrorCode.WEAK_SECRET ) )
+		expect( () => new Totp( { secret: { key: 'a!b', encoding: 'base32' } } ) )
+			.toThrow( withCode( ErrorCode.INVALID_SECRET ) )
+	} )
+
+
+	it( 'rejects malformed and weak secret keys before verifying tokens', () => {
+		expect( () => Hotp.GetDelta( { secret: { key: weakSecret, encoding: 'base32' }, token: '123456' } ) )
+			.toThrow( withCode( ErrorCode.WEAK_SECRET ) )
+		expect( () => Totp.GetDelta( { secret: { key: `${ base32Secret }0`, encoding: 'base32' }, token: '123456' } ) )
+			.toThrow( withCode( ErrorCode.INVALID_SECRET ) )
+	} )
+
+
+	it( 'rejects malformed and weak secret keys with the Web Crypto implementation', async () => {
+		await expect( WebHotp.GetToken( { secret: { key: weakSecret, encoding: 'base32' }, counter: 0 } ) ).rejects
+			.toEqual( withCode( ErrorCode.WEAK_SECRET ) )
+		await expect( new WebHotp( { secret: { key: weakSecret, encoding: 'base32' } } ).token() ).rejects
+			.toEqual( withCode( ErrorCode.WEAK_SECRET ) )
+		await expect( WebHotp.GetToken( { secret: { key: weakSecret, encoding: 'base32' }, counter: 0, minSecretBits: 0 } ) ).resolves
+			.toMatch( /^\d{6}$/ )
+		await expect( new WebHotp( { secret: { key: weakSecret, encoding: 'base32' }, minSecretBits: 0 } ).token() ).resolves
+			.toMatch( /^\d{6}$/ )
+		await expect( WebHotp.GetDelta( { secret: { key: 'XYZ', encoding: 'hex' }, token: '123456' } ) ).rejects
+			.toEqual( withCode( ErrorCode.INVALID_SECRET ) )
+	} )
+
+} )
+
+
+describe( 'AuthURL validation', () => {
+
+	const secret: OTP.Secret = { key: base32Secret, encoding: 'base32' }
+
+	it( 'builds otpauth URLs with valid labels and issuers', () => {
+		expect( Totp.AuthURL( { secret, label: 'Example:alice@google.com', issuer: 'Example' } ) )
+			.toMatch( /^otpauth:\/\/totp\/Example%3Aalice%40google\.com\?/ )
+		expect( Hotp.AuthURL( { secret, label: 'alice@google.com', issuer: 'Example', counter: 0 } ) )
+			.toMatch( /^otpauth:\/\/hotp\/alice%40google\.com\?/ )
+	} )
+
+
+	it( 'throws a new Exception when the label is malformed', () => {
+		expect( () => Totp.AuthURL( { secret, label: 'Example:alice:bob' } ) )
+			.toThrow( withCode( ErrorCode.INVALID_LABEL ) )
+		expect( () => Totp.AuthURL( { secret, label: 'Example:' } ) )
+			.toThrow( withCode( ErrorCode.INVALID_LABEL ) )
+		expect( () => Totp.AuthURL( { secret, label: '' } ) )
+			.toThrow( withCode( ErrorCode.INVALID_LABEL ) )
+	} )
+
+
+	it( 'throws a new Exception when the issuer contains a colon', () => {
+		expect( () => Totp.AuthURL( { secret, label: 'alice', issuer: 'Example:Inc' } ) )
+			.toThrow( withCode( ErrorCode.INVALID_ISSUER ) )
+		expect( () => Otp.ParseAuthURL( `otpauth://totp/alice?secret=${ base32Secret }&issuer=Example%3AInc` ) )
+			.toThrow( withCode( ErrorCode.INVALID_ISSUER ) )
+	} )
+
+
+	it( 'parses labels into the account name and the issuer', () => {
+		expect( Otp.ParseLabel( 'Example:alice@google.com' ) ).toEqual( { account: 'alice@google.com', issuer: 'Example' } )
+		expect( Otp.ParseLabel( 'alice@google.com', 'Example' ) ).toEqual( { account: 'alice@google.com', issuer: 'Example' } )
+	} )
+
+
+	it( 'throws a new Exception when the label prefix doesn\'t match the issuer', () => {
+		expect( () => Hotp.AuthURL( { secret, label: 'Example:alice', issuer: 'Other', counter: 0 } ) )
+			.toThrow( withCode( ErrorCode.ISSUER_MISMATCH ) )
+	} )
+
+
+	it( 'throws a new Exception when the secret key is malformed or weak', () => {
+		expect( () => Totp.AuthURL( { secret: { key: 'not base32!', encoding: 'base32' }, label: 'alice' } ) )
+			.toThrow( withCode( ErrorCode.INVALID_SECRET ) )
+		expect( () => Totp.AuthURL( { secret: { key: weakSecret, encoding: 'base32' }, label: 'alice' } ) )
+			.toThrow( withCode( ErrorCode.WEAK_SECRET ) )
+	} )
+
+} )
\ No newline at end of file
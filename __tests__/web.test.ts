@@ -0,0 +1,426 @@
+import { createHmac } from 'crypto'
+import { Otp } from '@/Otp'
+import { Hotp } from '@/Hotp'
+import { Totp } from '@/Totp'
+import { SealedSecret } from '@/SealedSecret'
+import { Otp as WebOtp, Hotp as WebHotp, Totp as WebTotp, SealedSecret as WebSealedSecret } from '@/web'
+import { MemoryReplayStore } from '@/ReplayStore'
+import { MemoryDriftStore } from '@/DriftStore'
+import { ErrorCode } from '@/error'
+import type { OTP } from '@/types'
+
+const hexSecret		= 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7'
+const base64Secret	= Buffer.from( hexSecret, 'hex' ).toString( 'base64url' )
+const base32Secret	= 'L5WNCK5A5SHCZNOIUTFHJ7GNCFWEGGY5'
+
+const secrets: OTP.Secret[] = [
+	{ key: hexSecret },
+	{ key: base64Secret, encoding: 'base64url' },
+	{ key: base32Secret, encoding: 'base32' },
+	{ key: 'j1kQ7mN3pR9sT2vW5xY8', encoding: 'ascii' },
+	{ key: hexSecret, algorithm: 'SHA-256' },
+	{ key: hexSecret, algorithm: 'SHA-512' },
+]
+
+
+describe( 'web Otp.Seed()', () => {
+
+	it( 'generates a 20 bytes HMAC-SHA-1 HEX secret', async () => {
+		expect( await WebOtp.Seed() ).toMatch( /^[0-9A-F]{40}$/ )
+		expect( await WebOtp.Seed( '12345678' ) ).toMatch( /^[0-9A-F]{40}$/ )
+	} )
+
+
+	it( 'produces always a unique result with the same input', async () => {
+		expect( await WebOtp.Seed( '12345678' ) )
+			.not.toBe( await WebOtp.Seed( '12345678' ) )
+	} )
+
+} )
+
+
+describe( 'web Otp.GenerateSecret()', () => {
+
+	it( 'generates a secret sized for the hash algorithm', () => {
+		expect( WebOtp.GenerateSecret() ).toEqual( {
+			key: expect.stringMatching( /^[0-9A-F]{40}$/ ), encoding: 'hex', algorithm: 'SHA-1',
+		} )
+		expect( WebOtp.GenerateSecret( { algorithm: 'SHA-512', encoding: 'base32' } ).key ).toMatch( /^[A-Z2-7]{103}=$/ )
+		expect( WebOtp.GenerateSecret( { encoding: 'ascii', symbols: true } ).key ).toHaveLength( 26 )
+	} )
+
+
+	it( 'returns a secret usable by the Node.js implementation', async () => {
+		const secret = WebOtp.GenerateSecret( { algorithm: 'SHA-256', encoding: 'base64url' } )
+
+		expect( await WebTotp.GetToken( { secret, time: 59 } ) )
+			.toBe( Totp.GetToken( { secret, time: 59 } ) )
+	} )
+
+
+	it( 'throws a new Exception when options are not valid', () => {
+		expect( () => WebOtp.GenerateSecret( { length: -1 } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.WRONG_VALUE } ) )
+	} )
+
+} )
+
+
+describe( 'web Otp.GetSecrets()', () => {
+
+	it( 'gives identical results to the Node.js implementation', async () => {
+		for ( const secret of secrets ) {
+			expect( await WebOtp.GetSecrets( { secret } ) )
+				.toEqual( Otp.GetSecrets( { secret } ) )
+		}
+	} )
+
+} )
+
+
+describe( 'web Hotp.GetToken()', () => {
+
+	it( 'gives identical results to the Node.js implementation', async () => {
+		for ( const secret of secrets ) {
+			for ( const counter of [ 0, 1, 10, 256, 2345434545234e+8 ] ) {
+				for ( const digits of [ 4, 6, 7, 8, 10 ] ) {
+					expect( await WebHotp.GetToken( { secret, counter, digits } ) )
+						.toBe( Hotp.GetToken( { secret, counter, digits } ) )
+				}
+			}
+		}
+	} )
+
+
+	it( 'honors the token alphabet like the Node.js implementation', async () => {
+		const alphabet = '0123456789ABCDEF'
+
+		for ( const secret of secrets ) {
+			expect( await WebHotp.GetToken( { secret, digits: 8, alphabet } ) )
+				.toBe( Hotp.GetToken( { secret, digits: 8, alphabet } ) )
+		}
+
+		await expect( WebHotp.GetToken( { secret: secrets[ 0 ]!, digits: 9, alphabet } ) )
+			.rejects.toEqual( expect.objectContaining( { code: ErrorCode.INVALID_DIGITS } ) )
+	} )
+
+} )
+
+
+describe( 'web Hotp.GetDelta()', () => {
+
+	const options: OTP.HOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	it( 'gives identical results to the Node.js implementation', async () => {
+		const token = Hotp.GetToken( { ...options, counter: 15 } )
+
+		for ( const counter of [ 10, 12, 15, 16 ] ) {
+			expect( await WebHotp.GetDelta( { ...options, token, counter, window: 5 } ) )
+				.toBe( Hotp.GetDelta( { ...options, token, counter, window: 5 } ) )
+		}
+	} )
+
+
+	it( 'returns null if token is not of correct length', async () => {
+		expect( await WebHotp.GetDelta( { ...options, token: '1234' } ) ).toBe( null )
+	} )
+
+
+	it( 'gives identical check results to the Node.js implementation', async () => {
+		const token = Hotp.GetToken( { ...options, counter: 15 } )
+
+		for ( const [ value, counter ] of [ [ token, 12 ], [ token, 16 ], [ '1234', 0 ], [ '12a456', 0 ] ] as const ) {
+			expect( await WebHotp.Check( { ...options, token: value, counter, window: 5 } ) )
+				.toEqual( Hotp.Check( { ...options, token: value, counter, window: 5 } ) )
+		}
+	} )
+
+
+	it( 'validates the secret key before the token like the Node.js implementation', async () => {
+		const secret = { key: hexSecret.slice( 1 ) }
+
+		expect( () => Hotp.Check( { secret, token: '12a456' } ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_SECRET } ) )
+		await expect( WebHotp.Check( { secret, token: '12a456' } ) )
+			.rejects.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_SECRET } ) )
+		await expect( WebTotp.Check( { secret, token: '1234' } ) )
+			.rejects.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_SECRET } ) )
+	} )
+
+
+	it( 'throws a new Exception when no token is provided', async () => {
+		// @ts-expect-error negative testing
+		await expect( WebHotp.GetDelta( { ...options } ) )
+			.rejects.toThrow( expect.objectContaining( { code: ErrorCode.EMPTY_VALUE } ) )
+	} )
+
+} )
+
+
+describe( 'web Hotp.Verify()', () => {
+
+	it( 'verifies a token', async () => {
+		const options: OTP.HOTP.GetTokenOptions = { secret: { key: hexSecret } }
+		const token = await WebHotp.GetToken( { ...options, counter: 11 } )
+
+		expect( await WebHotp.Verify( { ...options, token, counter: 9, window: 2 } ) ).toBe( true )
+		expect( await WebHotp.Verify( { ...options, token, counter: 12, window: 2 } ) ).toBe( false )
+	} )
+
+} )
+
+
+describe( 'web Totp', () => {
+
+	const options: OTP.TOTP.GetTokenOptions = {
+		secret: { key: hexSecret },
+	}
+
+	const time = new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+
+
+	it( 'gives identical results to the Node.js implementation', async () => {
+		for ( const secret of secrets ) {
+			for ( const period of [ 10, 15, 30, 60, 300 ] ) {
+				expect( await WebTotp.GetToken( { secret, period, time } ) )
+					.toBe( Totp.GetToken( { secret, period, time } ) )
+			}
+		}
+
+		expect( WebTotp.Counter( { time } ) ).toBe( Totp.Counter( { time } ) )
+		expect( WebTotp.NextTick( { time } ) ).toEqual( Totp.NextTick( { time } ) )
+	} )
+
+
+	it( 'throws a new Exception when the period is not a positive integer', async () => {
+		await expect( WebTotp.GetToken( { ...options, period: 0, time } ) )
+			.rejects.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_PERIOD } ) )
+	} )
+
+
+	it( 'supports Steam Guard tokens', async () => {
+		const secret: OTP.Secret = { key: 'cnOgv/KdpLoP6Nbh0GMkXkPXALQ=', encoding: 'base64url' }
+
+		expect( await WebTotp.GetToken( { secret, encoder: 'steam', time: 1700000000 } ) ).toBe( 'X45RP' )
+		expect( await WebTotp.Verify( { secret, encoder: 'steam', token: 'YWH3Q', time: 1700000000, window: 1 } ) ).toBe( true )
+	} )
+
+
+	it( 'handles 2 sided window', async () => {
+		const token = await WebTotp.GetToken( { ...options, time } )
+
+		expect( await WebTotp.GetDelta( { ...options, token, time: time + 30, window: 3 } ) ).toBe( -1 )
+		expect( await WebTotp.GetDelta( { ...options, token, time: time - 31, window: 2 } ) ).toBe( 2 )
+		expect( await WebTotp.Verify( { ...options, token, time: time + 30 } ) ).toBe( false )
+	} )
+
+
+	it( 'supports replay protection', async () => {
+		const replay	= { store: new MemoryReplayStore(), id: 'user' }
+		const token		= await WebTotp.GetToken( { ...options, time } )
+
+		expect( await WebTotp.Verify( { ...options, token, time, replay } ) ).toBe( true )
+		expect( await WebTotp.Verify( { ...options, token, time, replay } ) ).toBe( false )
+	} )
+
+
+	it( 'supports asynchronous replay stores', async () => {
+		const counters	= new Map<string, number>()
+		const store: OTP.TOTP.AsyncReplayStore = {
+			setIfGreater: async ( id, counter ) => {
+				if ( counter <= ( counters.get( id ) ?? -Infinity ) ) return false
+				counters.set( id, counter )
+				return true
+			},
+		}
+		const token		= await WebTotp.GetToken( { ...options, time } )
+		const totp		= new WebTotp( options )
+
+		expect( await WebTotp.Verify( { ...options, token, time, replay: { store, id: 'user' } } ) ).toBe( true )
+		expect( counters.get( 'user' ) ).toBe( Totp.Counter( { time } ) )
+		expect( await totp.check( token, { time, replay: { store, id: 'user' } } ) )
+			.toEqual( { valid: false, reason: 'replayed' } )
+	} )
+
+
+	it( 'accepts a token once when verified concurrently', async () => {
+		const counters	= new Map<string, number>()
+		/** Simulates a shared backend answering after some latency, with an atomic compare-and-set */
+		const store: OTP.TOTP.AsyncReplayStore = {
+			setIfGreater: async ( id, counter ) => {
+				await new Promise( resolve => setTimeout( resolve, 10 ) )
+				if ( counter <= ( counters.get( id ) ?? -Infinity ) ) return false
+				counters.set( id, counter )
+				return true
+			},
+		}
+		const token		= await WebTotp.GetToken( { ...options, time } )
+		const replay	= { store, id: 'user' }
+
+		const results = await Promise.all( [
+			WebTotp.Check( { ...options, token, time, replay } ),
+			WebTotp.Check( { ...options, token, time, replay } ),
+		] )
+
+		expect( results.filter( result => result.valid ) ).toHaveLength( 1 )
+		expect( results ).toContainEqual( { valid: false, reason: 'replayed' } )
+	} )
+
+
+	it( 'checks tokens', async () => {
+		const replay	= { store: new MemoryReplayStore(), id: 'user' }
+		const token		= await WebTotp.GetToken( { ...options, time } )
+
+		expect( await WebTotp.Check( { ...options, token, time: time + 30, window: 1, replay } ) )
+			.toEqual( Totp.Check( { ...options, token, time: time + 30, window: 1 } ) )
+		expect( await WebTotp.Check( { ...options, token, time, replay } ) )
+			.toEqual( { valid: false, reason: 'replayed' } )
+	} )
+
+
+	it( 'supports drift tracking', async () => {
+		const stores	= [ new MemoryDriftStore(), new MemoryDriftStore() ] as const
+		const token		= await WebTotp.GetToken( { ...options, time: time + 90 } )
+
+		stores.forEach( store => store.set( 'user', 2 ) )
+
+		expect( await WebTotp.Check( { ...options, token, time, window: 1, drift: { store: stores[ 0 ], id: 'user' } } ) )
+			.toEqual( Totp.Check( { ...options, token, time, window: 1, drift: { store: stores[ 1 ], id: 'user' } } ) )
+		expect( stores[ 0 ].get( 'user' ) ).toBe( 2.5 )
+	} )
+
+} )
+
+
+describe( 'web SealedSecret', () => {
+
+	const keyring: OTP.SEALED.Keyring = {
+		current	: 'new',
+		keys	: { old: new Uint8Array( 32 ).fill( 1 ), new: new Uint8Array( 32 ).fill( 2 ) },
+	}
+
+	const secret: Required<OTP.Secret> = { key: base32Secret, encoding: 'base32', algorithm: 'SHA-256' }
+
+
+	it( 'produces envelopes interchangeable with the Node.js implementation', async () => {
+		const sealed = await WebSealedSecret.Seal( secret, keyring )
+
+		expect( sealed ).toMatch( /^v1\.new\./ )
+		expect( SealedSecret.Open( sealed, keyring ) ).toEqual( secret )
+		expect( await WebSealedSecret.Open( SealedSecret.Seal( secret, keyring ), keyring ) ).toEqual( secret )
+	} )
+
+
+	it( 'rotates sealed secrets', async () => {
+		const sealed	= await WebSealedSecret.Seal( secret, keyring, 'old' )
+		const rotated	= await WebSealedSecret.Rotate( sealed, keyring )
+
+		expect( WebSealedSecret.KeyId( rotated ) ).toBe( 'new' )
+		expect( await WebSealedSecret.Rotate( rotated, keyring ) ).toBe( rotated )
+		expect( await WebSealedSecret.Open( rotated, keyring ) ).toEqual( secret )
+	} )
+
+
+	it( 'generates and verifies tokens with sealed secrets', async () => {
+		const sealed: OTP.SEALED.Options = { sealed: SealedSecret.Seal( secret, keyring ), keyring }
+		const token = Totp.GetToken( { secret, time: 59 } )
+
+		expect( await WebTotp.GetToken( { secret: sealed, time: 59 } ) ).toBe( token )
+		expect( await WebTotp.GetDelta( { secret: sealed, time: 89, token, window: 1 } ) ).toBe( -1 )
+		expect( await WebHotp.GetToken( { secret: sealed, counter: 1 } ) )
+			.toBe( Hotp.GetToken( { secret, counter: 1 } ) )
+	} )
+
+
+	it( 'throws a new Exception when the sealed secret cannot be opened', async () => {
+		const sealed = await WebSealedSecret.Seal( secret, keyring )
+
+		await expect( WebSealedSecret.Open( sealed.replace( 'v1.new', 'v1.old' ), keyring ) )
+			.rejects.toEqual( expect.objectContaining( { code: ErrorCode.INVALID_SEALED_SECRET } ) )
+		await expect( WebSealedSecret.Open( sealed, { current: 'new', keys: {} } ) )
+			.rejects.toEqual( expect.objectContaining( { code: ErrorCode.NOT_FOUND } ) )
+		expect( () => WebSealedSecret.KeyId( 'v1.new' ) )
+			.toThrow( expect.objectContaining( { code: ErrorCode.INVALID_SEALED_SECRET } ) )
+	} )
+
+} )
+
+
+describe( 'web signers', () => {
+
+	const time = 1734105659
+
+	it( 'match the Node.js tokens', async () => {
+		for ( const secret of secrets ) {
+			const { hmacKey, algorithm } = Otp.PrepareKey( secret )
+
+			const signer: OTP.AsyncSigner = {
+				algorithm,
+				sign: async ( algorithm, counter ) => (
+					createHmac( algorithm.replace( '-', '' ).toLowerCase(), hmacKey ).update( counter ).digest()
+				),
+			}
+
+			expect( await WebHotp.GetToken( { secret: signer, counter: 3 } ) ).toBe( Hotp.GetToken( { secret, counter: 3 } ) )
+			expect( await WebTotp.GetToken( { secret: signer, time } ) ).toBe( Totp.GetToken( { secret, time } ) )
+			expect( await WebTotp.GetDelta( { secret: signer, time: time + 30, token: Totp.GetToken( { secret, time } ), window: 1 } ) ).toBe( -1 )
+		}
+	} )
+
+
+	it( 'supports synchronous signers', async () => {
+		const { hmacKey } = Otp.PrepareKey( { key: hexSecret } )
+
+		const signer: OTP.Signer = {
+			sign: ( algorithm, counter ) => createHmac( 'sha1', hmacKey ).update( counter ).digest(),
+		}
+
+		expect( await WebHotp.Verify( { secret: signer, token: Hotp.GetToken( { secret: { key: hexSecret } } ) } ) ).toBe( true )
+	} )
+
+
+	it( 'rejects signer outputs which are not valid digests', async () => {
+		await expect( WebHotp.GetToken( { secret: { sign: async () => new Uint8Array() }, counter: 0 } ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.INVALID_DIGEST } ) )
+		await expect( WebTotp.GetToken( { secret: { algorithm: 'SHA-512', sign: () => new Uint8Array( 20 ) } } ) ).rejects
+			.toEqual( expect.objectContaining( { code: ErrorCode.INVALID_DIGEST } ) )
+	} )
+
+} )
+
+
+describe( 'web instances', () => {
+
+	const time = 1734105659
+
+	it( 'match the Node.js instances', async () => {
+		for ( const secret of secrets ) {
+			const hotp = new Hotp( { secret, digits: 8, window: 1 } )
+			const totp = new Totp( { secret, period: 60, window: 1 } )
+
+			expect( await new WebHotp( { secret, digits: 8, window: 1 } ).token( 3 ) ).toBe( hotp.token( 3 ) )
+			expect( await new WebHotp( { secret, digits: 8, window: 1 } ).delta( hotp.token( 4 ), 3 ) ).toBe( 1 )
+			expect( await new WebTotp( { secret, period: 60, window: 1 } ).token( time ) ).toBe( totp.token( time ) )
+			expect( await new WebTotp( { secret, period: 60, window: 1 } ).verify( totp.token( time ), { time: time + 60 } ) ).toBe( true )
+		}
+	} )
+
+
+	it( 'is not affected by later changes to the static defaults', async () => {
+		const totp		= new WebTotp( { secret: { key: hexSecret } } )
+		const token		= await totp.token( time )
+		const digits	= WebOtp.Digits
+
+		try {
+			WebOtp.Digits = 8
+
+			expect( await totp.token( time ) ).toBe( token )
+			expect( totp.nextTick( 20 ) ).toEqual( new Date( 30_000 ) )
+		} finally {
+			WebOtp.Digits = digits
+		}
+	} )
+
+} )
\ No newline at end of file
@@ -0,0 +1,75 @@
+/**
+ * Defines a benchmark result.
+ *
+ */
+export interface BenchResult
+{
+	/**
+	 * The benchmark name.
+	 *
+	 */
+	name: string
+	/**
+	 * The number of operations per second.
+	 *
+	 */
+	ops: number
+	/**
+	 * The mean operation duration in microseconds.
+	 *
+	 */
+	mean: number
+}
+
+
+/**
+ * The number of measured iterations of each benchmark.
+ *
+ * It can be overridden with the `BENCH_ITERATIONS` environment variable.
+ */
+export const iterations = Number( process.env.BENCH_ITERATIONS ) || 2000
+
+
+/**
+ * Measure the throughput of the given function.
+ *
+ * The function gets called a few times to warm up before the measured iterations.
+ *
+ * @param	name	The benchmark name.
+ * @param	fn		The function to measure.
+ * @param	count	( Optional ) The number of measured iterations. Default: `iterations`.
+ * @returns	The benchmark result. @see {@link BenchResult}
+ */
+export const bench = ( name: string, fn: () => unknown, count: number = iterations ): BenchResult => {
+
+	for ( let i = 0; i < Math.ceil( count / 10 ); i++ ) fn()
+
+	const start = performance.now()
+
+	for ( let i = 0; i < count; i++ ) fn()
+
+	const elapsed = performance.now() - start
+
+	return {
+		name,
+		ops		: Math.round( count / elapsed * 1000 ),
+		mean	: Number( ( elapsed / count * 1000 ).toFixed( 2 ) ),
+	}
+
+}
+
+
+/**
+ * Print the given benchmark results.
+ *
+ * @param	title	The benchmark suite title.
+ * @param	results	The benchmark results.
+ */
+export const report = ( title: string, results: BenchResult[] ) => {
+
+	console.log( title )
+	console.table(
+		results.map( ( { name, ops, mean } ) => ( { name, 'ops/s': ops, 'mean (µs)': mean } ) )
+	)
+
+}
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { Otp } from '@/Otp'
+import { Hotp } from '@/Hotp'
+import { Totp } from '@/Totp'
+import type { OTP } from '@/types'
+
+import { bench, report, iterations } from './bench'
+
+const hexSecret		= 'DC0E3D9E461BC0341F6C451B848B312DE9537EB7'
+const base32Secret	= 'L5WNCK5A5SHCZNOIUTFHJ7GNCFWEGGY5'
+
+const secrets: Record<string, OTP.Secret> = {
+	hex		: { key: hexSecret },
+	base32	: { key: base32Secret, encoding: 'base32' },
+	sha512	: { key: hexSecret, algorithm: 'SHA-512' },
+}
+
+const time = new Date( '2024-12-13T16:00:00.000Z' ).getTime() / 1000
+
+
+describe( 'Token generation', () => {
+
+	it( 'measures Hotp.GetToken() throughput', () => {
+		const results = Object.entries( secrets ).flatMap( ( [ name, secret ] ) => {
+			const key = Otp.PrepareKey( secret )
+
+			return [
+				bench( `${ name } secret`, () => Hotp.GetToken( { secret, counter: 42 } ) ),
+				bench( `${ name } prepared key`, () => Hotp.GetToken( { secret: key, counter: 42 } ) ),
+			]
+		} )
+
+		report( `Hotp.GetToken() - ${ iterations } iterations`, results )
+
+		expect( results.every( ( { ops } ) => ops > 0 ) ).toBe( true )
+	} )
+
+
+	it( 'measures Totp.GetToken() throughput', () => {
+		const secret	= secrets.base32!
+		const key		= Otp.PrepareKey( secret )
+		const totp		= new Totp( { secret } )
+
+		const results = [
+			bench( 'static', () => Totp.GetToken( { secret, time } ) ),
+			bench( 'static prepared key', () => Totp.GetToken( { secret: key, time } ) ),
+			bench( 'instance', () => totp.token( time ) ),
+		]
+
+		report( `Totp.GetToken() - ${ iterations } iterations`, results )
+
+		expect( results.every( ( { ops } ) => ops > 0 ) ).toBe( true )
+	} )
+
+} )
+
+
+describe( 'Token verification', () => {
+
+	it( 'measures Totp.GetDelta() throughput with wide windows', () => {
+		const secret	= secrets.base32!
+		const key		= Otp.PrepareKey( secret )
+
+		const results = [ 1, 10, 50 ].flatMap( window => {
+			/** Token matching the last counter of the window, so the whole window gets scanned. */
+			const token = Totp.GetToken( { secret, time: time + window * 30 } )
+
+			return [
+				bench( `window ${ window } secret`, () => Totp.GetDelta( { secret, token, time, window } ), iterations / window ),
+				bench( `window ${ window } prepared key`, () => Totp.GetDelta( { secret: key, token, time, window } ), iterations / window ),
+			]
+		} )
+
+		report( `Totp.GetDelta() - ${ iterations } iterations / window`, results )
+
+		expect( results.every( ( { ops } ) => ops > 0 ) ).toBe( true )
+	} )
+
+
+	it( 'measures Hotp.Resync() throughput', () => {
+		const secret	= secrets.hex!
+		const key		= Otp.PrepareKey( secret )
+		const tokens	= [ 500, 501 ].map( counter => Hotp.GetToken( { secret, counter } ) ) as [ string, string ]
+
+		const results = [
+			bench( 'secret', () => Hotp.Resync( { secret, tokens } ), iterations / 500 ),
+			bench( 'prepared key', () => Hotp.Resync( { secret: key, tokens } ), iterations / 500 ),
+		]
+
+		report( `Hotp.Resync() - ${ iterations / 500 } iterations, 500 counters look-ahead`, results )
+
+		expect( results.every( ( { ops } ) => ops > 0 ) ).toBe( true )
+	} )
+
+} )
\ No newline at end of file
@@ -0,0 +1,251 @@
+import type { OTP } from './types'
+
+
+/**
+ * System clock.
+ *
+ * Reads the system time shifted by a fixed offset, so TOTP tokens can be computed against a corrected time
+ * (e.g. the offset measured against a trusted time server) without threading `time` through every call.
+ */
+export class Clock implements OTP.TOTP.WatchClock
+{
+	/**
+	 * The offset in seconds added to the time source.
+	 *
+	 */
+	readonly offset: number
+
+
+	/**
+	 * Constructs a new `Clock` instance.
+	 *
+	 * @param	offset ( Optional ) The offset in seconds added to the system time. Default: `0`.
+	 */
+	constructor( offset: number = 0 )
+	{
+		this.offset = offset
+	}
+
+
+	/**
+	 * Get the current time.
+	 *
+	 * @returns	The current time in milliseconds since the UNIX epoch.
+	 */
+	now()
+	{
+		return this.source() + this.offset * 1000
+	}
+
+
+	/**
+	 * Schedule a callback.
+	 *
+	 * @param	callback	The callback to run.
+	 * @param	delay		The delay in milliseconds.
+	 * @returns	The timer handle.
+	 */
+	setTimeout( callback: () => void, delay: number ): unknown
+	{
+		return setTimeout( callback, delay )
+	}
+
+
+	/**
+	 * Cancel a scheduled callback.
+	 *
+	 * @param	handle The timer handle returned by `setTimeout()`.
+	 */
+	clearTimeout( handle: unknown )
+	{
+		clearTimeout( handle as Parameters<typeof clearTimeout>[ 0 ] )
+	}
+
+
+	/**
+	 * Get the time source value, before the offset is applied.
+	 *
+	 * @returns	The time in milliseconds since the UNIX epoch.
+	 */
+	protected source()
+	{
+		return Date.now()
+	}
+
+
+	/**
+	 * Convert the given time to seconds since the UNIX epoch.
+	 *
+	 * @param	time The time. Numbers are expressed in seconds. @see {@link OTP.TOTP.Time}
+	 * @returns	The time in seconds since the UNIX epoch.
+	 */
+	static Seconds( time: OTP.TOTP.Time )
+	{
+		if ( typeof time === 'number' ) return time
+		if ( time instanceof Date ) return time.getTime() / 1000
+
+		return time.epochMilliseconds / 1000
+	}
+}
+
+
+/**
+ * Controllable clock for tests.
+ *
+ * Time only moves when `set()` or `advance()` are called. Timers scheduled with `setTimeout()` run in order
+ * as soon as the time reaches them, with the time set to their due time, so `Totp.Watch()` can be driven without mocking global timers.
+ */
+export class FakeClock extends Clock
+{
+	/**
+	 * The current time in milliseconds, before the offset is applied.
+	 *
+	 */
+	private time: number
+	/**
+	 * The scheduled timers, indexed by handle.
+	 *
+	 */
+	private timers = new Map<number, { at: number, callback: () => void }>()
+	/**
+	 * The last timer handle.
+	 *
+	 */
+	private handle = 0
+
+
+	/**
+	 * Constructs a new `FakeClock` instance.
+	 *
+	 * @param	time	( Optional ) The initial time. Numbers are expressed in seconds. Default: `0`.
+	 * @param	offset	( Optional ) The offset in seconds added to the time. Default: `0`.
+	 */
+	constructor( time: OTP.TOTP.Time = 0, offset: number = 0 )
+	{
+		super( offset )
+		this.time = Clock.Seconds( time ) * 1000
+	}
+
+
+	/**
+	 * The number of scheduled timers.
+	 *
+	 */
+	get pending()
+	{
+		return this.timers.size
+	}
+
+
+	/**
+	 * Set the current time.
+	 *
+	 * Timers due by the given time run in order. Moving the time backwards doesn't run any timer.
+	 *
+	 * @param	time The time. Numbers are expressed in seconds. @see {@link OTP.TOTP.Time}
+	 */
+	set( time: OTP.TOTP.Time )
+	{
+		const target = Clock.Seconds( time ) * 1000
+
+		if ( target < this.time ) {
+			this.time = target
+			return
+		}
+
+		this.run( target )
+	}
+
+
+	/**
+	 * Move the current time forward.
+	 *
+	 * Timers due by the new time run in order.
+	 *
+	 * @param	seconds The seconds to move the time forward by.
+	 */
+	advance( seconds: number )
+	{
+		this.run( this.time + Math.max( 0, seconds ) * 1000 )
+	}
+
+
+	/**
+	 * Schedule a callback.
+	 *
+	 * @param	callback	The callback to run.
+	 * @param	delay		The delay in milliseconds.
+	 * @returns	The timer handle.
+	 */
+	setTimeout( callback: () => void, delay: number )
+	{
+		const handle = ++this.handle
+
+		this.timers.set( handle, { at: this.time + Math.max( 0, delay ), callback } )
+
+		return handle
+	}
+
+
+	/**
+	 * Cancel a scheduled callback.
+	 *
+	 * @param	handle The timer handle returned by `setTimeout()`.
+	 */
+	clearTimeout( handle: unknown )
+	{
+		this.timers.delete( handle as number )
+	}
+
+
+	/**
+	 * Get the time source value, before the offset is applied.
+	 *
+	 * @returns	The time in milliseconds since the UNIX epoch.
+	 */
+	protected source()
+	{
+		return this.time
+	}
+
+
+	/**
+	 * Run the timers due by the given time, then set the current time.
+	 *
+	 * Timers scheduled by running timers run too if they are due by the given time.
+	 *
+	 * @param	target The time in milliseconds.
+	 */
+	private run( target: number )
+	{
+		for ( let next = this.next( target ); next; next = this.next( target ) ) {
+			const [ handle, { at, callback } ] = next
+
+			this.timers.delete( handle )
+			this.time = Math.max( this.time, at )
+			callback()
+		}
+
+		this.time = target
+	}
+
+
+	/**
+	 * Get the earliest timer due by the given time.
+	 *
+	 * Timers due at the same time run in the order they have been scheduled.
+	 *
+	 * @param	target The time in milliseconds.
+	 * @returns	The timer handle and the timer, `undefined` if no timer is due.
+	 */
+	private next( target: number )
+	{
+		let next: [ number, { at: number, callback: () => void } ] | undefined
+
+		for ( const entry of this.timers ) {
+			if ( entry[ 1 ].at <= target && ( ! next || entry[ 1 ].at < next[ 1 ].at ) ) next = entry
+		}
+
+		return next
+	}
+}
\ No newline at end of file
@@ -0,0 +1,372 @@
+import { Exception } from '@alessiofrittoli/exception'
+import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+
+import { Clock } from './Clock'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * Platform-neutral OTP helpers.
+ *
+ * Shared by the Node.js and the Web Crypto implementations. It only relies on `Uint8Array` so it can run in any runtime:
+ * platform specific dependencies (e.g. the random bytes source) are passed by the callers.
+ */
+export class Core
+{
+	/**
+	 * Defines the Steam Guard token alphabet.
+	 *
+	 */
+	static readonly SteamAlphabet = '23456789BCDFGHJKMNPQRTVWXY'
+	/**
+	 * Defines the Steam Guard token length.
+	 *
+	 */
+	static readonly SteamDigits = 5
+
+
+	/**
+	 * Converts a digest to a token of a specified length.
+	 *
+	 * @param	digest		The digest bytes.
+	 * @param	digits		The OTP token digits count ( usually 6 | 8 ).
+	 * @param	encoder		The token encoder. If set, `digits` and `alphabet` are ignored. @see {@link OTP.Encoder}
+	 * @param	alphabet	The token alphabet.
+	 *
+	 * [RFC 4226 - IETF](https://datatracker.ietf.org/doc/html/rfc4226#section-5.3)
+	 *
+	 * @returns	The OTP token.
+	 * @throws	{Exception} Throws a new Exception if the given alphabet is not valid or if digits exceed the supported range.
+	 */
+	static DigestToToken(
+		digest		: Uint8Array,
+		digits		: OTP.Digits,
+		encoder		: OTP.Encoder | undefined,
+		alphabet	: string,
+	)
+	{
+		const offset = digest[ digest.length - 1 ]! & 0xf
+		const binary = (
+			( ( digest[ offset ]! & 0x7f ) << 24 ) |
+			( ( digest[ offset + 1 ]! & 0xff ) << 16 ) |
+			( ( digest[ offset + 2 ]! & 0xff ) << 8 ) |
+			( digest[ offset + 3 ]! & 0xff )
+		)
+
+		if ( encoder === 'steam' ) {
+			let code	= binary
+			let token	= ''
+
+			for ( let i = 0; i < Core.SteamDigits; i++ ) {
+				token	+= Core.SteamAlphabet[ code % Core.SteamAlphabet.length ]
+				code	= Math.floor( code / Core.SteamAlphabet.length )
+			}
+
+			return token
+		}
+
+		const maxDigits = Core.MaxDigits( alphabet )
+
+		if ( ! Number.isInteger( digits ) || digits < 1 || digits > maxDigits ) {
+			throw new Exception( `Expected an integer between 1 and ${ maxDigits } digits, got \`${ digits }\`.`, {
+				code: ErrorCode.INVALID_DIGITS,
+			} )
+		}
+
+		/** Write ( binary % base ^ digits ) in base `alphabet.length`, most significant character first. */
+		let code	= binary
+		let token	= ''
+
+		for ( let i = 0; i < digits; i++ ) {
+			token	= alphabet[ code % alphabet.length ] + token
+			code	= Math.floor( code / alphabet.length )
+		}
+
+		return token
+	}
+
+
+	/**
+	 * Get the maximum token length supported by the 31-bit dynamic truncation for the given alphabet.
+	 *
+	 * This is the smallest length whose combinations cover all the 2^31 truncated values (e.g. 10 for decimal tokens, 8 for hexadecimal tokens).
+	 *
+	 * @param	alphabet The token alphabet.
+	 * @returns	The maximum token length.
+	 * @throws	{Exception} Throws a new Exception if the given alphabet has less than 2 characters or contains duplicates.
+	 */
+	static MaxDigits( alphabet: string )
+	{
+		if ( alphabet.length < 2 || new Set( alphabet ).size !== alphabet.length ) {
+			throw new Exception( 'The token alphabet must contain at least 2 unique characters.', {
+				code: ErrorCode.INVALID_ALPHABET,
+			} )
+		}
+
+		let digits = 1
+
+		while ( Math.pow( alphabet.length, digits ) < 0x80000000 ) digits++
+
+		return digits
+	}
+
+
+	/**
+	 * Get the expected token length.
+	 *
+	 * @param	digits	The OTP token digits count.
+	 * @param	encoder	( Optional ) The token encoder. If set, `digits` is ignored. @see {@link OTP.Encoder}
+	 *
+	 * @returns	The expected token length.
+	 */
+	static TokenLength( digits: OTP.Digits, encoder?: OTP.Encoder )
+	{
+		return encoder === 'steam' ? Core.SteamDigits : digits
+	}
+
+
+	/**
+	 * Check the given token against the token alphabet and the expected token length.
+	 *
+	 * @param	token		The OTP token.
+	 * @param	digits		The OTP token digits count.
+	 * @param	encoder		The token encoder. If set, `digits` and `alphabet` are ignored. @see {@link OTP.Encoder}
+	 * @param	alphabet	The token alphabet.
+	 *
+	 * @returns	The failed verification result, `undefined` if the token is well-formed. @see {@link OTP.CheckFailure}
+	 */
+	static TokenFailure( token: OTP.Token, digits: OTP.Digits, encoder: OTP.Encoder | undefined, alphabet: string ): OTP.CheckFailure | undefined
+	{
+		const _alphabet = encoder === 'steam' ? Core.SteamAlphabet : alphabet
+
+		/** Fail if token contains characters not included in the token alphabet */
+		if ( [ ...token ].some( char => ! _alphabet.includes( char ) ) ) return { valid: false, reason: 'malformed' }
+
+		/** Fail if token is not of correct length */
+		if ( token.length !== Core.TokenLength( digits, encoder ) ) return { valid: false, reason: 'length-mismatch' }
+	}
+
+
+	/**
+	 * Get the time used to calculate the TOTP counter value.
+	 *
+	 * @param	time	The time, if given. @see {@link OTP.TOTP.Time}
+	 * @param	clock	The time source used when no `time` is given. @see {@link OTP.TOTP.Clock}
+	 * @returns	The given `time`, or the `clock` current time, in seconds since the UNIX epoch.
+	 */
+	static Now( time: OTP.TOTP.Time | undefined, clock: OTP.TOTP.Clock )
+	{
+		return time != null ? Clock.Seconds( time ) : clock.now() / 1000
+	}
+
+
+	/**
+	 * Calculate the TOTP counter value of the given time.
+	 *
+	 * @param	time	The time in seconds since the UNIX epoch.
+	 * @param	period	The TOTP period in seconds.
+	 * @param	epoch	Initial time since the UNIX epoch from which to calculate the counter.
+	 * @returns	The calculated counter value.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
+	 */
+	static Counter( time: number, period: OTP.TOTP.Period, epoch: number )
+	{
+		Core.AssertPeriod( period )
+
+		return Math.floor( ( time * 1000 - epoch * 1000 ) / period / 1000 )
+	}
+
+
+	/**
+	 * Get the start of the time step following the given TOTP counter.
+	 *
+	 * @param	counter	The TOTP counter.
+	 * @param	period	The TOTP period in seconds.
+	 * @param	epoch	Initial time since the UNIX epoch from which the counter has been calculated.
+	 * @returns	A `Date` object representing the start of the next TOTP time step.
+	 */
+	static NextTick( counter: number, period: OTP.TOTP.Period, epoch: number )
+	{
+		return new Date( epoch * 1000 + ( counter + 1 ) * period * 1000 )
+	}
+
+
+	/**
+	 * Ensure the given period is a positive integer.
+	 *
+	 * @param	period The TOTP period in seconds.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
+	 */
+	static AssertPeriod( period: number )
+	{
+		if ( Number.isInteger( period ) && period > 0 ) return
+
+		throw new Exception( `Expected a positive integer period, got \`${ period }\`.`, {
+			code: ErrorCode.INVALID_PERIOD,
+		} )
+	}
+
+
+	/**
+	 * Get the stored clock drift estimate of the given credential.
+	 *
+	 * @param	options The drift options. @see {@link OTP.TOTP.DriftOptions}
+	 * @returns	The stored clock drift estimate, `0` if none has been recorded yet.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given smoothing factor is not between 0 (excluded) and 1.
+	 */
+	static Drift( options: OTP.TOTP.DriftOptions )
+	{
+		const { store, id, smoothing = 0.5 } = options
+
+		if ( ! ( smoothing > 0 && smoothing <= 1 ) ) {
+			throw new Exception( `Expected a smoothing factor between 0 (excluded) and 1, got \`${ smoothing }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return store.get( id ) ?? 0
+	}
+
+
+	/**
+	 * Complete a successful HOTP check of a TOTP token.
+	 *
+	 * Adds the matched time step validity and the delta relative to the unshifted counter and, if `drift` options are given,
+	 * records the updated clock drift estimate.
+	 *
+	 * @param	result		The successful HOTP check result. @see {@link OTP.CheckSuccess}
+	 * @param	counter		The expected time-step counter, not shifted by the drift estimate.
+	 * @param	estimate	The clock drift estimate the verification window has been centered on.
+	 * @param	period		The TOTP period in seconds.
+	 * @param	epoch		Initial time since the UNIX epoch from which the counter has been calculated.
+	 * @param	drift		( Optional ) The drift options. @see {@link OTP.TOTP.DriftOptions}
+	 * @returns	The TOTP verification result. @see {@link OTP.TOTP.CheckSuccess}
+	 */
+	static TotpSuccess(
+		result		: OTP.CheckSuccess,
+		counter		: number,
+		estimate	: number,
+		period		: OTP.TOTP.Period,
+		epoch		: number,
+		drift?		: OTP.TOTP.DriftOptions,
+	): OTP.TOTP.CheckSuccess
+	{
+		const { matchedCounter } = result
+
+		const delta		= matchedCounter - counter
+		const validity	= {
+			validFrom	: new Date( ( epoch + matchedCounter * period ) * 1000 ),
+			validUntil	: new Date( ( epoch + ( matchedCounter + 1 ) * period ) * 1000 ),
+		}
+
+		if ( ! drift ) return { ...result, ...validity, delta }
+
+		const { store, id, smoothing = 0.5 } = drift
+		const updated = estimate + smoothing * ( delta - estimate )
+
+		store.set( id, updated )
+
+		return { ...result, ...validity, delta, drift: updated }
+	}
+
+
+	/**
+	 * Get the recommended secret key length in bytes for the given hash algorithm.
+	 *
+	 * @param	algorithm The hash algorithm.
+	 * @returns	The hash algorithm output length in bytes.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALGORITHM` if the given algorithm is not supported.
+	 */
+	static KeyLength( algorithm: Algo.Hash )
+	{
+		switch ( algorithm ) {
+			case 'SHA-1': return 20
+			case 'SHA-256': return 32
+			case 'SHA-384': return 48
+			case 'SHA-512': return 64
+			default:
+				throw new Exception( `Unsupported algorithm \`${ algorithm }\`.`, {
+					code: ErrorCode.INVALID_ALGORITHM,
+				} )
+		}
+	}
+
+
+	/**
+	 * Get the number of ASCII characters needed to match the entropy of a random key of the given length.
+	 *
+	 * Each character drawn from a set of `n` characters carries `log2( n )` bits (about 5.95 bits for alphanumeric characters).
+	 *
+	 * @param	bytes	The random key length in bytes.
+	 * @param	symbols	( Optional ) Whether symbols are used or not. Default: `false`.
+	 * @returns	The number of characters.
+	 */
+	static ASCIILength( bytes: number, symbols: boolean = false )
+	{
+		return Math.ceil( bytes * 8 / Math.log2( Core.ASCIISet( symbols ).length ) )
+	}
+
+
+	/**
+	 * Generates a key of a certain length from A-Z, a-z, 0-9, and symbols (if requested).
+	 *
+	 * Characters are drawn with rejection sampling so every character has the same probability.
+	 *
+	 * @param	length	The lenght of the key.
+	 * @param	symbols	Whether to use symbols or not.
+	 * @param	random	The random bytes source.
+	 *
+	 * @returns	The generated key.
+	 */
+	static GenerateSecretASCII( length: number, symbols: boolean, random: ( size: number ) => Uint8Array )
+	{
+		return Core.RandomString( length, Core.ASCIISet( symbols ), random )
+	}
+
+
+	/**
+	 * Generates a random string of a certain length from the given characters set.
+	 *
+	 * Characters are drawn with rejection sampling so every character has the same probability.
+	 *
+	 * @param	length	The string length.
+	 * @param	set		The characters set. It must contain from 1 to 256 characters.
+	 * @param	random	The random bytes source.
+	 *
+	 * @returns	The generated string.
+	 */
+	static RandomString( length: number, set: string, random: ( size: number ) => Uint8Array )
+	{
+		/** The largest multiple of `set.length` that fits in a byte. Bytes above it are rejected. */
+		const limit = 256 - ( 256 % set.length )
+
+		let output = ''
+		while ( output.length < length ) {
+			const bytes = random( length - output.length )
+
+			for ( const byte of bytes ) {
+				if ( byte >= limit ) continue
+				output += set[ byte % set.length ]
+			}
+		}
+
+		return output
+	}
+
+
+	/**
+	 * Get the characters set used to generate ASCII keys.
+	 *
+	 * @param	symbols	Whether to include symbols or not.
+	 * @returns	The characters set.
+	 */
+	private static ASCIISet( symbols: boolean )
+	{
+		return (
+			'0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz' + (
+				symbols ? '!@#$%^&*()<>?/[]{},.:;' : ''
+			)
+		)
+	}
+}
\ No newline at end of file
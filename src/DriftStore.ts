@@ -0,0 +1,52 @@
+import type { OTP } from './types'
+
+
+/**
+ * In-memory drift store.
+ *
+ * Records the clock drift estimate of each credential in the current process.
+ * Implement {@link OTP.TOTP.DriftStore} with a synchronous persistent store (e.g. a local file) to keep estimates across restarts.
+ */
+export class MemoryDriftStore implements OTP.TOTP.DriftStore
+{
+	/**
+	 * The recorded drift estimates, indexed by credential ID.
+	 *
+	 */
+	private entries = new Map<string, number>()
+
+
+	/**
+	 * Get the clock drift estimate of the given credential.
+	 *
+	 * @param	id The credential ID.
+	 * @returns	The clock drift estimate in time steps, `undefined` if none has been recorded yet.
+	 */
+	get( id: string )
+	{
+		return this.entries.get( id )
+	}
+
+
+	/**
+	 * Record the clock drift estimate of the given credential.
+	 *
+	 * @param	id		The credential ID.
+	 * @param	drift	The clock drift estimate in time steps.
+	 */
+	set( id: string, drift: number )
+	{
+		this.entries.set( id, drift )
+	}
+
+
+	/**
+	 * Remove the clock drift estimate of the given credential.
+	 *
+	 * @param	id The credential ID.
+	 */
+	delete( id: string )
+	{
+		this.entries.delete( id )
+	}
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { Exception } from '@alessiofrittoli/exception'
+import { Otp } from './Otp'
+import { Totp } from './Totp'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * TOTP enrollment ceremony.
+ *
+ * A pending enrollment holds a new secret key and its otpauth URL until the user confirms it
+ * by typing a valid token. Confirmed enrollments yield an active credential record.
+ */
+export class Enrollment
+{
+	/**
+	 * The default number of seconds a pending enrollment can be confirmed within.
+	 *
+	 */
+	static TTL = 600
+	/**
+	 * The default number of time-step counter values to check before and after the expected counter.
+	 *
+	 */
+	static Window = 1
+
+
+	/**
+	 * Start a new enrollment.
+	 *
+	 * @param	options The StartOptions object. @see {@link OTP.ENROLLMENT.StartOptions}
+	 * @returns	The pending enrollment. @see {@link OTP.ENROLLMENT.Pending}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given ttl is not a positive number.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
+	 */
+	static Start( options: OTP.ENROLLMENT.StartOptions ): OTP.ENROLLMENT.Pending
+	{
+		const {
+			label, issuer, secret, algorithm, digits = Totp.Digits, encoder, alphabet = Totp.Alphabet,
+			period = Totp.Period, epoch = 0, window = Enrollment.Window, ttl = Enrollment.TTL, clock, ...vendor
+		} = options
+
+		const time = options.time ?? Totp.Now( { clock } )
+
+		if ( ! ( ttl > 0 ) ) {
+			throw new Exception( `Expected a positive enrollment ttl, got \`${ ttl }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		const credential = {
+			secret: (
+				secret
+					? { key: secret.key, encoding: secret.encoding ?? Otp.Encoding, algorithm: secret.algorithm ?? Otp.Algorithm }
+					: Otp.GenerateSecret( { algorithm } )
+			),
+			digits, encoder, alphabet, period, epoch, window,
+		}
+
+		return {
+			...credential, label, issuer,
+			url			: new Totp( credential ).authURL( { ...vendor, label, issuer } ),
+			createdAt	: time,
+			expiresAt	: time + ttl,
+		}
+	}
+
+
+	/**
+	 * Confirm a pending enrollment.
+	 *
+	 * The token is verified with `Totp.GetDelta()` within the pending enrollment window.
+	 * If the `next` token is given too, it must match the time step right after the one matched by `token`, within the window.
+	 *
+	 * @param	pending The pending enrollment. @see {@link OTP.ENROLLMENT.Pending}
+	 * @param	options The ConfirmOptions object. @see {@link OTP.ENROLLMENT.ConfirmOptions}
+	 * @returns	The active credential, null if the given tokens are not valid. @see {@link OTP.ENROLLMENT.Credential}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.ENROLLMENT_EXPIRED` if the pending enrollment has expired.
+	 */
+	static Confirm( pending: OTP.ENROLLMENT.Pending, options: OTP.ENROLLMENT.ConfirmOptions ): OTP.ENROLLMENT.Credential | null
+	{
+		const { token, next, clock } = options
+		const time = options.time ?? Totp.Now( { clock } )
+
+		if ( Enrollment.IsExpired( pending, time ) ) {
+			throw new Exception( 'The pending enrollment has expired.', {
+				code: ErrorCode.ENROLLMENT_EXPIRED,
+			} )
+		}
+
+		const { secret, digits, encoder, alphabet, period, epoch, window, label, issuer } = pending
+
+		const totp		= { secret, digits, encoder, alphabet, period, epoch }
+		const delta		= Totp.GetDelta( { ...totp, window, time, token } )
+
+		if ( delta == null ) return null
+
+		const drift = next != null ? delta + 1 : delta
+
+		if (
+			next != null
+			&& ( drift > window || Totp.GetDelta( { ...totp, window: 0, time: time + drift * period, token: next } ) == null )
+		) return null
+
+		return {
+			secret, digits, encoder, alphabet, period, epoch, window, label, issuer, drift,
+			counter		: Totp.Counter( { period, epoch, time } ) + drift,
+			confirmedAt	: time,
+		}
+	}
+
+
+	/**
+	 * Check whether a pending enrollment has expired.
+	 *
+	 * @param	pending The pending enrollment. @see {@link OTP.ENROLLMENT.Pending}
+	 * @param	time	( Optional ) Time in seconds. Default: `Totp.Now()`.
+	 * @returns	True if the pending enrollment has expired, false otherwise.
+	 */
+	static IsExpired( pending: OTP.ENROLLMENT.Pending, time: number = Totp.Now() )
+	{
+		return time >= pending.expiresAt
+	}
+}
\ No newline at end of file
@@ -0,0 +1,232 @@
+import fs from 'fs'
+import path from 'path'
+import { createHmac } from 'crypto'
+
+import { Exception } from '@alessiofrittoli/exception'
+import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+import type { Variant } from '@alessiofrittoli/crypto-encoder/Base32'
+
+import { Otp } from './Otp'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * Local file-based key store.
+ *
+ * Reference signer implementation standing in for an HSM or a KMS: secret keys are stored in the given directory
+ * and the signers it creates compute HMAC digests without exposing the secret key to the caller.
+ * Each key is stored as `<key ID>.json` and read on each signature, like a remote key-management call would.
+ *
+ * ⚠️ Secret keys are stored unencrypted. Use it for development and testing only. ⚠️
+ */
+export class FileKeyStore
+{
+	/**
+	 * The directory where secret keys are stored.
+	 *
+	 */
+	readonly directory: string
+
+
+	/**
+	 * Constructs a new `FileKeyStore` instance.
+	 *
+	 * @param	directory The directory where secret keys are stored. It is created if it doesn't exist.
+	 */
+	constructor( directory: string )
+	{
+		this.directory = path.resolve( directory )
+
+		fs.mkdirSync( this.directory, { recursive: true, mode: 0o700 } )
+	}
+
+
+	/**
+	 * Import a secret key into the store.
+	 *
+	 * An existing key with the same ID gets replaced.
+	 *
+	 * @param	id		The key ID.
+	 * @param	secret	The secret to import. @see {@link OTP.Secret}
+	 * @param	variant	( Optional ) The Base32 encoding variant used to decode `base32` secrets. Default: `Otp.Base32Variant`.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the key ID is not valid.
+	 */
+	import( id: string, secret: OTP.Secret, variant: Variant = Otp.Base32Variant )
+	{
+		const { hmacKey, algorithm } = Otp.PrepareKey( secret, variant )
+
+		fs.writeFileSync(
+			this.file( id ), JSON.stringify( { key: hmacKey.export().toString( 'hex' ), algorithm } ), { mode: 0o600 }
+		)
+	}
+
+
+	/**
+	 * Check whether a secret key is in the store.
+	 *
+	 * @param	id The key ID.
+	 * @returns	True if the secret key is in the store, false otherwise.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the key ID is not valid.
+	 */
+	has( id: string )
+	{
+		return fs.existsSync( this.file( id ) )
+	}
+
+
+	/**
+	 * Remove a secret key from the store.
+	 *
+	 * @param	id The key ID.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the key ID is not valid.
+	 */
+	delete( id: string )
+	{
+		fs.rmSync( this.file( id ), { force: true } )
+	}
+
+
+	/**
+	 * Get a synchronous signer bound to the given secret key.
+	 *
+	 * @param	id The key ID.
+	 * @returns	The signer. @see {@link OTP.Signer}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.NOT_FOUND` if the secret key is not in the store.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the key ID is not valid.
+	 */
+	signer( id: string ): OTP.Signer
+	{
+		const file			= this.file( id )
+		const read			= () => fs.readFileSync( file, 'utf8' )
+		const { algorithm }	= FileKeyStore.Parse( id, read )
+
+		return {
+			algorithm,
+			sign: ( algorithm, counter ) => (
+				FileKeyStore.Sign( FileKeyStore.Parse( id, read ), algorithm, counter )
+			),
+		}
+	}
+
+
+	/**
+	 * Get an asynchronous signer bound to the given secret key.
+	 *
+	 * Asynchronous signers are supported by the Web Crypto implementation only: the Node.js implementation throws a new Exception with `ErrorCode.ASYNC_SIGNER` code.
+	 *
+	 * @param	id The key ID.
+	 * @returns	A new Promise resolved with the signer. @see {@link OTP.AsyncSigner}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.NOT_FOUND` if the secret key is not in the store.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the key ID is not valid.
+	 */
+	async asyncSigner( id: string ): Promise<OTP.AsyncSigner>
+	{
+		const file			= this.file( id )
+		const read			= () => fs.promises.readFile( file, 'utf8' )
+		const { algorithm }	= await FileKeyStore.ParseAsync( id, read )
+
+		return {
+			algorithm,
+			sign: async ( algorithm, counter ) => (
+				FileKeyStore.Sign( await FileKeyStore.ParseAsync( id, read ), algorithm, counter )
+			),
+		}
+	}
+
+
+	/**
+	 * Get the file path of the given secret key.
+	 *
+	 * @param	id The key ID.
+	 * @returns	The secret key file path.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the key ID is not valid.
+	 */
+	private file( id: string )
+	{
+		if ( ! /^[\w-]+$/.test( id ) ) {
+			throw new Exception( `Invalid key ID \`${ id }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return path.join( this.directory, `${ id }.json` )
+	}
+
+
+	/**
+	 * Compute the HMAC digest of the given counter bytes with a stored secret key.
+	 *
+	 * @param	record		The stored secret key.
+	 * @param	algorithm	The requested hash algorithm.
+	 * @param	counter		The counter bytes.
+	 * @returns	The HMAC digest Buffer.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALGORITHM` if the requested algorithm doesn't match the secret key algorithm.
+	 */
+	private static Sign( record: OTP.KEYSTORE.Record, algorithm: Algo.Hash, counter: Uint8Array )
+	{
+		if ( algorithm !== record.algorithm ) {
+			throw new Exception( `The secret key cannot be used with the \`${ algorithm }\` algorithm.`, {
+				code: ErrorCode.INVALID_ALGORITHM,
+			} )
+		}
+
+		return (
+			createHmac( algorithm.replace( '-', '' ).toLowerCase(), Buffer.from( record.key, 'hex' ) )
+				.update( counter )
+				.digest()
+		)
+	}
+
+
+	/**
+	 * Read and parse a stored secret key.
+	 *
+	 * @param	id		The key ID.
+	 * @param	read	A function reading the secret key file content.
+	 * @returns	The stored secret key.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.NOT_FOUND` if the secret key is not in the store.
+	 */
+	private static Parse( id: string, read: () => string ): OTP.KEYSTORE.Record
+	{
+		try {
+			return JSON.parse( read() )
+		} catch ( error ) {
+			throw FileKeyStore.NotFound( id, error )
+		}
+	}
+
+
+	/**
+	 * Asynchronously read and parse a stored secret key.
+	 *
+	 * @param	id		The key ID.
+	 * @param	read	A function reading the secret key file content.
+	 * @returns	A new Promise resolved with the stored secret key.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.NOT_FOUND` if the secret key is not in the store.
+	 */
+	private static async ParseAsync( id: string, read: () => Promise<string> ): Promise<OTP.KEYSTORE.Record>
+	{
+		try {
+			return JSON.parse( await read() )
+		} catch ( error ) {
+			throw FileKeyStore.NotFound( id, error )
+		}
+	}
+
+
+	/**
+	 * Create the exception thrown when a secret key cannot be read.
+	 *
+	 * @param	id		The key ID.
+	 * @param	cause	The original error.
+	 * @returns	The exception.
+	 */
+	private static NotFound( id: string, cause: unknown )
+	{
+		return new Exception( `The secret key \`${ id }\` is not in the key store.`, {
+			code	: ErrorCode.NOT_FOUND,
+			cause	: cause,
+		} )
+	}
+}
\ No newline at end of file
@@ -1,26 +1,190 @@
-import { timingSafeEqual } from 'crypto'
+import { createHmac, timingSafeEqual } from 'crypto'
 import { Exception } from '@alessiofrittoli/exception'
-import { ErrorCode } from '@alessiofrittoli/exception/code'
+import { Base32, type Variant } from '@alessiofrittoli/crypto-encoder/Base32'
 import { Otp } from './Otp'
+import { SealedSecret } from './SealedSecret'
+import { Core } from './Core'
+import { Validation } from './Validation'
+import { ErrorCode } from './error'
 import type { OTP } from './types'
 
 
 /**
  * HMAC-Based One-Time Password.
  * 
+ * Use the static methods for one-off operations or create a `Hotp` instance to bind a credential configuration.
+ * 
  * [RFC 4226 - IETF](https://datatracker.ietf.org/doc/html/rfc4226)
  */
 export class Hotp extends Otp
 {
+	/**
+	 * The token digits count.
+	 * 
+	 */
+	readonly digits: OTP.Digits
+	/**
+	 * The token encoder.
+	 * 
+	 */
+	readonly encoder?: OTP.Encoder
+	/**
+	 * The token alphabet.
+	 * 
+	 */
+	readonly alphabet: string
+	/**
+	 * The number of counter values to check ahead of the expected counter during verification.
+	 * 
+	 */
+	readonly window: number
+	/**
+	 * The Base32 encoding variant.
+	 * 
+	 */
+	readonly base32Variant: Variant
+	/**
+	 * The minimum decoded secret key length in bits.
+	 * 
+	 */
+	readonly minSecretBits: number
+	/**
+	 * The prepared key, or the sealed secret options.
+	 * 
+	 */
+	private readonly secret: OTP.PreparedKey | OTP.SEALED.Options
+
+
+	/**
+	 * Constructs a new `Hotp` instance.
+	 * 
+	 * @param	config The HOTP configuration. @see {@link OTP.HOTP.Config}
+	 */
+	constructor( config: OTP.HOTP.Config )
+	{
+		super()
+
+		const {
+			secret, digits = Hotp.Digits, encoder, alphabet = Hotp.Alphabet,
+			window = 0, base32Variant = Hotp.Base32Variant, minSecretBits = Validation.MinSecretBits,
+		} = config
+
+		this.digits			= digits
+		this.encoder		= encoder
+		this.alphabet		= alphabet
+		this.window			= window
+		this.base32Variant	= base32Variant
+		this.minSecretBits	= minSecretBits
+		this.secret			= (
+			'sealed' in secret
+				? secret
+				: Hotp.PrepareKey( { key: secret.key, encoding: secret.encoding ?? Hotp.Encoding, algorithm: secret.algorithm ?? Hotp.Algorithm }, base32Variant, minSecretBits )
+		)
+	}
+
+
+	/**
+	 * Generates the HOTP token for the given counter.
+	 * 
+	 * @param	counter ( Optional ) The HOTP counter. Default: `0`.
+	 * @returns	The HOTP token.
+	 */
+	token( counter: number = 0 )
+	{
+		return Hotp.GetToken( { ...this.options(), counter } )
+	}
+
+
+	/**
+	 * Check a HOTP token against the given counter.
+	 * 
+	 * @param	token	The HOTP token to verify.
+	 * @param	counter	( Optional ) The expected HOTP counter. Default: `0`.
+	 * @returns	The verification result. @see {@link OTP.CheckResult}
+	 */
+	check( token: OTP.Token, counter: number = 0 )
+	{
+		return Hotp.Check( { ...this.options(), token, counter, window: this.window } )
+	}
+
+
+	/**
+	 * Get the HOTP token delta from the given counter.
+	 * 
+	 * @param	token	The HOTP token to verify.
+	 * @param	counter	( Optional ) The expected HOTP counter. Default: `0`.
+	 * @returns	The delta number, null otherwise.
+	 */
+	delta( token: OTP.Token, counter: number = 0 )
+	{
+		const result = this.check( token, counter )
+
+		return result.valid ? result.delta : null
+	}
+
+
+	/**
+	 * Verify a HOTP token.
+	 * 
+	 * @param	token	The HOTP token to verify.
+	 * @param	counter	( Optional ) The expected HOTP counter. Default: `0`.
+	 * @returns	True if the given HOTP token is valid, false otherwise.
+	 */
+	verify( token: OTP.Token, counter: number = 0 )
+	{
+		return this.delta( token, counter ) != null
+	}
+
+
+	/**
+	 * Get the otpauth URL string.
+	 * 
+	 * @param	options The otpauth URL options. @see {@link OTP.HOTP.AuthURLOptions}
+	 * @returns	The otpauth URL string.
+	 */
+	authURL( options: OTP.HOTP.AuthURLOptions )
+	{
+		const { secret: { hmacKey, algorithm }, ...rest } = this.options()
+
+		return Hotp.AuthURL( {
+			...rest, ...options, counter: options.counter ?? 0,
+			secret: { key: Base32.encode( hmacKey.export(), this.base32Variant ), encoding: 'base32', algorithm },
+		} )
+	}
+
+
+	/**
+	 * Get the static methods options.
+	 * 
+	 * Plain secrets are decoded once when the instance is created, sealed secrets are opened and decoded on each call,
+	 * so the static defaults are never used.
+	 * 
+	 * @returns	The HOTP options.
+	 */
+	private options()
+	{
+		return {
+			secret		: (
+				'sealed' in this.secret
+					? Hotp.PrepareKey( SealedSecret.Open( this.secret.sealed, this.secret.keyring ), this.base32Variant, this.minSecretBits )
+					: this.secret
+			),
+			digits		: this.digits,
+			encoder		: this.encoder,
+			alphabet	: this.alphabet,
+		}
+	}
+
+
 	/**
 	 * Verify a HOTP token.
 	 * 
 	 * @param	options The HOTP options. @see {@link OTP.HOTP.GetDeltaOptions}
 	 * @returns	True if the given HOTP token is valid, false otherwise.
 	 */
-	static Verify( options: OTP.HOTP.GetDeltaOptions )
+	static Verify( options: OTP.Preparable<OTP.HOTP.GetDeltaOptions> )
 	{
-		return Hotp.GetDelta( options ) != null
+		return Hotp.Check( options ).valid
 	}
 
 
@@ -32,7 +196,7 @@ export class Hotp extends Otp
 	 * @param	options The HOTP options. @see {@link OTP.HOTP.GetDeltaOptions}
 	 * @returns	The delta number, null otherwise.
 	 */
-	static GetDelta( options: OTP.HOTP.GetDeltaOptions ): number | null
+	static GetDelta( options: OTP.Preparable<OTP.HOTP.GetDeltaOptions> ): number | null
 	
 	
 	/**
@@ -43,7 +207,7 @@ export class Hotp extends Otp
 	 * @param	options The TOTP options. @see {@link OTP.TOTP.GetDeltaOptions}
 	 * @returns	The delta number, null otherwise.
 	 */
-	static GetDelta( options: OTP.HOTP.GetDeltaOptions, twoSidedWindow?: boolean ): number | null
+	static GetDelta( options: OTP.Preparable<OTP.HOTP.GetDeltaOptions>, twoSidedWindow?: boolean ): number | null
 	
 	
 	/**
@@ -57,7 +221,27 @@ export class Hotp extends Otp
 	 * 							⚠️ This flag is provisioned for TOTP use only! ⚠️
 	 * @returns	The delta number, null otherwise.
 	 */
-	static GetDelta( options: OTP.HOTP.GetDeltaOptions, twoSidedWindow: boolean = false ): number | null
+	static GetDelta( options: OTP.Preparable<OTP.HOTP.GetDeltaOptions>, twoSidedWindow: boolean = false ): number | null
+	{
+		const result = Hotp.Check( options, twoSidedWindow )
+
+		return result.valid ? result.delta : null
+	}
+
+
+	/**
+	 * Check an OTP token.
+	 * 
+	 * Unlike `Hotp.Verify()` and `Hotp.GetDelta()`, the result tells why the verification failed or which counter the token matched.
+	 * 
+	 * @param	options			The HOTP options. @see {@link OTP.HOTP.GetDeltaOptions}
+	 * @param	twoSidedWindow	( Optional ) If set to `true` the function will check codes in the future against the provided passcode, e.g. if window = 10, and counter = 5,
+	 * 							this function will check the passcode against all One Time Passcodes between (counter - window) and (counter + window), inclusive.
+	 * 							⚠️ This flag is provisioned for TOTP use only! ⚠️
+	 * @returns	The verification result. @see {@link OTP.CheckResult}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.EMPTY_VALUE` if no token has been provided.
+	 */
+	static Check( options: OTP.Preparable<OTP.HOTP.GetDeltaOptions>, twoSidedWindow: boolean = false ): OTP.CheckResult
 	{
 		const { token } = options
 
@@ -68,8 +252,11 @@ export class Hotp extends Otp
 		}
 
 		const {
-			counter = 0, window = 0, digits = Hotp.Digits, ...rest
+			counter = 0, window = 0, digits = Hotp.Digits, encoder, alphabet = Hotp.Alphabet,
 		} = options
+
+		/** Decode the secret key once for the whole window */
+		const key = Hotp.Prepare( options.secret, options.minSecretBits )
 		
 		const _counter = (
 			! twoSidedWindow
@@ -81,35 +268,87 @@ export class Hotp extends Otp
 				? window
 				: window * 2
 		)
-	
-		/** Fail if token is not of correct length */
-		if ( token.length !== digits ) return null
-		
+
+		/** Fail if token is malformed or not of correct length */
+		const failure = Core.TokenFailure( token, digits, encoder, alphabet )
+
+		if ( failure ) return failure
+
 		/** Loop from counter to ( counter + window ) inclusive */
 		for ( let i = _counter; i <= _counter + _window; ++i ) {
 
 			const _token = (
-				Hotp.GetToken( { ...rest, digits, counter: i } )
+				Hotp.DigestToToken( Hotp.Sign( key, i ), digits, encoder, alphabet )
 			)
 			
+			const a = Buffer.from( _token )
+			const b = Buffer.from( token )
+
 			const isValid = (
-				timingSafeEqual( Buffer.from( _token ), Buffer.from( token ) )
+				a.length === b.length && timingSafeEqual( a, b )
 			)
 
 			if ( isValid ) {
 
 				const delta = i - _counter
 				
-				return (
-					! twoSidedWindow
-						? delta
-						: delta - window
-				)
+				return {
+					valid			: true,
+					delta			: ! twoSidedWindow ? delta : delta - window,
+					matchedCounter	: i,
+				}
 
 			}
 
 		}
 	
+		return { valid: false, reason: 'no-match' }
+	}
+
+
+	/**
+	 * Resynchronize the HOTP counter using consecutive tokens.
+	 * 
+	 * Searches a large look-ahead window for the first given token and accepts it only if the following tokens
+	 * match the following counters, as recommended in [RFC 4226, section 7.4](https://datatracker.ietf.org/doc/html/rfc4226#section-7.4).
+	 * 
+	 * @param	options The HOTP resync options. @see {@link OTP.HOTP.ResyncOptions}
+	 * @returns	The new counter to store (the counter following the last given token) if the tokens match consecutive counters, null otherwise.
+	 */
+	static Resync( options: OTP.Preparable<OTP.HOTP.ResyncOptions> ): number | null
+	{
+		const {
+			tokens, counter = 0, window = 1000, digits = Hotp.Digits, encoder, ...rest
+		} = options
+
+		if ( ! tokens?.length ) {
+			throw new Exception( 'No tokens have been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		if ( tokens.length < 2 || tokens.length > 3 ) {
+			throw new Exception( 'Two or three consecutive tokens are required.', {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		/** Fail if any token is not of correct length */
+		if ( tokens.some( token => token.length !== Hotp.TokenLength( digits, encoder ) ) ) return null
+
+		const secret = Hotp.Prepare( options.secret, options.minSecretBits )
+
+		/** Loop from counter to ( counter + window ) inclusive */
+		for ( let i = counter; i <= counter + window; ++i ) {
+
+			const consecutive = tokens.every( ( token, index ) => (
+				Hotp.GetDelta( { ...rest, secret, digits, encoder, token, counter: i + index } ) === 0
+			) )
+
+			if ( consecutive ) return i + tokens.length
+
+		}
+
 		return null
 	}
 
@@ -120,13 +359,13 @@ export class Hotp extends Otp
 	 * @param	options The HOTP options. @see {@link OTP.HOTP.GetTokenOptions}
 	 * @returns	The HOTP token.
 	 */
-	static GetToken( options: OTP.HOTP.GetTokenOptions )
+	static GetToken( options: OTP.Preparable<OTP.HOTP.GetTokenOptions> )
 	{
-		const { digits = Hotp.Digits } = options
+		const { digits = Hotp.Digits, encoder, alphabet } = options
 
 		return (
 			Hotp.DigestToToken(
-				Hotp.Digest( options ), digits
+				Hotp.Digest( options ), digits, encoder, alphabet
 			)
 		)
 	}
@@ -138,22 +377,95 @@ export class Hotp extends Otp
 	 * @param	options The HOTP options. @see {@link OTP.HOTP.GetTokenOptions}
 	 * @returns The HMAC digest Buffer.
 	 */
-	static Digest( options: Omit<OTP.HOTP.GetTokenOptions, 'digits'> ): Buffer
+	static Digest( options: Omit<OTP.Preparable<OTP.HOTP.GetTokenOptions>, 'digits'> ): Buffer
 	{
-		const {
-			counter = 0,
-			secret: { key, algorithm = Hotp.Algorithm, encoding = Hotp.Encoding }
-		} = options
+		const { counter = 0 } = options
+
+		return Hotp.Sign( Hotp.Prepare( options.secret, options.minSecretBits ), counter )
+	}
+
+
+	/**
+	 * Generates a HMAC digest of the given counter with a prepared key or a signer.
+	 *
+	 * @param	key		The prepared key or the signer. @see {@link OTP.PreparedKey} @see {@link OTP.Signer}
+	 * @param	counter	The HOTP counter.
+	 * @returns The HMAC digest Buffer.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.ASYNC_SIGNER` if the signer returns a Promise. Use the Web Crypto implementation with asynchronous signers.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_DIGEST` if the signer doesn't return a `Uint8Array` of the hash algorithm output length.
+	 */
+	static Sign( key: OTP.PreparedKey | OTP.Signer, counter: number ): Buffer
+	{
+		if ( 'sign' in key ) {
+			const algorithm			= key.algorithm ?? Hotp.Algorithm
+			const digest: unknown	= key.sign( algorithm, Hotp.CounterBytes( counter ) )
+
+			if ( digest instanceof Promise ) {
+				/** The digest is never awaited: prevent its rejection from going unhandled. */
+				digest.catch( () => undefined )
+
+				throw new Exception( 'Asynchronous signers are supported by the Web Crypto implementation only.', {
+					code: ErrorCode.ASYNC_SIGNER,
+				} )
+			}
+
+			return Buffer.from( Validation.Digest( digest, algorithm ) )
+		}
+
+		const { hmacKey, algorithm } = key
 
 		return (
-			Hotp.createDigest(
-				algorithm,
-				Hotp.HmacKey( key, encoding ), Hotp.Counter( counter )
-			)
+			createHmac( algorithm.replace( '-', '' ).toLowerCase(), hmacKey )
+				.update( Hotp.CounterBytes( counter ) )
+				.digest()
 		)
 	}
 
 
+	/**
+	 * Open the given secret if sealed and decode it into a prepared key.
+	 *
+	 * Prepared keys and signers are returned as they are.
+	 *
+	 * @param	secret			The secret, the sealed secret options, a prepared key or a signer.
+	 * @param	minSecretBits	( Optional ) The minimum decoded secret key length in bits. Default: `Validation.MinSecretBits`.
+	 * @returns	The prepared key or the signer. @see {@link OTP.PreparedKey} @see {@link OTP.Signer}
+	 */
+	protected static Prepare( secret: OTP.Secret | OTP.SEALED.Options | OTP.PreparedKey | OTP.Signer, minSecretBits: number = Validation.MinSecretBits ): OTP.PreparedKey | OTP.Signer
+	{
+		if ( 'hmacKey' in secret || 'sign' in secret ) return secret
+
+		const {
+			key, algorithm = Hotp.Algorithm, encoding = Hotp.Encoding,
+		} = 'sealed' in secret ? SealedSecret.Open( secret.sealed, secret.keyring ) : secret
+
+		return Hotp.PrepareKey( { key, algorithm, encoding }, Hotp.Base32Variant, minSecretBits )
+	}
+
+
+	/**
+	 * Encodes a given counter as 8 bytes big-endian integer.
+	 *
+	 * Counters which are not non-negative safe integers fall back to the formatted counter string for backward compatibility.
+	 *
+	 * @param	counter The HOTP counter.
+	 * @returns	The counter Buffer.
+	 */
+	static CounterBytes( counter: number )
+	{
+		if ( ! Number.isSafeInteger( counter ) || counter < 0 ) {
+			return Buffer.from( Hotp.Counter( counter ), 'hex' )
+		}
+
+		const bytes = Buffer.alloc( 8 )
+
+		bytes.writeUInt32BE( Math.floor( counter / 0x100000000 ), 0 )
+		bytes.writeUInt32BE( counter % 0x100000000, 4 )
+
+		return bytes
+	}
+
+
 	/**
 	 * Formats a given counter into a string counter.
 	 *
@@ -177,6 +489,7 @@ export class Hotp extends Otp
 	 * 
 	 * @param	options The AuthURLOptions object.
 	 * @returns	The otpauth URL string.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the vendor options are not valid.
 	 */
 	static AuthURL( options: Omit<OTP.AuthURLOptions<'hotp'>, 'type'> )
 	{
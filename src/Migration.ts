@@ -0,0 +1,389 @@
+import crypto from 'crypto'
+
+import { Exception } from '@alessiofrittoli/exception'
+import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+import { Base32 } from '@alessiofrittoli/crypto-encoder/Base32'
+
+import { Otp } from './Otp'
+import { ProtobufReader, ProtobufWriter, WireType } from './protobuf'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * `MigrationPayload.Algorithm` enum values.
+ *
+ */
+const Algorithms: Partial<Record<number, Algo.Hash>> = {
+	0: 'SHA-1', 1: 'SHA-1', 2: 'SHA-256', 3: 'SHA-512',
+}
+
+
+/**
+ * `MigrationPayload.DigitCount` enum values.
+ *
+ */
+const DigitCounts: Partial<Record<number, OTP.Digits>> = {
+	0: 6, 1: 6, 2: 8,
+}
+
+
+/**
+ * `MigrationPayload.OtpType` enum values.
+ *
+ */
+const Types: Partial<Record<number, OTP.Type>> = {
+	1: 'hotp', 2: 'totp',
+}
+
+
+/**
+ * Google Authenticator "Transfer accounts" import/export.
+ *
+ * Migration URIs (`otpauth-migration://offline?data=`) carry a base64 encoded `MigrationPayload` protobuf message
+ * which holds a list of `OtpParameters` ( secret, name, issuer, algorithm, digits, type and counter ) and the batch info.
+ */
+export class Migration
+{
+	/**
+	 * The default maximum number of credentials stored in each migration URI.
+	 *
+	 */
+	static BatchSize = 10
+
+
+	/**
+	 * Import credentials from one or more migration URIs.
+	 *
+	 * If the export has been split into multiple batches, all of them must be given.
+	 * Credentials which cannot be decoded ( e.g. unsupported parameters or malformed labels ) are skipped and reported in `errors`.
+	 *
+	 * @param	urls The migration URI or the list of migration URIs of the same export.
+	 * @returns	The imported credentials, ordered by batch index, and the errors of the skipped credentials. @see {@link OTP.MIGRATION.ImportResult}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PAYLOAD` if batches belong to different exports, are duplicated or missing.
+	 */
+	static Import( urls: string | URL | ( string | URL )[] ): OTP.MIGRATION.ImportResult
+	{
+		const batches = ( Array.isArray( urls ) ? urls : [ urls ] )
+			.map( url => Migration.Decode( url ) )
+			.sort( ( a, b ) => a.batchIndex - b.batchIndex )
+
+		const first = batches[ 0 ]
+
+		if ( ! first ) {
+			throw new Exception( 'No migration URI has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		batches.forEach( ( batch, index ) => {
+			if ( batch.batchId !== first.batchId ) {
+				throw new Exception( 'The given migration URIs belong to different exports.', {
+					code: ErrorCode.INVALID_PAYLOAD,
+				} )
+			}
+
+			if ( batch.batchIndex !== index || batch.batchSize !== batches.length ) {
+				throw new Exception( `Expected ${ batch.batchSize } distinct batches, got batch ${ batch.batchIndex } at position ${ index } of ${ batches.length }.`, {
+					code: ErrorCode.INVALID_PAYLOAD,
+				} )
+			}
+		} )
+
+		return {
+			entries	: batches.flatMap( batch => batch.entries ),
+			errors	: batches.flatMap( batch => batch.errors ),
+		}
+	}
+
+
+	/**
+	 * Decode a single migration URI.
+	 *
+	 * Credentials which cannot be decoded are skipped and reported in the batch `errors`.
+	 *
+	 * @param	url The migration URI.
+	 * @returns	The decoded batch. @see {@link OTP.MIGRATION.Batch}
+	 * @throws	{Exception} Throws a new Exception if the URI or the payload is malformed.
+	 */
+	static Decode( url: string | URL ): OTP.MIGRATION.Batch
+	{
+		let _url: URL
+
+		try {
+			_url = new URL( url )
+		} catch ( error ) {
+			throw new Exception( 'The given migration URI is not a valid URL.', {
+				code	: ErrorCode.INVALID_URL,
+				cause	: error,
+			} )
+		}
+
+		if ( _url.protocol !== 'otpauth-migration:' || _url.hostname !== 'offline' ) {
+			throw new Exception( `Expected \`otpauth-migration://offline\` URI, got \`${ _url.protocol }//${ _url.hostname }\`.`, {
+				code: ErrorCode.INVALID_PROTOCOL,
+			} )
+		}
+
+		/** `URLSearchParams` decodes unescaped `+` characters as spaces. */
+		const data = _url.searchParams.get( 'data' )?.replace( / /g, '+' )
+
+		if ( ! data ) {
+			throw new Exception( 'No migration data has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const reader = new ProtobufReader( Buffer.from( data, 'base64' ) )
+		const batch: OTP.MIGRATION.Batch = {
+			entries: [], errors: [], version: 0, batchSize: 1, batchIndex: 0, batchId: 0,
+		}
+		const errors: Omit<OTP.MIGRATION.EntryError, 'batchIndex'>[] = []
+		let index = 0
+
+		while ( ! reader.done ) {
+			const { field, wireType } = reader.tag()
+
+			if ( field === 1 && wireType === WireType.LEN ) {
+				const bytes = reader.bytes()
+
+				try {
+					batch.entries.push( Migration.DecodeEntry( bytes ) )
+				} catch ( error ) {
+					if ( ! Exception.isException( error ) ) throw error
+
+					errors.push( { index, error } )
+				}
+
+				index++
+				continue
+			}
+
+			if ( wireType !== WireType.VARINT || field < 2 || field > 5 ) {
+				reader.skip( wireType )
+				continue
+			}
+
+			const value = Number( BigInt.asIntN( 32, reader.varint() ) )
+
+			if ( field === 2 ) batch.version = value
+			if ( field === 3 ) batch.batchSize = value
+			if ( field === 4 ) batch.batchIndex = value
+			if ( field === 5 ) batch.batchId = value
+		}
+
+		/** The batch index may follow the credentials in the payload */
+		batch.errors = errors.map( error => ( { batchIndex: batch.batchIndex, ...error } ) )
+
+		return batch
+	}
+
+
+	/**
+	 * Export credentials to migration URIs.
+	 *
+	 * Migration payloads only support HMAC-SHA-1, HMAC-SHA-256 and HMAC-SHA-512, 6 or 8 digits and 30 seconds TOTP period.
+	 *
+	 * @param	entries The credentials to export. @see {@link OTP.AuthURLOptions}
+	 * @param	options	( Optional ) The export options. @see {@link OTP.MIGRATION.ExportOptions}
+	 * @returns	The migration URIs, one for each batch.
+	 * @throws	{Exception} Throws a new Exception if a credential uses parameters not supported by the migration payload.
+	 */
+	static Export(
+		entries	: OTP.AuthURLOptions<OTP.Type>[],
+		options	: OTP.MIGRATION.ExportOptions = {},
+	)
+	{
+		const {
+			batchSize = Migration.BatchSize, batchId = crypto.randomInt( 0, 0x80000000 ),
+		} = options
+
+		if ( ! Number.isInteger( batchSize ) || batchSize < 1 ) {
+			throw new Exception( `Expected a positive integer batch size, got \`${ batchSize }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		const chunks: OTP.AuthURLOptions<OTP.Type>[][] = []
+
+		for ( let i = 0; i < entries.length; i += batchSize ) {
+			chunks.push( entries.slice( i, i + batchSize ) )
+		}
+
+		return chunks.map( ( chunk, index ) => {
+			const writer = new ProtobufWriter()
+
+			chunk.forEach( entry => writer.bytes( 1, Migration.EncodeEntry( entry ) ) )
+
+			writer
+				.varint( 2, 1 )
+				.varint( 3, chunks.length )
+				.varint( 4, index )
+				.varint( 5, batchId )
+
+			const data = encodeURIComponent( writer.finish().toString( 'base64' ) )
+
+			return `otpauth-migration://offline?data=${ data }`
+		} )
+	}
+
+
+	/**
+	 * Decode a `MigrationPayload.OtpParameters` message.
+	 *
+	 * @param	bytes The encoded message.
+	 * @returns	The decoded credential. @see {@link OTP.ParsedAuthURL}
+	 * @throws	{Exception} Throws a new Exception if the message is malformed, contains unsupported parameters or an invalid label.
+	 */
+	private static DecodeEntry( bytes: Buffer ): OTP.ParsedAuthURL
+	{
+		const reader	= new ProtobufReader( bytes )
+		let secret: Buffer	= Buffer.alloc( 0 )
+		let name		= ''
+		let issuerName	= ''
+		let algorithm	= 0
+		let digitCount	= 0
+		let type		= 0
+		let counter		= BigInt( 0 )
+
+		while ( ! reader.done ) {
+			const { field, wireType } = reader.tag()
+
+			if ( wireType === WireType.LEN && field === 1 ) secret = reader.bytes()
+			else if ( wireType === WireType.LEN && field === 2 ) name = reader.bytes().toString( 'utf8' )
+			else if ( wireType === WireType.LEN && field === 3 ) issuerName = reader.bytes().toString( 'utf8' )
+			else if ( wireType === WireType.VARINT && field === 4 ) algorithm = Number( reader.varint() )
+			else if ( wireType === WireType.VARINT && field === 5 ) digitCount = Number( reader.varint() )
+			else if ( wireType === WireType.VARINT && field === 6 ) type = Number( reader.varint() )
+			else if ( wireType === WireType.VARINT && field === 7 ) counter = reader.varint()
+			else reader.skip( wireType )
+		}
+
+		if ( ! secret.length ) {
+			throw new Exception( 'No secret has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const _algorithm	= Algorithms[ algorithm ]
+		const digits		= DigitCounts[ digitCount ]
+		const _type			= Types[ type ]
+
+		if ( ! _algorithm ) {
+			throw new Exception( `Unsupported algorithm \`${ algorithm }\`.`, {
+				code: ErrorCode.INVALID_ALGORITHM,
+			} )
+		}
+
+		if ( ! digits ) {
+			throw new Exception( `Unsupported digit count \`${ digitCount }\`.`, {
+				code: ErrorCode.INVALID_DIGITS,
+			} )
+		}
+
+		if ( ! _type ) {
+			throw new Exception( `Unsupported OTP type \`${ type }\`.`, {
+				code: ErrorCode.INVALID_TYPE,
+			} )
+		}
+
+		const { account, issuer } = Otp.ParseLabel( name, issuerName || null )
+
+		const _secret: OTP.Secret = {
+			key: Base32.encode( secret, Otp.Base32Variant ), encoding: 'base32', algorithm: _algorithm,
+		}
+
+		const common = {
+			label: name, account, secret: _secret, digits,
+			...( issuer ? { issuer } : {} ),
+		}
+
+		if ( _type === 'totp' ) return { ...common, type: _type }
+
+		if ( counter > BigInt( Number.MAX_SAFE_INTEGER ) ) {
+			throw new Exception( `Expected a safe integer counter, got \`${ counter }\`.`, {
+				code: ErrorCode.INVALID_COUNTER,
+			} )
+		}
+
+		return { ...common, type: _type, counter: Number( counter ) }
+	}
+
+
+	/**
+	 * Encode a credential to a `MigrationPayload.OtpParameters` message.
+	 *
+	 * @param	entry The credential. @see {@link OTP.AuthURLOptions}
+	 * @returns	The encoded message.
+	 */
+	private static EncodeEntry( entry: OTP.AuthURLOptions<OTP.Type> )
+	{
+		const {
+			label, issuer, digits = Otp.Digits, encoder, alphabet,
+			secret: { key, encoding = Otp.Encoding, algorithm = Otp.Algorithm },
+		} = entry
+
+		const _algorithm	= Migration.EnumValue( Algorithms, algorithm, 1 )
+		const digitCount	= Migration.EnumValue( DigitCounts, digits, 1 )
+
+		if ( _algorithm == null ) {
+			throw new Exception( `The \`${ algorithm }\` algorithm is not supported by migration payloads.`, {
+				code: ErrorCode.INVALID_ALGORITHM,
+			} )
+		}
+
+		if ( digitCount == null ) {
+			throw new Exception( `Expected 6 or 8 digits, got \`${ digits }\`.`, {
+				code: ErrorCode.INVALID_DIGITS,
+			} )
+		}
+
+		if ( encoder ) {
+			throw new Exception( 'Token encoders are not supported by migration payloads.', {
+				code: ErrorCode.INVALID_ENCODER,
+			} )
+		}
+
+		if ( alphabet && alphabet !== Otp.Alphabet ) {
+			throw new Exception( 'Custom token alphabets are not supported by migration payloads.', {
+				code: ErrorCode.INVALID_ALPHABET,
+			} )
+		}
+
+		const writer = new ProtobufWriter()
+			.bytes( 1, Buffer.from( Otp.HmacKey( key, encoding ), 'hex' ) )
+			.bytes( 2, label )
+			.bytes( 3, issuer ?? '' )
+			.varint( 4, _algorithm )
+			.varint( 5, digitCount )
+
+		if ( entry.type === 'totp' ) {
+			if ( entry.period != null && entry.period !== 30 ) {
+				throw new Exception( `Expected a 30 seconds period, got \`${ entry.period }\`.`, {
+					code: ErrorCode.INVALID_PERIOD,
+				} )
+			}
+
+			return writer.varint( 6, 2 ).finish()
+		}
+
+		return writer.varint( 6, 1 ).varint( 7, entry.counter ).finish()
+	}
+
+
+	/**
+	 * Get the protobuf enum value of the given value.
+	 *
+	 * @param	values	The enum values map.
+	 * @param	value	The value to look for.
+	 * @param	min		The minimum enum value to consider, so `*_UNSPECIFIED` values are never written.
+	 * @returns	The enum value if found, `undefined` otherwise.
+	 */
+	private static EnumValue<T>( values: Partial<Record<number, T>>, value: T, min: number )
+	{
+		const found = Object.entries( values )
+			.find( ( [ key, entry ] ) => Number( key ) >= min && entry === value )
+
+		return found ? Number( found[ 0 ] ) : undefined
+	}
+}
\ No newline at end of file
@@ -0,0 +1,388 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { Exception } from '@alessiofrittoli/exception'
+import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+import { Otp } from './Otp'
+import { Hotp } from './Hotp'
+import { Totp } from './Totp'
+import { Validation } from './Validation'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * OATH Challenge-Response Algorithm.
+ *
+ * [RFC 6287 - IETF](https://datatracker.ietf.org/doc/html/rfc6287)
+ */
+export class Ocra extends Otp
+{
+	/**
+	 * Verify an OCRA response.
+	 *
+	 * @param	options The OCRA options. @see {@link OTP.OCRA.GetDeltaOptions}
+	 * @returns	True if the given OCRA response is valid, false otherwise.
+	 */
+	static Verify( options: OTP.OCRA.GetDeltaOptions )
+	{
+		return Ocra.GetDelta( options ) != null
+	}
+
+
+	/**
+	 * Get OCRA response delta.
+	 *
+	 * If the response is valid, the delta will match the step on which the given response has been validated with the given counter or timestamp.
+	 *
+	 * @param	options The OCRA options. @see {@link OTP.OCRA.GetDeltaOptions}
+	 * @returns	The delta number, null otherwise.
+	 */
+	static GetDelta( options: OTP.OCRA.GetDeltaOptions ): number | null
+	{
+		const { token, window = 0, ...rest } = options
+
+		if ( ! token ) {
+			throw new Exception( 'No token has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const suite = Ocra.ParseSuite( options.suite )
+
+		/** Fail if token is not of correct length */
+		if ( suite.digits > 0 && token.length !== suite.digits ) return null
+
+		/** The counter has a one-sided window, the timestamp has a two-sided window. */
+		const counter	= suite.counter ? Ocra.RequireCounter( options.counter ) : undefined
+		const timestamp	= suite.timestep ? Ocra.Timestamp( suite.timestep, options ) : undefined
+		const start		= ( counter == null && timestamp != null ? -window : 0 )
+		const end		= ( counter != null || timestamp != null ? window : 0 )
+
+		/** Loop from ( step - window ) or step to ( step + window ) inclusive */
+		for ( let delta = start; delta <= end; ++delta ) {
+
+			const _token = Ocra.GetToken( {
+				...rest,
+				...( counter != null
+					? { counter: counter + delta, timestamp }
+					: { timestamp: timestamp != null ? timestamp + delta : undefined }
+				),
+			} )
+
+			const isValid = (
+				_token.length === token.length &&
+				timingSafeEqual( Buffer.from( _token ), Buffer.from( token ) )
+			)
+
+			if ( isValid ) return delta
+
+		}
+
+		return null
+	}
+
+
+	/**
+	 * Generates an OCRA response.
+	 *
+	 * @param	options The OCRA options. @see {@link OTP.OCRA.GetTokenOptions}
+	 * @returns	The OCRA response.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_SECRET` or `ErrorCode.WEAK_SECRET` if the secret key is not valid.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_QUESTION` if the challenge question doesn't match the suite question format or length.
+	 */
+	static GetToken( options: OTP.OCRA.GetTokenOptions )
+	{
+		const { secret: { key, encoding = Ocra.Encoding }, minSecretBits } = options
+		const { algorithm, digits } = Ocra.ParseSuite( options.suite )
+
+		Validation.SecretKey( key, encoding, Ocra.Base32Variant, minSecretBits )
+
+		const digest = Ocra.createDigest(
+			algorithm, Ocra.HmacKey( key, encoding ), Ocra.DataInput( options )
+		)
+
+		/** No truncation */
+		if ( digits === 0 ) return digest.toString( 'hex' ).toUpperCase()
+
+		return Ocra.DigestToToken( digest, digits )
+	}
+
+
+	/**
+	 * Builds the OCRA DataInput.
+	 *
+	 * DataInput = {OCRASuite | 00 | C | Q | P | S | T}
+	 *
+	 * [RFC 6287 - IETF](https://datatracker.ietf.org/doc/html/rfc6287#section-5.1)
+	 *
+	 * @param	options The DataInput options. @see {@link OTP.OCRA.DataInputOptions}
+	 * @returns	The HEX DataInput.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_QUESTION` if the challenge question doesn't match the suite question format or length.
+	 */
+	static DataInput( options: OTP.OCRA.DataInputOptions )
+	{
+		const suite = Ocra.ParseSuite( options.suite )
+
+		let dataInput = (
+			Buffer.from( suite.suite ).toString( 'hex' ) + '00'
+		)
+
+		if ( suite.counter ) {
+			dataInput += Hotp.Counter( Ocra.RequireCounter( options.counter ) )
+		}
+
+		dataInput += Ocra.Question( suite, options.question, options.mutual )
+
+		if ( suite.password ) {
+			dataInput += Ocra.PasswordHash( suite.password, options )
+		}
+
+		if ( suite.session != null ) {
+			const { session } = options
+
+			if ( session == null ) {
+				throw new Exception( 'No session information has been provided.', {
+					code: ErrorCode.EMPTY_VALUE,
+				} )
+			}
+
+			if ( ! /^[0-9a-f]*$/i.test( session ) || session.length > suite.session * 2 ) {
+				throw new Exception( `Expected up to ${ suite.session } bytes of HEX session information.`, {
+					code: ErrorCode.WRONG_VALUE,
+				} )
+			}
+
+			dataInput += Ocra.padStart( session, suite.session * 2, '0' )
+		}
+
+		if ( suite.timestep ) {
+			dataInput += Hotp.Counter( Ocra.Timestamp( suite.timestep, options ) )
+		}
+
+		return dataInput
+	}
+
+
+	/**
+	 * Parse an OCRA suite.
+	 *
+	 * OCRASuite = <Algorithm>:<CryptoFunction>:<DataInput> (e.g. `OCRA-1:HOTP-SHA256-8:QN08-PSHA1`).
+	 *
+	 * [RFC 6287 - IETF](https://datatracker.ietf.org/doc/html/rfc6287#section-6)
+	 *
+	 * @param	suite The OCRA suite string.
+	 * @returns	The parsed OCRA suite. @see {@link OTP.OCRA.Suite}
+	 * @throws	{Exception} Throws a new Exception if the given suite is malformed or not supported.
+	 */
+	static ParseSuite( suite: string ): OTP.OCRA.Suite
+	{
+		const invalid = ( reason: string ) => (
+			new Exception( `Invalid OCRA suite \`${ suite }\`: ${ reason }`, {
+				code: ErrorCode.INVALID_SUITE,
+			} )
+		)
+
+		const [ version, cryptoFunction, dataInput, ...rest ] = ( suite || '' ).split( ':' )
+
+		if ( version !== 'OCRA-1' ) throw invalid( 'unsupported version.' )
+		if ( ! cryptoFunction || ! dataInput || rest.length ) throw invalid( 'expected <Algorithm>:<CryptoFunction>:<DataInput>.' )
+
+		const cryptoMatch = cryptoFunction.match( /^HOTP-SHA(1|256|512)-(\d+)$/ )
+
+		if ( ! cryptoMatch ) throw invalid( 'unsupported CryptoFunction.' )
+
+		const digits = Number( cryptoMatch[ 2 ] )
+
+		if ( digits !== 0 && ( digits < 4 || digits > 10 ) ) {
+			throw invalid( 'truncation length must be 0 or between 4 and 10.' )
+		}
+
+		const parsed: OTP.OCRA.Suite = {
+			suite,
+			algorithm	: `SHA-${ cryptoMatch[ 1 ] }` as Algo.Hash,
+			digits		: digits,
+			counter		: false,
+			question	: { format: 'N', length: 0 },
+		}
+
+		const inputs = dataInput.split( '-' )
+
+		if ( inputs[ 0 ] === 'C' ) {
+			parsed.counter = true
+			inputs.shift()
+		}
+
+		const questionMatch = inputs.shift()?.match( /^Q([ANH])(\d{2})$/ )
+		const length		= Number( questionMatch?.[ 2 ] )
+
+		if ( ! questionMatch || length < 4 || length > 64 ) {
+			throw invalid( 'expected a QFxx challenge question with a length between 04 and 64.' )
+		}
+
+		parsed.question = { format: questionMatch[ 1 ] as OTP.OCRA.QuestionFormat, length }
+
+		if ( inputs[ 0 ]?.startsWith( 'P' ) ) {
+			const match = inputs.shift()!.match( /^PSHA(1|256|512)$/ )
+			if ( ! match ) throw invalid( 'unsupported password hash algorithm.' )
+			parsed.password = `SHA-${ match[ 1 ] }` as Algo.Hash
+		}
+
+		if ( inputs[ 0 ]?.startsWith( 'S' ) ) {
+			const match = inputs.shift()!.match( /^S(\d{3})$/ )
+			if ( ! match ) throw invalid( 'expected a Snnn session information length.' )
+			parsed.session = Number( match[ 1 ] )
+		}
+
+		if ( inputs[ 0 ]?.startsWith( 'T' ) ) {
+			const match		= inputs.shift()!.match( /^T(\d{1,2})([SMH])$/ )
+			const value		= Number( match?.[ 1 ] )
+			const unit		= match?.[ 2 ]
+			const max		= unit === 'H' ? 48 : 59
+
+			if ( ! match || value < 1 || value > max ) {
+				throw invalid( 'expected a [1-59]S, [1-59]M or [1-48]H timestamp time-step.' )
+			}
+
+			parsed.timestep = value * ( unit === 'H' ? 3600 : ( unit === 'M' ? 60 : 1 ) )
+		}
+
+		if ( inputs.length ) throw invalid( `unexpected DataInput parameter \`${ inputs[ 0 ] }\`.` )
+
+		return parsed
+	}
+
+
+	/**
+	 * Calculate the OCRA timestamp value.
+	 *
+	 * @param	timestep	The suite time-step in seconds.
+	 * @param	options		The DataInput options. @see {@link OTP.OCRA.DataInputOptions}
+	 * @returns	The number of time-steps since the UNIX epoch.
+	 */
+	static Timestamp(
+		timestep: number,
+		options	: Pick<OTP.OCRA.DataInputOptions, 'time' | 'clock' | 'timestamp'> = {},
+	)
+	{
+		const { timestamp, time, clock } = options
+
+		if ( timestamp != null ) return timestamp
+
+		return Math.floor( Totp.Now( { time, clock } ) / timestep )
+	}
+
+
+	/**
+	 * Formats the challenge question into the 128 bytes HEX DataInput question.
+	 * 
+	 * Numeric questions are converted to HEX, alphanumeric questions are ASCII encoded. The result is right-padded with zeros.
+	 *
+	 * @param	suite		The parsed OCRA suite.
+	 * @param	question	The challenge question.
+	 * @param	mutual		( Optional ) Whether the question concatenates the client and server challenges. Default: `false`.
+	 * @returns	The 128 bytes HEX question.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_QUESTION` if the challenge question doesn't match the suite question format or length.
+	 */
+	private static Question( suite: OTP.OCRA.Suite, question: string, mutual: boolean = false )
+	{
+		const { format, length } = suite.question
+
+		if ( ! question ) {
+			throw new Exception( 'No challenge question has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const pattern = (
+			format === 'N' ? /^\d+$/ : (
+				format === 'H' ? /^[0-9a-f]+$/i : /^[\x20-\x7e]+$/
+			)
+		)
+
+		if ( ! pattern.test( question ) ) {
+			throw new Exception( `Expected a Q${ format } challenge question.`, {
+				code: ErrorCode.INVALID_QUESTION,
+			} )
+		}
+
+		/** Mutual challenge-response questions concatenate two challenges of up to the suite question length */
+		const max = mutual ? length * 2 : length
+
+		if ( question.length > max ) {
+			throw new Exception( `Expected a Q${ format } challenge question of up to ${ max } characters, got ${ question.length } characters.`, {
+				code: ErrorCode.INVALID_QUESTION,
+			} )
+		}
+
+		const hex = (
+			format === 'N' ? BigInt( question ).toString( 16 ) : (
+				format === 'H' ? question : Buffer.from( question, 'ascii' ).toString( 'hex' )
+			)
+		)
+
+		return hex.padEnd( 256, '0' )
+	}
+
+
+	/**
+	 * Get the HEX password hash.
+	 *
+	 * @param	algorithm	The suite password hash algorithm.
+	 * @param	options		The DataInput options.
+	 * @returns	The HEX password hash.
+	 */
+	private static PasswordHash(
+		algorithm	: Algo.Hash,
+		options		: Pick<OTP.OCRA.DataInputOptions, 'password' | 'passwordHash'>,
+	)
+	{
+		const { password, passwordHash } = options
+		const length = createHash( Ocra.HashName( algorithm ) ).digest().length * 2
+
+		if ( passwordHash != null ) {
+			if ( ! /^[0-9a-f]*$/i.test( passwordHash ) || passwordHash.length > length ) {
+				throw new Exception( `Expected a HEX ${ algorithm } password hash.`, {
+					code: ErrorCode.WRONG_VALUE,
+				} )
+			}
+			return Ocra.padStart( passwordHash, length, '0' )
+		}
+
+		if ( password == null ) {
+			throw new Exception( 'No password has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		return createHash( Ocra.HashName( algorithm ) ).update( password ).digest( 'hex' )
+	}
+
+
+	/**
+	 * Ensures a counter has been provided.
+	 *
+	 * @param	counter The counter value.
+	 * @returns	The given counter value.
+	 */
+	private static RequireCounter( counter?: number )
+	{
+		if ( counter == null ) {
+			throw new Exception( 'No counter has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		return counter
+	}
+
+
+	/**
+	 * Converts a hash algorithm to the Node.js hash name.
+	 *
+	 * @param	algorithm The hash algorithm (e.g. `SHA-256`).
+	 * @returns	The Node.js hash name (e.g. `sha256`).
+	 */
+	private static HashName( algorithm: Algo.Hash )
+	{
+		return algorithm.replace( /-/g, '' ).toLowerCase()
+	}
+}
\ No newline at end of file
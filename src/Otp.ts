@@ -1,11 +1,16 @@
 import crypto from 'crypto'
 
+import { Exception } from '@alessiofrittoli/exception'
 import { Url, type UrlObject } from '@alessiofrittoli/url-utils'
 import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
 import { Base32, type Variant } from '@alessiofrittoli/crypto-encoder/Base32'
 import { Hmac, generateKey } from '@alessiofrittoli/crypto-key'
 import { padStart } from '@alessiofrittoli/math-utils/helpers'
 
+import { QRCode } from './QRCode'
+import { Core } from './Core'
+import { Validation } from './Validation'
+import { ErrorCode } from './error'
 import type { OTP } from './types'
 
 
@@ -31,34 +36,94 @@ export class Otp
 	 * 
 	 */
 	static Base32Variant: Variant = Base32.VARIANT.RFC3548
+	/**
+	 * Defines the default token alphabet.
+	 * 
+	 */
+	static Alphabet = '0123456789'
+	/**
+	 * Defines the Steam Guard token alphabet.
+	 * 
+	 */
+	static readonly SteamAlphabet = Core.SteamAlphabet
+	/**
+	 * Defines the Steam Guard token length.
+	 * 
+	 */
+	static readonly SteamDigits = Core.SteamDigits
+	/**
+	 * The otpauth URI parameters supported by this library. Custom parameters cannot override them.
+	 * 
+	 */
+	private static readonly AuthURLParams = [
+		'secret', 'algorithm', 'digits', 'issuer', 'counter', 'period', 'encoder', 'alphabet', 'image', 'color', 'lock', 'touch',
+	]
+	/**
+	 * The vendor parameters supported by each authenticator profile.
+	 * 
+	 */
+	private static readonly AuthURLProfiles: Record<OTP.AuthURLProfile, OTP.AuthURLVendorParam[]> = {
+		generic	: [ 'encoder', 'alphabet', 'image', 'color', 'lock', 'touch', 'params' ],
+		google	: [],
+		freeotp	: [ 'image', 'color', 'lock', 'params' ],
+		aegis	: [ 'encoder', 'image', 'params' ],
+		yubico	: [ 'touch', 'params' ],
+	}
 
 
 	/**
 	 * Converts a digest to a token of a specified length.
 	 *
-	 * @param	digest	The digest Buffer.
-	 * @param	digits	( Optional ) The OTP token digits count ( usually 6 | 8 ). Default: `6`.
+	 * @param	digest		The digest Buffer.
+	 * @param	digits		( Optional ) The OTP token digits count ( usually 6 | 8 ). Default: `6`.
+	 * @param	encoder		( Optional ) The token encoder. If set, `digits` and `alphabet` are ignored. @see {@link OTP.Encoder}
+	 * @param	alphabet	( Optional ) The token alphabet. Default: `0123456789`.
 	 * 
 	 * [RFC 4226 - IETF](https://datatracker.ietf.org/doc/html/rfc4226#section-5.3)
 	 * 
 	 * @returns	The OTP token.
+	 * @throws	{Exception} Throws a new Exception if the given alphabet is not valid or if digits exceed the supported range.
 	 */
 	static DigestToToken(
-		digest: Buffer,
-		digits: OTP.Digits = Otp.Digits,
+		digest		: Buffer,
+		digits		: OTP.Digits = Otp.Digits,
+		encoder?	: OTP.Encoder,
+		alphabet	: string = Otp.Alphabet,
 	)
 	{
-		const offset = ( digest.at( -1 ) ?? 0 ) & 0xf
-		const binary = (
-			( ( ( digest[ offset ] ?? 0 ) & 0x7f ) << 24 ) |
-			( ( ( digest[ offset + 1 ] ?? 0 ) & 0xff ) << 16 ) |
-			( ( ( digest[ offset + 2 ] ?? 0 ) & 0xff ) << 8 ) |
-			( ( digest[ offset + 3 ] ?? 0 ) & 0xff )
-		)
+		return Core.DigestToToken( digest, digits, encoder, alphabet )
+	}
 
-		const token = binary % Math.pow( 10, digits )
 
-		return Otp.padStart( String( token ), digits, '0' )
+	/**
+	 * Get the maximum token length supported by the 31-bit dynamic truncation for the given alphabet.
+	 * 
+	 * This is the smallest length whose combinations cover all the 2^31 truncated values (e.g. 10 for decimal tokens, 8 for hexadecimal tokens).
+	 *
+	 * @param	alphabet ( Optional ) The token alphabet. Default: `0123456789`.
+	 * @returns	The maximum token length.
+	 * @throws	{Exception} Throws a new Exception if the given alphabet has less than 2 characters or contains duplicates.
+	 */
+	static MaxDigits( alphabet: string = Otp.Alphabet )
+	{
+		return Core.MaxDigits( alphabet )
+	}
+
+
+	/**
+	 * Get the expected token length.
+	 *
+	 * @param	digits	( Optional ) The OTP token digits count. Default: `6`.
+	 * @param	encoder	( Optional ) The token encoder. If set, `digits` is ignored. @see {@link OTP.Encoder}
+	 * 
+	 * @returns	The expected token length.
+	 */
+	static TokenLength(
+		digits	: OTP.Digits = Otp.Digits,
+		encoder?: OTP.Encoder,
+	)
+	{
+		return Core.TokenLength( digits, encoder )
 	}
 
 
@@ -67,12 +132,14 @@ export class Otp
 	 *
 	 * @param secret	The OTP secret.
 	 * @param encoding	The OTP secret encoding.
+	 * @param variant	( Optional ) The Base32 encoding variant used to decode `base32` secrets. Default: `Otp.Base32Variant`.
 	 *
 	 * @returns The HMAC HEX Key.
 	 */
 	static HmacKey(
 		secret	: string,
 		encoding: OTP.Encoding,
+		variant	: Variant = Otp.Base32Variant,
 	)
 	{
 		if ( encoding !== 'base32' ) {
@@ -83,12 +150,40 @@ export class Otp
 		}
 		return (
 			Buffer.from(
-				Base32.decode( secret, Otp.Base32Variant )
+				Base32.decode( secret, variant )
 			).toString( 'hex' )
 		)
 	}
 
 
+	/**
+	 * Decode the given secret once into a prepared key.
+	 * 
+	 * The prepared key can be passed in place of the plain `secret` option and reused across calls,
+	 * so the secret key doesn't get decoded again for each token generation or verification.
+	 *
+	 * @param	secret	The OTP secret. @see {@link OTP.Secret}
+	 * @param	variant			( Optional ) The Base32 encoding variant used to decode `base32` secrets. Default: `Otp.Base32Variant`.
+	 * @param	minSecretBits	( Optional ) The minimum decoded secret key length in bits. Default: `Validation.MinSecretBits`.
+	 * @returns	The prepared key. @see {@link OTP.PreparedKey}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_SECRET` or `ErrorCode.WEAK_SECRET` if the secret key is malformed or shorter than `minSecretBits`. @see {@link Validation.SecretKey}
+	 */
+	static PrepareKey( secret: OTP.Secret, variant: Variant = Otp.Base32Variant, minSecretBits: number = Validation.MinSecretBits ): OTP.PreparedKey
+	{
+		const { key, encoding = Otp.Encoding, algorithm = Otp.Algorithm } = secret
+
+		Validation.SecretKey( key, encoding, variant, minSecretBits )
+
+		const bytes = (
+			encoding === 'base32'
+				? Buffer.from( Base32.decode( key, variant ) )
+				: Buffer.from( key, encoding )
+		)
+
+		return { hmacKey: crypto.createSecretKey( bytes ), algorithm }
+	}
+
+
 	/**
 	 * Create HMAC digest.
 	 *
@@ -135,32 +230,87 @@ export class Otp
 
 
 	/**
-	 * Generates a key of a certain length (default 32) from A-Z, a-z, 0-9, and symbols (if requested).
+	 * Generate a random secret key for the given hash algorithm.
 	 *
-	 * @param	length	( Optional ) The lenght of the key. Default: `40`.
-	 * @param	symbols	( Optional ) Whether to use symbols or not. Default: `false`.
+	 * Random bytes are drawn from `crypto.randomBytes()`. ASCII keys are drawn with rejection sampling so every character has the same probability.
 	 *
-	 * @returns	The generated key.
+	 * @param	options ( Optional ) The GenerateSecretOptions object. @see {@link OTP.GenerateSecretOptions}
+	 * @returns	The generated secret, ready to be used in the subsequent operations.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALGORITHM` if the given algorithm is not supported.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given length is not a positive integer.
 	 */
-	static GenerateSecretASCII( length: number = 40, symbols: boolean = false )
+	static GenerateSecret( options: OTP.GenerateSecretOptions = {} ): Required<OTP.Secret>
 	{
-		const bytes = crypto.randomBytes( length )
-		const set = (
-			'0123456789ABCDEFGHIJKLMNOPQRSTUVWXTZabcdefghiklmnopqrstuvwxyz' + (
-				symbols ? '!@#$%^&*()<>?/[]{},.:;' : ''
-			)
+		const {
+			algorithm = Otp.Algorithm, encoding = Otp.Encoding, symbols = false,
+		} = options
+
+		const length = options.length ?? (
+			encoding === 'ascii'
+				? Core.ASCIILength( Otp.KeyLength( algorithm ), symbols )
+				: Otp.KeyLength( algorithm )
 		)
 
-		let output = ''
-		for ( let index = 0, l = bytes.length; index < l; index++ ) {
-			output += (
-				set[
-					Math.floor( ( bytes[ index ]! ) / 255 * ( set.length - 1 ) )
-				]
-			)
+		if ( ! Number.isInteger( length ) || length < 1 ) {
+			throw new Exception( `Expected a positive integer secret length, got \`${ length }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		if ( encoding === 'ascii' ) {
+			return { key: Otp.GenerateSecretASCII( length, symbols ), encoding, algorithm }
+		}
+
+		const bytes = crypto.randomBytes( length )
+
+		return {
+			key: (
+				encoding === 'hex'
+					? bytes.toString( 'hex' ).toUpperCase()
+					: encoding === 'base32'
+						? Base32.encode( bytes, Otp.Base32Variant )
+						: bytes.toString( encoding )
+			),
+			encoding,
+			algorithm,
 		}
+	}
+
+
+	/**
+	 * Get the recommended secret key length in bytes for the given hash algorithm.
+	 *
+	 * @param	algorithm ( Optional ) The hash algorithm. Default: `SHA-1`.
+	 * @returns	The hash algorithm output length in bytes.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALGORITHM` if the given algorithm is not supported.
+	 */
+	static KeyLength( algorithm: Algo.Hash = Otp.Algorithm )
+	{
+		return Core.KeyLength( algorithm )
+	}
+
+
+	/**
+	 * Get the number of ASCII characters needed to match the entropy of a random key of the given length.
+	 *
+	 * @see {@link Core.ASCIILength}
+	 */
+	static ASCIILength = Core.ASCIILength
 
-		return output
+
+	/**
+	 * Generates a key of a certain length (default 40) from A-Z, a-z, 0-9, and symbols (if requested).
+	 *
+	 * Characters are drawn with rejection sampling so every character has the same probability.
+	 *
+	 * @param	length	( Optional ) The lenght of the key. Default: `40`.
+	 * @param	symbols	( Optional ) Whether to use symbols or not. Default: `false`.
+	 *
+	 * @returns	The generated key.
+	 */
+	static GenerateSecretASCII( length: number = 40, symbols: boolean = false )
+	{
+		return Core.GenerateSecretASCII( length, symbols, crypto.randomBytes )
 	}
 
 
@@ -169,8 +319,13 @@ export class Otp
 	 *
 	 * https://docs.yubico.com/yesdk/users-manual/application-oath/uri-string-format.html
 	 *
+	 * Vendor parameters not supported by the given authenticator profile are omitted.
+	 *
 	 * @param	options The AuthURLOptions object.
 	 * @returns	The otpauth URL string.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the profile or the color are not valid or a custom parameter overrides a supported parameter.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_LABEL`, `ErrorCode.INVALID_ISSUER` or `ErrorCode.ISSUER_MISMATCH` if the label or the issuer are not valid. @see {@link Otp.ParseLabel}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_SECRET` or `ErrorCode.WEAK_SECRET` if the secret key is malformed or shorter than `minSecretBits`. @see {@link Validation.SecretKey}
 	 */
 	protected static GetAuthURL<T extends OTP.Type>( options: OTP.AuthURLOptions<T> )
 	{
@@ -180,9 +335,35 @@ export class Otp
 				algorithm	= Otp.Algorithm,
 				encoding	= Otp.Encoding,
 			},
-			digits = Otp.Digits, type, label, issuer
+			digits = Otp.Digits, encoder, alphabet, type, label, issuer,
+			image, color, lock, touch, params = {}, strict = false, profile = 'generic', minSecretBits,
 		} = options
 
+		Otp.ParseLabel( label, issuer )
+		Validation.SecretKey( options.secret.key, encoding, Otp.Base32Variant, minSecretBits )
+
+		const allowed = Otp.AuthURLProfiles[ strict ? 'google' : profile ]
+
+		if ( ! allowed ) {
+			throw new Exception( `Unknown authenticator profile \`${ profile }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		if ( color != null && ! /^[\da-f]{6}$/i.test( color ) ) {
+			throw new Exception( `Expected a 6 HEX digits color, got \`${ color }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		const reserved = Object.keys( params ).find( name => Otp.AuthURLParams.includes( name ) )
+
+		if ( reserved ) {
+			throw new Exception( `The \`${ reserved }\` custom parameter overrides a supported parameter.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
 		let { key }			= options.secret
 		const _algorithm	= algorithm.replace( /-/g, '' ).toUpperCase()
 
@@ -194,9 +375,16 @@ export class Otp
 		const query: UrlObject[ 'query' ] = {
 			secret		: key.toString(),
 			algorithm	: _algorithm,
-			digits		: digits,
+			digits		: Otp.TokenLength( digits, encoder ),
 		}
+		/** Add a vendor parameter if supported by the authenticator profile */
+		const vendor = ( name: OTP.AuthURLVendorParam, value?: string | boolean ) => {
+			if ( value != null && allowed.includes( name ) ) query[ name ] = value
+		}
+
 		if ( issuer ) query.issuer = issuer
+		vendor( 'encoder', encoder )
+		if ( ! encoder && alphabet && alphabet !== Otp.Alphabet ) vendor( 'alphabet', alphabet )
 
 		if ( type === 'hotp' ) {
 			query.counter = options.counter
@@ -205,6 +393,13 @@ export class Otp
 			query.period = options.period
 		}
 
+		vendor( 'image', image )
+		vendor( 'color', color )
+		vendor( 'lock', lock )
+		vendor( 'touch', touch )
+
+		if ( allowed.includes( 'params' ) ) Object.assign( query, params )
+
 		return (
 			Url.format(
 				{
@@ -218,6 +413,289 @@ export class Otp
 	}
 
 
+	/**
+	 * Get the otpauth URL QR Code.
+	 *
+	 * The returned `QRCode` can be rendered as SVG, PNG data URL or Unicode blocks for terminals.
+	 *
+	 * @param	options The AuthURLOptions object.
+	 * @param	qr		( Optional ) The QR Code encoding options. @see {@link OTP.QR.EncodeOptions}
+	 * @returns	A new `QRCode` instance.
+	 */
+	static AuthQRCode<T extends OTP.Type>( options: OTP.AuthURLOptions<T>, qr?: OTP.QR.EncodeOptions )
+	{
+		return new QRCode( Otp.GetAuthURL( options ), qr )
+	}
+
+
+	/**
+	 * Parse an otpauth URL string.
+	 *
+	 * https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+	 *
+	 * @param	url The otpauth URL string or URL object.
+	 * @returns	The parsed AuthURLOptions object. @see {@link OTP.ParsedAuthURL}
+	 * @throws	{Exception} Throws a new Exception if the given otpauth URL is malformed.
+	 */
+	static ParseAuthURL( url: string | URL ): OTP.ParsedAuthURL
+	{
+		let _url: URL
+
+		try {
+			_url = typeof url === 'string' ? new URL( url ) : url
+		} catch ( error ) {
+			throw new Exception( 'The given otpauth URL is not a valid URL.', {
+				code	: ErrorCode.INVALID_URL,
+				cause	: error,
+			} )
+		}
+
+		if ( _url.protocol !== 'otpauth:' ) {
+			throw new Exception( `Expected \`otpauth:\` protocol, got \`${ _url.protocol }\`.`, {
+				code: ErrorCode.INVALID_PROTOCOL,
+			} )
+		}
+
+		const type = _url.hostname
+
+		if ( type !== 'hotp' && type !== 'totp' ) {
+			throw new Exception( `Expected \`hotp\` or \`totp\` OTP type, got \`${ type }\`.`, {
+				code: ErrorCode.INVALID_TYPE,
+			} )
+		}
+
+		let label: string
+
+		try {
+			label = decodeURIComponent( _url.pathname.replace( /^\//, '' ) )
+		} catch ( error ) {
+			throw new Exception( 'The otpauth URL label is not correctly URI-encoded.', {
+				code	: ErrorCode.INVALID_LABEL,
+				cause	: error,
+			} )
+		}
+
+		const params				= _url.searchParams
+		const { account, issuer }	= Otp.ParseLabel( label, params.get( 'issuer' ) )
+		const key					= params.get( 'secret' )
+
+		if ( ! key ) {
+			throw new Exception( 'No secret has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const secret: OTP.Secret = {
+			key, encoding: 'base32', algorithm: Otp.ParseAlgorithm( params.get( 'algorithm' ) ),
+		}
+
+		const encoder	= Otp.ParseEncoder( params.get( 'encoder' ) )
+		const alphabet	= encoder ? null : params.get( 'alphabet' )
+		const digits	= Otp.ParseDigits( params.get( 'digits' ), encoder, alphabet ?? undefined )
+		const vendor	= Otp.ParseVendorParams( params )
+		const common	= {
+			label, account, secret, digits,
+			...( issuer ? { issuer } : {} ),
+			...( encoder ? { encoder } : {} ),
+			...( alphabet ? { alphabet } : {} ),
+			...vendor,
+		}
+
+		if ( type === 'totp' ) {
+			const period = Otp.ParsePeriod( params.get( 'period' ) )
+
+			return { ...common, type, ...( period ? { period } : {} ) }
+		}
+
+		const counter = params.get( 'counter' )
+
+		if ( counter == null ) {
+			throw new Exception( 'No counter has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		if ( ! /^\d+$/.test( counter ) || ! Number.isSafeInteger( Number( counter ) ) ) {
+			throw new Exception( `Expected a non-negative integer counter, got \`${ counter }\`.`, {
+				code: ErrorCode.INVALID_COUNTER,
+			} )
+		}
+
+		return { ...common, type, counter: Number( counter ) }
+	}
+
+
+	/**
+	 * Parse an otpauth URL label.
+	 *
+	 * @param	label	The decoded label (e.g. `Example:alice@gmail.com`).
+	 * @param	issuer	( Optional ) The `issuer` parameter value.
+	 * @returns	An object containing the account name and the issuer, taken from the label prefix if no `issuer` is given.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_LABEL` if the label is malformed.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ISSUER` if the issuer contains a colon.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.ISSUER_MISMATCH` if the label prefix doesn't match the given issuer.
+	 */
+	static ParseLabel( label: string, issuer?: string | null )
+	{
+		if ( issuer?.includes( ':' ) ) {
+			throw new Exception( `The issuer \`${ issuer }\` must not contain a colon.`, {
+				code: ErrorCode.INVALID_ISSUER,
+			} )
+		}
+
+		/** Neither issuer nor account name may themselves contain a colon. */
+		const parts = label.split( ':' )
+
+		if ( parts.length > 2 ) {
+			throw new Exception( 'Neither issuer nor account name may contain a colon.', {
+				code: ErrorCode.INVALID_LABEL,
+			} )
+		}
+
+		const prefix	= parts.length === 2 ? parts[ 0 ] : undefined
+		const account	= ( parts.at( -1 ) ?? '' ).trimStart()
+
+		if ( ! account || prefix === '' ) {
+			throw new Exception( 'The otpauth URL label is missing the issuer or the account name.', {
+				code: ErrorCode.INVALID_LABEL,
+			} )
+		}
+
+		if ( prefix && issuer != null && prefix !== issuer ) {
+			throw new Exception( `The label issuer prefix \`${ prefix }\` doesn't match the issuer parameter \`${ issuer }\`.`, {
+				code: ErrorCode.ISSUER_MISMATCH,
+			} )
+		}
+
+		return { account, issuer: issuer || prefix }
+	}
+
+
+	/**
+	 * Parse the vendor and custom otpauth URL parameters.
+	 *
+	 * `lock` and `touch` are `true` if set to `true` or `1`. Unknown parameters are returned as custom parameters.
+	 *
+	 * @param	params The otpauth URL search params.
+	 * @returns	The parsed vendor options. @see {@link OTP.AuthURLVendorOptions}
+	 */
+	private static ParseVendorParams( params: URLSearchParams ): OTP.AuthURLVendorOptions
+	{
+		const image		= params.get( 'image' )
+		const color		= params.get( 'color' )
+		const flag		= ( value: string | null ) => value == null ? undefined : value === 'true' || value === '1'
+		const lock		= flag( params.get( 'lock' ) )
+		const touch		= flag( params.get( 'touch' ) )
+		const custom	= [ ...params ].filter( ( [ name ] ) => ! Otp.AuthURLParams.includes( name ) )
+
+		return {
+			...( image ? { image } : {} ),
+			...( color ? { color } : {} ),
+			...( lock != null ? { lock } : {} ),
+			...( touch != null ? { touch } : {} ),
+			...( custom.length ? { params: Object.fromEntries( custom ) } : {} ),
+		}
+	}
+
+
+	/**
+	 * Parse the `algorithm` otpauth URL parameter.
+	 *
+	 * @param	algorithm The `algorithm` parameter value (e.g. `SHA1`).
+	 * @returns	The normalized hash algorithm (e.g. `SHA-1`).
+	 */
+	private static ParseAlgorithm( algorithm: string | null ): Algo.Hash
+	{
+		if ( ! algorithm ) return Otp.Algorithm
+
+		const normalized = algorithm.toUpperCase().replace( /^SHA-?(\d+)$/, 'SHA-$1' )
+
+		if ( ! ( [ 'SHA-1', 'SHA-256', 'SHA-384', 'SHA-512' ] as string[] ).includes( normalized ) ) {
+			throw new Exception( `Unsupported algorithm \`${ algorithm }\`.`, {
+				code: ErrorCode.INVALID_ALGORITHM,
+			} )
+		}
+
+		return normalized as Algo.Hash
+	}
+
+
+	/**
+	 * Parse the `encoder` otpauth URL parameter.
+	 *
+	 * @param	encoder The `encoder` parameter value.
+	 * @returns	The parsed encoder, `undefined` if no encoder has been provided.
+	 */
+	private static ParseEncoder( encoder: string | null ): OTP.Encoder | undefined
+	{
+		if ( encoder == null ) return
+
+		if ( encoder !== 'steam' ) {
+			throw new Exception( `Unsupported encoder \`${ encoder }\`.`, {
+				code: ErrorCode.INVALID_ENCODER,
+			} )
+		}
+
+		return encoder
+	}
+
+
+	/**
+	 * Parse the `digits` otpauth URL parameter.
+	 *
+	 * @param	digits		The `digits` parameter value.
+	 * @param	encoder		The parsed encoder.
+	 * @param	alphabet	The `alphabet` parameter value.
+	 * @returns	The parsed digits count.
+	 */
+	private static ParseDigits( digits: string | null, encoder?: OTP.Encoder, alphabet?: string ): OTP.Digits
+	{
+		/** `digits` is ignored with encoders, but it should match the encoder token length when provided. */
+		if ( encoder ) {
+			if ( digits == null ) return Otp.Digits
+
+			if ( digits !== String( Otp.TokenLength( undefined, encoder ) ) ) {
+				throw new Exception( `Expected ${ Otp.TokenLength( undefined, encoder ) } digits with \`${ encoder }\` encoder, got \`${ digits }\`.`, {
+					code: ErrorCode.INVALID_DIGITS,
+				} )
+			}
+			return Otp.Digits
+		}
+
+		/** The default digits count may exceed the maximum length supported by large alphabets. */
+		const value		= digits ?? String( Otp.Digits )
+		const maxDigits	= Otp.MaxDigits( alphabet )
+
+		if ( ! /^\d+$/.test( value ) || Number( value ) < 1 || Number( value ) > maxDigits ) {
+			throw new Exception( `Expected an integer between 1 and ${ maxDigits } digits, got \`${ value }\`.`, {
+				code: ErrorCode.INVALID_DIGITS,
+			} )
+		}
+
+		return Number( value )
+	}
+
+
+	/**
+	 * Parse the `period` otpauth URL parameter.
+	 *
+	 * @param	period The `period` parameter value.
+	 * @returns	The parsed period, `undefined` if no period has been provided.
+	 */
+	private static ParsePeriod( period: string | null ): OTP.TOTP.Period | undefined
+	{
+		if ( period == null ) return
+
+		if ( ! /^\d+$/.test( period ) || Number( period ) <= 0 ) {
+			throw new Exception( `Expected a positive integer period, got \`${ period }\`.`, {
+				code: ErrorCode.INVALID_PERIOD,
+			} )
+		}
+
+		return Number( period )
+	}
+
+
 	/**
 	 * Retrieve the Secret Key in different encodings.
 	 *
@@ -0,0 +1,864 @@
+import zlib from 'zlib'
+
+import { Exception } from '@alessiofrittoli/exception'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * Error correction levels ordinal and format bits.
+ *
+ */
+const Levels: Record<OTP.QR.ErrorCorrectionLevel, { ordinal: number, bits: number }> = {
+	L: { ordinal: 0, bits: 1 },
+	M: { ordinal: 1, bits: 0 },
+	Q: { ordinal: 2, bits: 3 },
+	H: { ordinal: 3, bits: 2 },
+}
+
+
+/**
+ * Error correction codewords per block, indexed by error correction level ordinal and version.
+ *
+ */
+const EccCodewordsPerBlock = [
+	[ -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30 ],
+	[ -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28 ],
+	[ -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30 ],
+	[ -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30 ],
+]
+
+
+/**
+ * Error correction blocks, indexed by error correction level ordinal and version.
+ *
+ */
+const EccBlocks = [
+	[ -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25 ],
+	[ -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49 ],
+	[ -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68 ],
+	[ -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81 ],
+]
+
+
+/**
+ * Penalty weights used to select the data mask pattern.
+ *
+ */
+const Penalty = { N1: 3, N2: 3, N3: 40, N4: 10 } as const
+
+
+/**
+ * Dependency-free QR Code encoder.
+ *
+ * Encodes data in byte mode, versions 1-40, with a selectable error correction level,
+ * and renders the symbol as SVG, PNG data URL or Unicode blocks for terminals.
+ *
+ * Based on ISO/IEC 18004.
+ */
+export class QRCode
+{
+	/**
+	 * The symbol version ( 1-40 ).
+	 *
+	 */
+	readonly version: number
+	/**
+	 * The error correction level.
+	 *
+	 */
+	readonly level: OTP.QR.ErrorCorrectionLevel
+	/**
+	 * The data mask pattern ( 0-7 ).
+	 *
+	 */
+	readonly mask: number
+	/**
+	 * The symbol width and height, in modules.
+	 *
+	 */
+	readonly size: number
+	/**
+	 * The symbol modules, indexed by row and column. `true` for dark modules.
+	 *
+	 */
+	readonly modules: boolean[][]
+	/**
+	 * Whether modules belong to function patterns and are not subject to masking.
+	 *
+	 */
+	private readonly functions: boolean[][]
+
+
+	/**
+	 * Constructs a new `QRCode` instance.
+	 *
+	 * @param	data	The data to encode. Strings are UTF-8 encoded.
+	 * @param	options	( Optional ) The encoding options. @see {@link OTP.QR.EncodeOptions}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if options are not valid.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.DATA_TOO_LONG` if the data doesn't fit in the maximum version.
+	 */
+	constructor( data: string | Buffer, options: OTP.QR.EncodeOptions = {} )
+	{
+		const { level = 'M', minVersion = 1, maxVersion = 40, mask } = options
+
+		if ( ! Levels[ level ] ) {
+			throw new Exception( `Unsupported error correction level \`${ level }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		if (
+			! Number.isInteger( minVersion ) || ! Number.isInteger( maxVersion ) ||
+			minVersion < 1 || maxVersion > 40 || minVersion > maxVersion
+		) {
+			throw new Exception( `Expected a version range within 1 and 40, got \`${ minVersion }-${ maxVersion }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		if ( mask != null && ( ! Number.isInteger( mask ) || mask < 0 || mask > 7 ) ) {
+			throw new Exception( `Expected a mask pattern within 0 and 7, got \`${ mask }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		const bytes = Buffer.from( data )
+		let version = minVersion
+
+		/** Byte mode: 4 bits mode indicator, 8 or 16 bits character count and 8 bits per byte. */
+		const bitsLength = ( version: number ) => 4 + ( version < 10 ? 8 : 16 ) + bytes.length * 8
+
+		while ( bitsLength( version ) > QRCode.DataCodewords( version, level ) * 8 ) {
+			if ( version >= maxVersion ) {
+				throw new Exception( `The given data doesn't fit in a version ${ maxVersion } QR Code with \`${ level }\` error correction level.`, {
+					code: ErrorCode.DATA_TOO_LONG,
+				} )
+			}
+			version++
+		}
+
+		this.version	= version
+		this.level		= level
+		this.size		= version * 4 + 17
+		this.modules	= Array.from( { length: this.size }, () => Array<boolean>( this.size ).fill( false ) )
+		this.functions	= Array.from( { length: this.size }, () => Array<boolean>( this.size ).fill( false ) )
+
+		this.drawFunctionPatterns()
+		this.drawCodewords( this.addEccAndInterleave( this.dataCodewords( bytes ) ) )
+
+		this.mask = mask ?? this.bestMask()
+		this.applyMask( this.mask )
+		this.drawFormatBits( this.mask )
+	}
+
+
+	/**
+	 * Render the QR Code as SVG.
+	 *
+	 * @param	options ( Optional ) The SVG rendering options. @see {@link OTP.QR.SVGOptions}
+	 * @returns	The SVG string.
+	 */
+	toSVG( options: OTP.QR.SVGOptions = {} )
+	{
+		const { margin = 4, dark = '#000000', light = '#ffffff', size } = options
+
+		const width	= this.size + margin * 2
+		const path	= this.modules.flatMap( ( row, y ) => (
+			row.flatMap( ( module, x ) => module ? [ `M${ x + margin },${ y + margin }h1v1h-1z` ] : [] )
+		) ).join( '' )
+
+		const dimensions = size != null ? ` width="${ QRCode.Escape( String( size ) ) }" height="${ QRCode.Escape( String( size ) ) }"` : ''
+
+		return (
+			`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${ width } ${ width }"${ dimensions } shape-rendering="crispEdges">` +
+			`<rect width="100%" height="100%" fill="${ QRCode.Escape( light ) }"/>` +
+			`<path d="${ path }" fill="${ QRCode.Escape( dark ) }"/>` +
+			'</svg>'
+		)
+	}
+
+
+	/**
+	 * Render the QR Code as PNG data URL.
+	 *
+	 * @param	options ( Optional ) The PNG rendering options. @see {@link OTP.QR.PNGOptions}
+	 * @returns	The PNG data URL.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given colors are not hex colors or if the scale is not a positive integer.
+	 */
+	toDataURL( options: OTP.QR.PNGOptions = {} )
+	{
+		const { margin = 4, dark = '#000000', light = '#ffffff', scale = 8 } = options
+
+		if ( ! Number.isInteger( scale ) || scale < 1 ) {
+			throw new Exception( `Expected a positive integer scale, got \`${ scale }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		const width		= ( this.size + margin * 2 ) * scale
+		const rowLength	= Math.ceil( width / 8 ) + 1
+		const raw		= Buffer.alloc( rowLength * width )
+
+		/** 1 bit per pixel indexed colors: palette index 0 is light, 1 is dark. Each scanline starts with filter type 0. */
+		for ( let py = 0; py < width; py++ ) {
+			const y = Math.floor( py / scale ) - margin
+
+			for ( let px = 0; px < width; px++ ) {
+				const x = Math.floor( px / scale ) - margin
+
+				if ( ! this.modules[ y ]?.[ x ] ) continue
+
+				raw[ py * rowLength + 1 + ( px >> 3 ) ]! |= 0x80 >> ( px & 7 )
+			}
+		}
+
+		const header = Buffer.alloc( 13 )
+		header.writeUInt32BE( width, 0 )
+		header.writeUInt32BE( width, 4 )
+		header.set( [ 1, 3, 0, 0, 0 ], 8 )
+
+		const png = Buffer.concat( [
+			Buffer.from( [ 0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a ] ),
+			QRCode.PNGChunk( 'IHDR', header ),
+			QRCode.PNGChunk( 'PLTE', Buffer.concat( [ QRCode.HexColor( light ), QRCode.HexColor( dark ) ] ) ),
+			QRCode.PNGChunk( 'IDAT', zlib.deflateSync( raw ) ),
+			QRCode.PNGChunk( 'IEND', Buffer.alloc( 0 ) ),
+		] )
+
+		return `data:image/png;base64,${ png.toString( 'base64' ) }`
+	}
+
+
+	/**
+	 * Render the QR Code with Unicode half block characters.
+	 *
+	 * Each text line represents 2 rows of modules.
+	 *
+	 * @param	options ( Optional ) The terminal rendering options. @see {@link OTP.QR.TerminalOptions}
+	 * @returns	The rendered QR Code.
+	 */
+	toTerminal( options: OTP.QR.TerminalOptions = {} )
+	{
+		const { margin = 4, invert = false } = options
+
+		const width		= this.size + margin * 2
+		const isDark	= ( x: number, y: number ) => (
+			( this.modules[ y - margin ]?.[ x - margin ] ?? false ) !== invert
+		)
+
+		const lines: string[] = []
+
+		for ( let y = 0; y < width; y += 2 ) {
+			let line = ''
+
+			for ( let x = 0; x < width; x++ ) {
+				const top		= isDark( x, y )
+				const bottom	= y + 1 < width && isDark( x, y + 1 )
+
+				line += top ? ( bottom ? '█' : '▀' ) : ( bottom ? '▄' : ' ' )
+			}
+
+			lines.push( line )
+		}
+
+		return lines.join( '\n' )
+	}
+
+
+	/**
+	 * Get the number of data codewords of the given version and error correction level.
+	 *
+	 * @param	version	The symbol version.
+	 * @param	level	The error correction level.
+	 * @returns	The number of data codewords.
+	 */
+	static DataCodewords( version: number, level: OTP.QR.ErrorCorrectionLevel )
+	{
+		const { ordinal } = Levels[ level ]
+
+		return (
+			Math.floor( QRCode.RawDataModules( version ) / 8 ) -
+			EccCodewordsPerBlock[ ordinal ]![ version ]! * EccBlocks[ ordinal ]![ version ]!
+		)
+	}
+
+
+	/**
+	 * Get the number of modules available to store data and error correction codewords in the given version.
+	 *
+	 * @param	version The symbol version.
+	 * @returns	The number of data modules, including remainder bits.
+	 */
+	private static RawDataModules( version: number )
+	{
+		let result = ( 16 * version + 128 ) * version + 64
+
+		if ( version >= 2 ) {
+			const alignments = Math.floor( version / 7 ) + 2
+			result -= ( 25 * alignments - 10 ) * alignments - 55
+			if ( version >= 7 ) result -= 36
+		}
+
+		return result
+	}
+
+
+	/**
+	 * Build the data codewords: mode indicator, character count, data, terminator and pad bytes.
+	 *
+	 * @param	bytes The data bytes.
+	 * @returns	The data codewords.
+	 */
+	private dataCodewords( bytes: Buffer )
+	{
+		const capacity	= QRCode.DataCodewords( this.version, this.level ) * 8
+		const bits: number[] = []
+
+		const append = ( value: number, length: number ) => {
+			for ( let i = length - 1; i >= 0; i-- ) bits.push( ( value >>> i ) & 1 )
+		}
+
+		append( 0b0100, 4 )
+		append( bytes.length, this.version < 10 ? 8 : 16 )
+		bytes.forEach( byte => append( byte, 8 ) )
+		append( 0, Math.min( 4, capacity - bits.length ) )
+		append( 0, ( 8 - bits.length % 8 ) % 8 )
+
+		const codewords: number[] = []
+
+		for ( let i = 0; i < bits.length; i += 8 ) {
+			codewords.push( bits.slice( i, i + 8 ).reduce( ( byte, bit ) => ( byte << 1 ) | bit, 0 ) )
+		}
+
+		for ( let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11 ) {
+			codewords.push( pad )
+		}
+
+		return codewords
+	}
+
+
+	/**
+	 * Split data codewords into blocks, append the Reed-Solomon error correction codewords and interleave them.
+	 *
+	 * @param	data The data codewords.
+	 * @returns	The final sequence of codewords.
+	 */
+	private addEccAndInterleave( data: number[] )
+	{
+		const { ordinal }	= Levels[ this.level ]
+		const blocks		= EccBlocks[ ordinal ]![ this.version ]!
+		const eccLength		= EccCodewordsPerBlock[ ordinal ]![ this.version ]!
+		const raw			= Math.floor( QRCode.RawDataModules( this.version ) / 8 )
+		const shortBlocks	= blocks - raw % blocks
+		const shortLength	= Math.floor( raw / blocks )
+		const divisor		= QRCode.ReedSolomonDivisor( eccLength )
+
+		const result: number[]		= []
+		const dataBlocks: number[][]	= []
+		const eccBlocks: number[][]	= []
+
+		for ( let i = 0, k = 0; i < blocks; i++ ) {
+			const block = data.slice( k, k + shortLength - eccLength + ( i < shortBlocks ? 0 : 1 ) )
+			k += block.length
+			dataBlocks.push( block )
+			eccBlocks.push( QRCode.ReedSolomonRemainder( block, divisor ) )
+		}
+
+		for ( let i = 0; i <= shortLength - eccLength; i++ ) {
+			dataBlocks.forEach( block => {
+				if ( i < block.length ) result.push( block[ i ]! )
+			} )
+		}
+
+		for ( let i = 0; i < eccLength; i++ ) {
+			eccBlocks.forEach( block => result.push( block[ i ]! ) )
+		}
+
+		return result
+	}
+
+
+	/**
+	 * Draw finder, timing, alignment and version patterns and reserve format information modules.
+	 *
+	 */
+	private drawFunctionPatterns()
+	{
+		for ( let i = 0; i < this.size; i++ ) {
+			this.setFunction( 6, i, i % 2 === 0 )
+			this.setFunction( i, 6, i % 2 === 0 )
+		}
+
+		this.drawFinderPattern( 3, 3 )
+		this.drawFinderPattern( this.size - 4, 3 )
+		this.drawFinderPattern( 3, this.size - 4 )
+
+		const positions	= this.alignmentPositions()
+		const last		= positions.length - 1
+
+		positions.forEach( ( y, i ) => positions.forEach( ( x, j ) => {
+			/** Skip the alignment patterns overlapping the finder patterns. */
+			if ( ( i === 0 && j === 0 ) || ( i === 0 && j === last ) || ( i === last && j === 0 ) ) return
+			this.drawAlignmentPattern( x, y )
+		} ) )
+
+		this.drawFormatBits( 0 )
+		this.drawVersion()
+	}
+
+
+	/**
+	 * Draw a finder pattern and its separator.
+	 *
+	 * @param	x The center module column.
+	 * @param	y The center module row.
+	 */
+	private drawFinderPattern( x: number, y: number )
+	{
+		for ( let dy = -4; dy <= 4; dy++ ) {
+			for ( let dx = -4; dx <= 4; dx++ ) {
+				const distance	= Math.max( Math.abs( dx ), Math.abs( dy ) )
+				const _x		= x + dx
+				const _y		= y + dy
+
+				if ( _x < 0 || _x >= this.size || _y < 0 || _y >= this.size ) continue
+
+				this.setFunction( _x, _y, distance !== 2 && distance !== 4 )
+			}
+		}
+	}
+
+
+	/**
+	 * Draw an alignment pattern.
+	 *
+	 * @param	x The center module column.
+	 * @param	y The center module row.
+	 */
+	private drawAlignmentPattern( x: number, y: number )
+	{
+		for ( let dy = -2; dy <= 2; dy++ ) {
+			for ( let dx = -2; dx <= 2; dx++ ) {
+				this.setFunction( x + dx, y + dy, Math.max( Math.abs( dx ), Math.abs( dy ) ) !== 1 )
+			}
+		}
+	}
+
+
+	/**
+	 * Get the alignment patterns center positions.
+	 *
+	 * @returns	The ascending list of rows/columns where alignment patterns are centered.
+	 */
+	private alignmentPositions()
+	{
+		if ( this.version === 1 ) return []
+
+		const count		= Math.floor( this.version / 7 ) + 2
+		const step		= Math.floor( ( this.version * 8 + count * 3 + 5 ) / ( count * 4 - 4 ) ) * 2
+		const result	= [ 6 ]
+
+		for ( let position = this.size - 7; result.length < count; position -= step ) {
+			result.splice( 1, 0, position )
+		}
+
+		return result
+	}
+
+
+	/**
+	 * Draw the format information ( error correction level and mask pattern ) with its BCH error correction bits.
+	 *
+	 * @param	mask The mask pattern.
+	 */
+	private drawFormatBits( mask: number )
+	{
+		const data	= ( Levels[ this.level ].bits << 3 ) | mask
+		let rem		= data
+
+		for ( let i = 0; i < 10; i++ ) rem = ( rem << 1 ) ^ ( ( rem >>> 9 ) * 0x537 )
+
+		const bits	= ( ( data << 10 ) | rem ) ^ 0x5412
+		const bit	= ( i: number ) => ( ( bits >>> i ) & 1 ) !== 0
+
+		/** First copy, around the top-left finder pattern. */
+		for ( let i = 0; i <= 5; i++ ) this.setFunction( 8, i, bit( i ) )
+		this.setFunction( 8, 7, bit( 6 ) )
+		this.setFunction( 8, 8, bit( 7 ) )
+		this.setFunction( 7, 8, bit( 8 ) )
+		for ( let i = 9; i < 15; i++ ) this.setFunction( 14 - i, 8, bit( i ) )
+
+		/** Second copy, split between the top-right and bottom-left finder patterns. */
+		for ( let i = 0; i < 8; i++ ) this.setFunction( this.size - 1 - i, 8, bit( i ) )
+		for ( let i = 8; i < 15; i++ ) this.setFunction( 8, this.size - 15 + i, bit( i ) )
+
+		/** The dark module. */
+		this.setFunction( 8, this.size - 8, true )
+	}
+
+
+	/**
+	 * Draw the version information with its BCH error correction bits ( versions 7 and above ).
+	 *
+	 */
+	private drawVersion()
+	{
+		if ( this.version < 7 ) return
+
+		let rem = this.version
+
+		for ( let i = 0; i < 12; i++ ) rem = ( rem << 1 ) ^ ( ( rem >>> 11 ) * 0x1f25 )
+
+		const bits = ( this.version << 12 ) | rem
+
+		for ( let i = 0; i < 18; i++ ) {
+			const dark	= ( ( bits >>> i ) & 1 ) !== 0
+			const a		= this.size - 11 + i % 3
+			const b		= Math.floor( i / 3 )
+
+			this.setFunction( a, b, dark )
+			this.setFunction( b, a, dark )
+		}
+	}
+
+
+	/**
+	 * Place the codewords bits in the zigzag order, skipping function patterns.
+	 *
+	 * @param	codewords The final sequence of codewords.
+	 */
+	private drawCodewords( codewords: number[] )
+	{
+		let i = 0
+
+		for ( let right = this.size - 1; right >= 1; right -= 2 ) {
+			/** The vertical timing pattern column is skipped. */
+			if ( right === 6 ) right = 5
+
+			for ( let vertical = 0; vertical < this.size; vertical++ ) {
+				for ( let j = 0; j < 2; j++ ) {
+					const x			= right - j
+					const upward	= ( ( right + 1 ) & 2 ) === 0
+					const y			= upward ? this.size - 1 - vertical : vertical
+
+					if ( this.functions[ y ]![ x ] || i >= codewords.length * 8 ) continue
+
+					this.modules[ y ]![ x ] = ( ( codewords[ i >>> 3 ]! >>> ( 7 - ( i & 7 ) ) ) & 1 ) !== 0
+					i++
+				}
+			}
+		}
+	}
+
+
+	/**
+	 * XOR the data modules with the given mask pattern. Applying the same mask twice restores the modules.
+	 *
+	 * @param	mask The mask pattern.
+	 */
+	private applyMask( mask: number )
+	{
+		const patterns: ( ( x: number, y: number ) => boolean )[] = [
+			( x, y ) => ( x + y ) % 2 === 0,
+			( x, y ) => y % 2 === 0,
+			( x ) => x % 3 === 0,
+			( x, y ) => ( x + y ) % 3 === 0,
+			( x, y ) => ( Math.floor( x / 3 ) + Math.floor( y / 2 ) ) % 2 === 0,
+			( x, y ) => x * y % 2 + x * y % 3 === 0,
+			( x, y ) => ( x * y % 2 + x * y % 3 ) % 2 === 0,
+			( x, y ) => ( ( x + y ) % 2 + x * y % 3 ) % 2 === 0,
+		]
+
+		const pattern = patterns[ mask ]!
+
+		for ( let y = 0; y < this.size; y++ ) {
+			for ( let x = 0; x < this.size; x++ ) {
+				if ( this.functions[ y ]![ x ] || ! pattern( x, y ) ) continue
+				this.modules[ y ]![ x ] = ! this.modules[ y ]![ x ]
+			}
+		}
+	}
+
+
+	/**
+	 * Get the mask pattern with the lowest penalty score.
+	 *
+	 * @returns	The mask pattern.
+	 */
+	private bestMask()
+	{
+		let best	= 0
+		let lowest	= Infinity
+
+		for ( let mask = 0; mask < 8; mask++ ) {
+			this.applyMask( mask )
+			this.drawFormatBits( mask )
+
+			const penalty = this.penalty()
+
+			if ( penalty < lowest ) {
+				best	= mask
+				lowest	= penalty
+			}
+
+			this.applyMask( mask )
+		}
+
+		return best
+	}
+
+
+	/**
+	 * Compute the penalty score of the current modules.
+	 *
+	 * @returns	The penalty score.
+	 */
+	private penalty()
+	{
+		let result = 0
+
+		const lines: boolean[][] = [
+			...this.modules,
+			...this.modules.map( ( _, x ) => this.modules.map( row => row[ x ]! ) ),
+		]
+
+		/** Adjacent modules in row/column with the same color and finder-like patterns. */
+		lines.forEach( line => {
+			const history	= Array<number>( 7 ).fill( 0 )
+			let color		= false
+			let run			= 0
+
+			line.forEach( module => {
+				if ( module === color ) {
+					run++
+					if ( run === 5 ) result += Penalty.N1
+					else if ( run > 5 ) result++
+					return
+				}
+
+				this.addRunHistory( run, history )
+				if ( ! color ) result += this.finderPatterns( history ) * Penalty.N3
+				color	= module
+				run		= 1
+			} )
+
+			/** Terminate the line with a light border run. */
+			if ( color ) {
+				this.addRunHistory( run, history )
+				run = 0
+			}
+			this.addRunHistory( run + this.size, history )
+			result += this.finderPatterns( history ) * Penalty.N3
+		} )
+
+		/** 2x2 blocks of modules with the same color. */
+		for ( let y = 0; y < this.size - 1; y++ ) {
+			for ( let x = 0; x < this.size - 1; x++ ) {
+				const color = this.modules[ y ]![ x ]
+
+				if (
+					color === this.modules[ y ]![ x + 1 ] &&
+					color === this.modules[ y + 1 ]![ x ] &&
+					color === this.modules[ y + 1 ]![ x + 1 ]
+				) result += Penalty.N2
+			}
+		}
+
+		/** Balance of dark and light modules. */
+		const dark	= this.modules.reduce( ( count, row ) => count + row.filter( Boolean ).length, 0 )
+		const total	= this.size * this.size
+		const k		= Math.ceil( Math.abs( dark * 20 - total * 10 ) / total ) - 1
+
+		return result + k * Penalty.N4
+	}
+
+
+	/**
+	 * Push a run length to the run history, adding the light border to the first run.
+	 *
+	 * @param	length	The run length.
+	 * @param	history	The run history, most recent first.
+	 */
+	private addRunHistory( length: number, history: number[] )
+	{
+		if ( history[ 0 ] === 0 ) length += this.size
+
+		history.pop()
+		history.unshift( length )
+	}
+
+
+	/**
+	 * Count the finder-like patterns ( 1:1:3:1:1 with 4 light modules on either side ) at the end of the run history.
+	 *
+	 * @param	history The run history, most recent first.
+	 * @returns	The number of finder-like patterns ( 0-2 ).
+	 */
+	private finderPatterns( history: number[] )
+	{
+		const [ h0 = 0, n = 0, h2, h3, h4, h5, h6 = 0 ] = history
+
+		const core = n > 0 && h2 === n && h3 === n * 3 && h4 === n && h5 === n
+
+		return (
+			( core && h0 >= n * 4 && h6 >= n ? 1 : 0 ) +
+			( core && h6 >= n * 4 && h0 >= n ? 1 : 0 )
+		)
+	}
+
+
+	/**
+	 * Set a function module.
+	 *
+	 * @param	x		The module column.
+	 * @param	y		The module row.
+	 * @param	dark	Whether the module is dark.
+	 */
+	private setFunction( x: number, y: number, dark: boolean )
+	{
+		this.modules[ y ]![ x ]		= dark
+		this.functions[ y ]![ x ]	= true
+	}
+
+
+	/**
+	 * Compute the Reed-Solomon generator polynomial of the given degree.
+	 *
+	 * @param	degree The number of error correction codewords.
+	 * @returns	The generator polynomial coefficients, highest to lowest power, excluding the leading term.
+	 */
+	private static ReedSolomonDivisor( degree: number )
+	{
+		const result = Array<number>( degree ).fill( 0 )
+		result[ degree - 1 ] = 1
+
+		let root = 1
+
+		for ( let i = 0; i < degree; i++ ) {
+			for ( let j = 0; j < result.length; j++ ) {
+				result[ j ] = QRCode.GFMultiply( result[ j ]!, root )
+				if ( j + 1 < result.length ) result[ j ]! ^= result[ j + 1 ]!
+			}
+			root = QRCode.GFMultiply( root, 0x02 )
+		}
+
+		return result
+	}
+
+
+	/**
+	 * Compute the Reed-Solomon error correction codewords of the given data.
+	 *
+	 * @param	data	The data codewords.
+	 * @param	divisor	The generator polynomial.
+	 * @returns	The error correction codewords.
+	 */
+	private static ReedSolomonRemainder( data: number[], divisor: number[] )
+	{
+		const result = divisor.map( () => 0 )
+
+		data.forEach( byte => {
+			const factor = byte ^ result.shift()!
+			result.push( 0 )
+			divisor.forEach( ( coefficient, i ) => {
+				result[ i ]! ^= QRCode.GFMultiply( coefficient, factor )
+			} )
+		} )
+
+		return result
+	}
+
+
+	/**
+	 * Multiply two elements of GF(2^8) modulo the QR Code polynomial `x^8 + x^4 + x^3 + x^2 + 1`.
+	 *
+	 * @param	x The first element.
+	 * @param	y The second element.
+	 * @returns	The product.
+	 */
+	private static GFMultiply( x: number, y: number )
+	{
+		let z = 0
+
+		for ( let i = 7; i >= 0; i-- ) {
+			z = ( z << 1 ) ^ ( ( z >>> 7 ) * 0x11d )
+			z ^= ( ( y >>> i ) & 1 ) * x
+		}
+
+		return z
+	}
+
+
+	/**
+	 * Build a PNG chunk.
+	 *
+	 * @param	type The chunk type.
+	 * @param	data The chunk data.
+	 * @returns	The chunk bytes: length, type, data and CRC-32.
+	 */
+	private static PNGChunk( type: string, data: Buffer )
+	{
+		const chunk = Buffer.alloc( data.length + 12 )
+
+		chunk.writeUInt32BE( data.length, 0 )
+		chunk.write( type, 4, 'ascii' )
+		data.copy( chunk, 8 )
+		chunk.writeUInt32BE( QRCode.CRC32( chunk.subarray( 4, chunk.length - 4 ) ), chunk.length - 4 )
+
+		return chunk
+	}
+
+
+	/**
+	 * Compute the CRC-32 of the given bytes.
+	 *
+	 * @param	bytes The input bytes.
+	 * @returns	The unsigned CRC-32.
+	 */
+	private static CRC32( bytes: Buffer )
+	{
+		let crc = 0xffffffff
+
+		for ( const byte of bytes ) {
+			crc ^= byte
+			for ( let i = 0; i < 8; i++ ) crc = ( crc >>> 1 ) ^ ( 0xedb88320 & -( crc & 1 ) )
+		}
+
+		return ( crc ^ 0xffffffff ) >>> 0
+	}
+
+
+	/**
+	 * Parse a `#rgb` or `#rrggbb` hex color.
+	 *
+	 * @param	color The hex color.
+	 * @returns	The RGB bytes.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given color is not a hex color.
+	 */
+	private static HexColor( color: string )
+	{
+		const hex = color.replace( /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i, '#$1$1$2$2$3$3' )
+
+		if ( ! /^#[0-9a-f]{6}$/i.test( hex ) ) {
+			throw new Exception( `Expected a \`#rgb\` or \`#rrggbb\` hex color, got \`${ color }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return Buffer.from( hex.slice( 1 ), 'hex' )
+	}
+
+
+	/**
+	 * Escape a value for use in an XML attribute.
+	 *
+	 * @param	value The value to escape.
+	 * @returns	The escaped value.
+	 */
+	private static Escape( value: string )
+	{
+		return value.replace( /[&<>"']/g, char => `&#${ char.charCodeAt( 0 ) };` )
+	}
+}
\ No newline at end of file
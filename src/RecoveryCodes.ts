@@ -0,0 +1,292 @@
+import crypto from 'crypto'
+
+import { Exception } from '@alessiofrittoli/exception'
+
+import { Core } from './Core'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * Single-use backup recovery codes.
+ *
+ * Recovery codes are shown to the user once in plaintext while only their salted scrypt hashes get stored.
+ * Hashes are serialized as `scrypt$<cost>$<block size>$<parallelization>$<salt>$<hash>` where salt and hash are `base64url` encoded.
+ * Hashes are computed with the asynchronous `crypto.scrypt()` so they don't block the event loop.
+ */
+export class RecoveryCodes
+{
+	/**
+	 * The default number of generated recovery codes.
+	 *
+	 */
+	static readonly Count = 10
+	/**
+	 * The default recovery codes characters set.
+	 *
+	 * Ambiguous characters ( `0`, `O`, `1` and `I` ) are excluded.
+	 */
+	static readonly CodeAlphabet = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'
+	/**
+	 * The default recovery code length, separators excluded.
+	 *
+	 */
+	static readonly Length = 10
+	/**
+	 * The default group size.
+	 *
+	 */
+	static readonly GroupSize = 5
+	/**
+	 * The default groups separator.
+	 *
+	 */
+	static readonly Separator = '-'
+	/**
+	 * The scrypt parameters used to hash new recovery codes.
+	 *
+	 */
+	private static readonly ScryptParams = { cost: 16384, blockSize: 8, parallelization: 1, saltLength: 16, keyLength: 32 }
+
+
+	/**
+	 * Generate recovery codes.
+	 *
+	 * @param	options ( Optional ) The GenerateOptions object. @see {@link OTP.RECOVERY.GenerateOptions}
+	 * @returns	A new Promise resolved with the plaintext recovery codes and their salted hashes. @see {@link OTP.RECOVERY.Generated}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given count, length, group size or separator are not valid.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALPHABET` if the given alphabet is not valid.
+	 */
+	static async Generate( options: OTP.RECOVERY.GenerateOptions = {} ): Promise<OTP.RECOVERY.Generated>
+	{
+		const { count = RecoveryCodes.Count } = options
+		const format = RecoveryCodes.Format( options )
+
+		if ( ! Number.isInteger( count ) || count < 1 ) {
+			throw new Exception( `Expected a positive integer recovery codes count, got \`${ count }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		const codes = new Set<string>()
+
+		while ( codes.size < count ) {
+			codes.add( Core.RandomString( format.length, format.alphabet, crypto.randomBytes ) )
+		}
+
+		return {
+			codes	: Array.from( codes, code => RecoveryCodes.Group( code, format ) ),
+			hashes	: await Promise.all( Array.from( codes, code => RecoveryCodes.Digest( code ) ) ),
+		}
+	}
+
+
+	/**
+	 * Hash a recovery code for storage.
+	 *
+	 * @param	code	The recovery code.
+	 * @param	options	( Optional ) The recovery codes format. @see {@link OTP.RECOVERY.FormatOptions}
+	 * @returns	A new Promise resolved with the salted recovery code hash.
+	 */
+	static async Hash( code: string, options: OTP.RECOVERY.FormatOptions = {} )
+	{
+		return RecoveryCodes.Digest( RecoveryCodes.Normalize( code, RecoveryCodes.Format( options ) ) )
+	}
+
+
+	/**
+	 * Verify a submitted recovery code against the stored hashes.
+	 *
+	 * The submitted code is compared against every stored hash in constant time, regardless of which one matches.
+	 * Hashes are computed concurrently on the libuv thread pool.
+	 * Store the returned `hashes` in place of the previous ones to mark the code as consumed.
+	 *
+	 * @param	code	The submitted recovery code.
+	 * @param	hashes	The stored recovery code hashes.
+	 * @param	options	( Optional ) The recovery codes format. @see {@link OTP.RECOVERY.FormatOptions}
+	 * @returns	A new Promise resolved with the verification result. @see {@link OTP.RECOVERY.VerifyResult}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.EMPTY_VALUE` if no code has been provided.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if a stored hash is malformed.
+	 */
+	static async Verify( code: string, hashes: string[], options: OTP.RECOVERY.FormatOptions = {} ): Promise<OTP.RECOVERY.VerifyResult>
+	{
+		const format		= RecoveryCodes.Format( options )
+		const normalized	= RecoveryCodes.Normalize( code || '', format )
+
+		if ( ! normalized ) {
+			throw new Exception( 'No recovery code has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		if ( normalized.length !== format.length ) return { valid: false, index: -1, hashes }
+
+		const parsed	= hashes.map( hash => RecoveryCodes.Parse( hash ) )
+		const actual	= await Promise.all(
+			parsed.map( ( { salt, digest, params } ) => RecoveryCodes.Scrypt( normalized, salt, digest.length, params ) )
+		)
+
+		let index = -1
+
+		parsed.forEach( ( { digest }, i ) => {
+			if ( crypto.timingSafeEqual( actual[ i ]!, digest ) && index === -1 ) index = i
+		} )
+
+		if ( index === -1 ) return { valid: false, index, hashes }
+
+		return { valid: true, index, hashes: hashes.filter( ( _, i ) => i !== index ) }
+	}
+
+
+	/**
+	 * Resolve and validate the recovery codes format.
+	 *
+	 * @param	options The recovery codes format.
+	 * @returns	The resolved recovery codes format.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given length, group size or separator are not valid.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALPHABET` if the given alphabet is not valid.
+	 */
+	private static Format( options: OTP.RECOVERY.FormatOptions ): Required<OTP.RECOVERY.FormatOptions>
+	{
+		const {
+			alphabet = RecoveryCodes.CodeAlphabet, length = RecoveryCodes.Length,
+			groupSize = RecoveryCodes.GroupSize, separator = RecoveryCodes.Separator,
+		} = options
+
+		if ( alphabet.length < 2 || alphabet.length > 256 || new Set( alphabet ).size !== alphabet.length ) {
+			throw new Exception( 'The recovery codes alphabet must contain from 2 to 256 unique characters.', {
+				code: ErrorCode.INVALID_ALPHABET,
+			} )
+		}
+
+		if ( ! Number.isInteger( length ) || length < 1 ) {
+			throw new Exception( `Expected a positive integer recovery code length, got \`${ length }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		if ( ! Number.isInteger( groupSize ) || groupSize < 0 ) {
+			throw new Exception( `Expected a non-negative integer group size, got \`${ groupSize }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		if ( [ ...separator ].some( char => alphabet.includes( char ) ) ) {
+			throw new Exception( 'The groups separator cannot contain alphabet characters.', {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return { alphabet, length, groupSize, separator }
+	}
+
+
+	/**
+	 * Split a recovery code into groups.
+	 *
+	 * @param	code	The recovery code.
+	 * @param	format	The resolved recovery codes format.
+	 * @returns	The grouped recovery code.
+	 */
+	private static Group( code: string, format: Required<OTP.RECOVERY.FormatOptions> )
+	{
+		const { groupSize, separator } = format
+
+		if ( ! groupSize ) return code
+
+		const groups: string[] = []
+
+		for ( let index = 0; index < code.length; index += groupSize ) {
+			groups.push( code.slice( index, index + groupSize ) )
+		}
+
+		return groups.join( separator )
+	}
+
+
+	/**
+	 * Normalize a submitted recovery code.
+	 *
+	 * Whitespaces and separators are removed. The code is uppercased if the alphabet doesn't contain lowercase letters.
+	 *
+	 * @param	code	The submitted recovery code.
+	 * @param	format	The resolved recovery codes format.
+	 * @returns	The normalized recovery code.
+	 */
+	private static Normalize( code: string, format: Required<OTP.RECOVERY.FormatOptions> )
+	{
+		const { alphabet, separator } = format
+
+		const normalized = ( separator ? code.split( separator ).join( '' ) : code ).replace( /\s/g, '' )
+
+		return alphabet === alphabet.toUpperCase() ? normalized.toUpperCase() : normalized
+	}
+
+
+	/**
+	 * Hash a normalized recovery code with a new random salt.
+	 *
+	 * @param	code The normalized recovery code.
+	 * @returns	A new Promise resolved with the salted recovery code hash.
+	 */
+	private static async Digest( code: string )
+	{
+		const { cost, blockSize, parallelization, saltLength, keyLength } = RecoveryCodes.ScryptParams
+
+		const salt		= crypto.randomBytes( saltLength )
+		const digest	= await RecoveryCodes.Scrypt( code, salt, keyLength, { cost, blockSize, parallelization } )
+
+		return [
+			'scrypt', cost, blockSize, parallelization, salt.toString( 'base64url' ), digest.toString( 'base64url' ),
+		].join( '$' )
+	}
+
+
+	/**
+	 * Derive a key with the asynchronous `crypto.scrypt()`.
+	 *
+	 * @param	code		The normalized recovery code.
+	 * @param	salt		The salt.
+	 * @param	keyLength	The derived key length in bytes.
+	 * @param	params		The scrypt parameters.
+	 * @returns	A new Promise resolved with the derived key.
+	 */
+	private static Scrypt( code: string, salt: Buffer, keyLength: number, params: crypto.ScryptOptions )
+	{
+		return new Promise<Buffer>( ( resolve, reject ) => {
+			crypto.scrypt( code, salt, keyLength, params, ( error, key ) => error ? reject( error ) : resolve( key ) )
+		} )
+	}
+
+
+	/**
+	 * Parse a stored recovery code hash.
+	 *
+	 * @param	hash The stored recovery code hash.
+	 * @returns	The parsed salt, digest and scrypt parameters.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given hash is malformed.
+	 */
+	private static Parse( hash: string )
+	{
+		const [ algorithm, cost, blockSize, parallelization, salt, digest, ...rest ] = ( hash || '' ).split( '$' )
+
+		const params = {
+			cost: Number( cost ), blockSize: Number( blockSize ), parallelization: Number( parallelization ),
+		}
+
+		if (
+			algorithm !== 'scrypt' || ! salt || ! digest || rest.length ||
+			! Object.values( params ).every( value => Number.isInteger( value ) && value > 0 )
+		) {
+			throw new Exception( 'The given recovery code hash is malformed.', {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return {
+			salt	: Buffer.from( salt, 'base64url' ),
+			digest	: Buffer.from( digest, 'base64url' ),
+			params	: { ...params, maxmem: 256 * params.cost * params.blockSize },
+		}
+	}
+}
\ No newline at end of file
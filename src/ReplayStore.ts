@@ -0,0 +1,135 @@
+import { Clock } from './Clock'
+import type { OTP } from './types'
+
+
+/**
+ * Defines the options to create a new `MemoryReplayStore` instance.
+ *
+ */
+export interface MemoryReplayStoreOptions
+{
+	/**
+	 * Time in seconds after which a recorded counter gets evicted.
+	 *
+	 * ⚠️ It should not be lower than the time span covered by the verification window ( ( window * 2 + 1 ) * period ),
+	 * otherwise a token could be accepted again after its counter has been evicted.
+	 *
+	 * @default 600
+	 */
+	ttl?: number
+	/**
+	 * The time source used to evict recorded counters.
+	 *
+	 * Pass the clock used for verification so recorded counters expire with the verification time.
+	 *
+	 * @default new Clock()
+	 */
+	clock?: OTP.TOTP.Clock
+}
+
+
+/**
+ * In-memory replay store with TTL eviction.
+ *
+ * Records the last accepted TOTP time-step counter for each credential in the current process.
+ * To share counters between processes, implement {@link OTP.TOTP.AsyncReplayStore} and verify tokens with the Web Crypto implementation.
+ */
+export class MemoryReplayStore implements OTP.TOTP.ReplayStore
+{
+	/**
+	 * Time in seconds after which a recorded counter gets evicted.
+	 *
+	 */
+	readonly ttl: number
+	/**
+	 * The time source used to evict recorded counters.
+	 *
+	 */
+	private readonly clock: OTP.TOTP.Clock
+	/**
+	 * The recorded counters, indexed by credential ID.
+	 *
+	 */
+	private entries = new Map<string, { counter: number, expires: number }>()
+
+
+	/**
+	 * Constructs a new `MemoryReplayStore` instance.
+	 *
+	 * @param options ( Optional ) The store options. @see {@link MemoryReplayStoreOptions}
+	 */
+	constructor( options: MemoryReplayStoreOptions = {} )
+	{
+		const { ttl = 600, clock = new Clock() } = options
+
+		this.ttl	= ttl
+		this.clock	= clock
+	}
+
+
+	/**
+	 * Get the last accepted time-step counter for the given credential.
+	 *
+	 * @param	id The credential ID.
+	 * @returns	The last accepted time-step counter, `undefined` if none has been recorded or if it has been evicted.
+	 */
+	get( id: string )
+	{
+		const entry = this.entries.get( id )
+
+		if ( ! entry ) return
+
+		if ( entry.expires <= this.clock.now() ) {
+			this.entries.delete( id )
+			return
+		}
+
+		return entry.counter
+	}
+
+
+	/**
+	 * Record the accepted time-step counter for the given credential if it is greater than the last recorded one.
+	 *
+	 * @param	id		The credential ID.
+	 * @param	counter	The accepted time-step counter.
+	 * @returns	`true` if the counter has been recorded, `false` if a greater or equal counter had already been recorded.
+	 */
+	setIfGreater( id: string, counter: number )
+	{
+		const last = this.get( id )
+
+		if ( last != null && counter <= last ) return false
+
+		this.evict()
+		this.entries.set( id, { counter, expires: this.clock.now() + this.ttl * 1000 } )
+
+		return true
+	}
+
+
+	/**
+	 * Remove the recorded counter for the given credential.
+	 *
+	 * @param	id The credential ID.
+	 */
+	delete( id: string )
+	{
+		this.entries.delete( id )
+	}
+
+
+	/**
+	 * Remove expired entries.
+	 *
+	 */
+	private evict()
+	{
+		const now = this.clock.now()
+
+		this.entries.forEach( ( entry, id ) => {
+			if ( entry.expires > now ) return
+			this.entries.delete( id )
+		} )
+	}
+}
\ No newline at end of file
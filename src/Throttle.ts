@@ -0,0 +1,244 @@
+import { Exception } from '@alessiofrittoli/exception'
+import { Hotp } from './Hotp'
+import { Totp } from './Totp'
+import { MemoryThrottleStore } from './ThrottleStore'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * Throttling and lockout policy for failed OTP verifications.
+ *
+ * Failed verifications are counted per credential ID. Each failure applies an exponential back-off delay
+ * and the credential gets locked after `maxFailures` consecutive failures. A successful verification resets the state.
+ *
+ * Without a `lockout` duration, locked credentials stay locked until `reset()` is called. When a lockout expires, a single further failure
+ * locks the credential again, unless `resetOnUnlock` is set.
+ *
+ * [RFC 4226 - IETF](https://datatracker.ietf.org/doc/html/rfc4226#section-7.3)
+ */
+export class Throttle
+{
+	/**
+	 * The store where failed verifications are recorded.
+	 *
+	 */
+	readonly store: OTP.ThrottleStore
+	/**
+	 * The number of consecutive failed verifications after which the credential gets locked.
+	 *
+	 */
+	readonly maxFailures: number
+	/**
+	 * The back-off delay in seconds applied after the first failed verification.
+	 *
+	 */
+	readonly delay: number
+	/**
+	 * The factor by which the back-off delay gets multiplied on each subsequent failed verification.
+	 *
+	 */
+	readonly factor: number
+	/**
+	 * The maximum back-off delay in seconds.
+	 *
+	 */
+	readonly maxDelay: number
+	/**
+	 * The lockout duration in seconds.
+	 *
+	 */
+	readonly lockout?: number
+	/**
+	 * Whether the failed verifications count restarts from 0 when a lockout expires.
+	 *
+	 */
+	readonly resetOnUnlock: boolean
+	/**
+	 * The time source used to compute back-off delays and lockouts.
+	 *
+	 */
+	private readonly clock: OTP.TOTP.Clock
+
+
+	/**
+	 * Constructs a new `Throttle` instance.
+	 *
+	 * @param options ( Optional ) The throttling options. @see {@link OTP.ThrottleOptions}
+	 */
+	constructor( options: OTP.ThrottleOptions = {} )
+	{
+		const {
+			store = new MemoryThrottleStore(), maxFailures = 10,
+			delay = 1, factor = 2, maxDelay = 300, lockout, resetOnUnlock = false, clock = Totp.Clock,
+		} = options
+
+		this.store			= store
+		this.maxFailures	= maxFailures
+		this.delay			= delay
+		this.factor			= factor
+		this.maxDelay		= maxDelay
+		this.lockout		= lockout
+		this.resetOnUnlock	= resetOnUnlock
+		this.clock			= clock
+	}
+
+
+	/**
+	 * Get the throttling status of the given credential.
+	 *
+	 * @param	id The credential ID.
+	 * @returns	The throttling status. @see {@link OTP.ThrottleStatus}
+	 */
+	status( id: string ): OTP.ThrottleStatus
+	{
+		const state = this.store.get( id )
+
+		if ( ! state ) return { failures: 0, locked: false }
+
+		const { failures, lastFailure } = state
+		const now = this.clock.now()
+
+		if ( failures >= this.maxFailures ) {
+
+			if ( this.lockout == null ) return { failures, locked: true }
+
+			const retryAfter = lastFailure + this.lockout * 1000
+
+			if ( retryAfter > now ) {
+				return { failures, locked: true, retryAfter: new Date( retryAfter ) }
+			}
+
+			if ( this.resetOnUnlock ) return { failures: 0, locked: false }
+
+		}
+
+		const delay			= Math.min( this.delay * Math.pow( this.factor, failures - 1 ), this.maxDelay )
+		const retryAfter	= lastFailure + delay * 1000
+
+		if ( delay <= 0 || retryAfter <= now ) return { failures, locked: false }
+
+		return { failures, locked: false, retryAfter: new Date( retryAfter ) }
+	}
+
+
+	/**
+	 * Run the given verifier honoring the throttling policy of the given credential.
+	 *
+	 * @param	id			The credential ID.
+	 * @param	verifier	A function returning `true` if the verification succeeded, `false` otherwise.
+	 * @returns	The verifier result.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.TOO_MANY` if the credential is locked.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.TOO_EARLY` if the back-off delay has not elapsed yet.
+	 */
+	verify( id: string, verifier: () => boolean )
+	{
+		const { failures, locked, retryAfter } = this.status( id )
+
+		if ( locked ) {
+			throw new Exception( 'Too many failed verifications. The credential has been locked.', {
+				code: ErrorCode.TOO_MANY,
+			} )
+		}
+
+		if ( retryAfter ) {
+			throw new Exception( `Too many failed verifications. Retry after ${ retryAfter.toISOString() }.`, {
+				code: ErrorCode.TOO_EARLY,
+			} )
+		}
+
+		if ( verifier() ) {
+			this.reset( id )
+			return true
+		}
+
+		this.fail( id, failures )
+
+		return false
+	}
+
+
+	/**
+	 * Run the given checker honoring the throttling policy of the given credential.
+	 *
+	 * Unlike `throttle.verify()`, locked and throttled credentials are reported with the `locked` reason instead of throwing.
+	 *
+	 * @param	id		The credential ID.
+	 * @param	checker	A function returning the verification result, e.g. `() => Totp.Check( options )`.
+	 * @returns	The checker result, or a failed result with the `locked` reason if the credential is locked or throttled.
+	 */
+	check<T extends OTP.CheckResult>( id: string, checker: () => T ): T | OTP.CheckFailure
+	{
+		const { failures, locked, retryAfter } = this.status( id )
+
+		if ( locked || retryAfter ) {
+			return retryAfter ? { valid: false, reason: 'locked', retryAfter } : { valid: false, reason: 'locked' }
+		}
+
+		const result = checker()
+
+		if ( result.valid ) {
+			this.reset( id )
+			return result
+		}
+
+		this.fail( id, failures )
+
+		return result
+	}
+
+
+	/**
+	 * Verify a HOTP token honoring the throttling policy of the given credential.
+	 *
+	 * @param	id		The credential ID.
+	 * @param	options	The HOTP options. @see {@link OTP.HOTP.GetDeltaOptions}
+	 * @returns	True if the given HOTP token is valid, false otherwise.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.TOO_MANY` if the credential is locked.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.TOO_EARLY` if the back-off delay has not elapsed yet.
+	 */
+	hotp( id: string, options: OTP.Preparable<OTP.HOTP.GetDeltaOptions> )
+	{
+		return this.verify( id, () => Hotp.Verify( options ) )
+	}
+
+
+	/**
+	 * Verify a TOTP token honoring the throttling policy of the given credential.
+	 *
+	 * Replayed tokens are counted as failed verifications.
+	 *
+	 * @param	id		The credential ID.
+	 * @param	options	The TOTP options. @see {@link OTP.TOTP.GetDeltaOptions}
+	 * @returns	True if the given TOTP token is valid, false otherwise.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.TOO_MANY` if the credential is locked.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.TOO_EARLY` if the back-off delay has not elapsed yet.
+	 */
+	totp( id: string, options: OTP.Preparable<OTP.TOTP.GetDeltaOptions> )
+	{
+		return this.verify( id, () => Totp.Verify( options ) )
+	}
+
+
+	/**
+	 * Record a failed verification of the given credential.
+	 *
+	 * @param	id			The credential ID.
+	 * @param	failures	The number of consecutive failed verifications before this one.
+	 */
+	private fail( id: string, failures: number )
+	{
+		this.store.set( id, { failures: failures + 1, lastFailure: this.clock.now() } )
+	}
+
+
+	/**
+	 * Reset the failed verifications state of the given credential.
+	 *
+	 * @param id The credential ID.
+	 */
+	reset( id: string )
+	{
+		this.store.delete( id )
+	}
+}
\ No newline at end of file
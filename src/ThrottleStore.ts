@@ -0,0 +1,51 @@
+import type { OTP } from './types'
+
+
+/**
+ * In-memory throttle store.
+ *
+ * Records failed verifications for each credential in the current process.
+ */
+export class MemoryThrottleStore implements OTP.ThrottleStore
+{
+	/**
+	 * The recorded states, indexed by credential ID.
+	 *
+	 */
+	private entries = new Map<string, OTP.ThrottleState>()
+
+
+	/**
+	 * Get the failed verifications state of the given credential.
+	 *
+	 * @param	id The credential ID.
+	 * @returns	The failed verifications state, `undefined` if no failure has been recorded.
+	 */
+	get( id: string )
+	{
+		return this.entries.get( id )
+	}
+
+
+	/**
+	 * Record the failed verifications state of the given credential.
+	 *
+	 * @param	id		The credential ID.
+	 * @param	state	The failed verifications state.
+	 */
+	set( id: string, state: OTP.ThrottleState )
+	{
+		this.entries.set( id, state )
+	}
+
+
+	/**
+	 * Remove the failed verifications state of the given credential.
+	 *
+	 * @param	id The credential ID.
+	 */
+	delete( id: string )
+	{
+		this.entries.delete( id )
+	}
+}
\ No newline at end of file
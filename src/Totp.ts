@@ -1,11 +1,21 @@
+import { Exception } from '@alessiofrittoli/exception'
+import { Base32, type Variant } from '@alessiofrittoli/crypto-encoder/Base32'
 import { Otp } from './Otp'
 import { Hotp } from './Hotp'
+import { SealedSecret } from './SealedSecret'
+import { TotpWatcher } from './TotpWatcher'
+import { Clock } from './Clock'
+import { Core } from './Core'
+import { Validation } from './Validation'
+import { ErrorCode } from './error'
 import type { OTP } from './types'
 
 
 /**
  * Time-Based One-Time Password.
  * 
+ * Use the static methods for one-off operations or create a `Totp` instance to bind a credential configuration.
+ * 
  * [RFC 6238 - IETF](https://datatracker.ietf.org/doc/html/rfc6238)
  */
 export class Totp extends Otp
@@ -15,6 +25,216 @@ export class Totp extends Otp
 	 * 
 	 */
 	static Period: OTP.TOTP.Period = 30
+	/**
+	 * The TOTP default time source and timers, used when no `time` or `clock` is given.
+	 * 
+	 */
+	static Clock: OTP.TOTP.WatchClock = new Clock()
+
+
+	/**
+	 * The token digits count.
+	 * 
+	 */
+	readonly digits: OTP.Digits
+	/**
+	 * The token encoder.
+	 * 
+	 */
+	readonly encoder?: OTP.Encoder
+	/**
+	 * The token alphabet.
+	 * 
+	 */
+	readonly alphabet: string
+	/**
+	 * The TOTP period in seconds.
+	 * 
+	 */
+	readonly period: OTP.TOTP.Period
+	/**
+	 * Initial time since the UNIX epoch from which to calculate the counter value.
+	 * 
+	 */
+	readonly epoch: number
+	/**
+	 * The number of time-step counter values to check before and after the expected counter during verification.
+	 * 
+	 */
+	readonly window: number
+	/**
+	 * The Base32 encoding variant.
+	 * 
+	 */
+	readonly base32Variant: Variant
+	/**
+	 * The minimum decoded secret key length in bits.
+	 * 
+	 */
+	readonly minSecretBits: number
+	/**
+	 * The time source used when no `time` is given.
+	 * 
+	 */
+	readonly clock: OTP.TOTP.Clock
+	/**
+	 * The prepared key, or the sealed secret options.
+	 * 
+	 */
+	private readonly secret: OTP.PreparedKey | OTP.SEALED.Options
+
+
+	/**
+	 * Constructs a new `Totp` instance.
+	 * 
+	 * @param	config The TOTP configuration. @see {@link OTP.TOTP.Config}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
+	 */
+	constructor( config: OTP.TOTP.Config )
+	{
+		super()
+
+		const {
+			secret, digits = Totp.Digits, encoder, alphabet = Totp.Alphabet,
+			period = Totp.Period, epoch = 0, window = 0, base32Variant = Totp.Base32Variant, clock = Totp.Clock, minSecretBits = Validation.MinSecretBits,
+		} = config
+
+		Core.AssertPeriod( period )
+
+		this.digits			= digits
+		this.encoder		= encoder
+		this.alphabet		= alphabet
+		this.period			= period
+		this.epoch			= epoch
+		this.window			= window
+		this.base32Variant	= base32Variant
+		this.minSecretBits	= minSecretBits
+		this.clock			= clock
+		this.secret			= (
+			'sealed' in secret
+				? secret
+				: Totp.PrepareKey( { key: secret.key, encoding: secret.encoding ?? Totp.Encoding, algorithm: secret.algorithm ?? Totp.Algorithm }, base32Variant, minSecretBits )
+		)
+	}
+
+
+	/**
+	 * Generates the TOTP token for the given time.
+	 * 
+	 * @param	time ( Optional ) The time. Numbers are expressed in seconds. Default: `clock.now() / 1000`.
+	 * @returns	The TOTP token.
+	 */
+	token( time?: OTP.TOTP.Time )
+	{
+		return Totp.GetToken( { ...this.options(), time } )
+	}
+
+
+	/**
+	 * Get the TOTP token time-step delta.
+	 * 
+	 * @param	token	The TOTP token to verify.
+	 * @param	options	( Optional ) The verification options. @see {@link OTP.TOTP.VerifyOptions}
+	 * @returns	The delta number, null otherwise.
+	 */
+	delta( token: OTP.Token, options: OTP.TOTP.VerifyOptions = {} )
+	{
+		return Totp.GetDelta( { ...this.options(), ...options, token, window: this.window } )
+	}
+
+
+	/**
+	 * Check a TOTP token.
+	 * 
+	 * @param	token	The TOTP token to verify.
+	 * @param	options	( Optional ) The verification options. @see {@link OTP.TOTP.VerifyOptions}
+	 * @returns	The verification result. @see {@link OTP.TOTP.CheckResult}
+	 */
+	check( token: OTP.Token, options: OTP.TOTP.VerifyOptions = {} )
+	{
+		return Totp.Check( { ...this.options(), ...options, token, window: this.window } )
+	}
+
+
+	/**
+	 * Verify a TOTP token.
+	 * 
+	 * @param	token	The TOTP token to verify.
+	 * @param	options	( Optional ) The verification options. @see {@link OTP.TOTP.VerifyOptions}
+	 * @returns	True if the given TOTP token is valid, false otherwise.
+	 */
+	verify( token: OTP.Token, options: OTP.TOTP.VerifyOptions = {} )
+	{
+		return this.delta( token, options ) != null
+	}
+
+
+	/**
+	 * Get the start of the next TOTP time step.
+	 * 
+	 * @param	time ( Optional ) The time. Numbers are expressed in seconds. Default: `clock.now() / 1000`.
+	 * @returns	A `Date` object representing the start of the next TOTP time step.
+	 */
+	nextTick( time?: OTP.TOTP.Time )
+	{
+		return Totp.NextTick( { period: this.period, epoch: this.epoch, clock: this.clock, time } )
+	}
+
+
+	/**
+	 * Watch the TOTP token.
+	 * 
+	 * @param	options ( Optional ) The watch options. @see {@link OTP.TOTP.WatchOptions}
+	 * @returns	The TOTP watcher. @see {@link TotpWatcher}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given interval is not a positive number.
+	 */
+	watch( options: Pick<OTP.TOTP.WatchOptions, 'interval' | 'signal' | 'clock'> = {} )
+	{
+		return Totp.Watch( { ...this.options(), ...options } )
+	}
+
+
+	/**
+	 * Get the otpauth URL string.
+	 * 
+	 * @param	options The otpauth URL options. @see {@link OTP.TOTP.AuthURLOptions}
+	 * @returns	The otpauth URL string.
+	 */
+	authURL( options: OTP.TOTP.AuthURLOptions )
+	{
+		const { secret: { hmacKey, algorithm }, digits, encoder, alphabet, period } = this.options()
+
+		return Totp.AuthURL( {
+			...options, digits, encoder, alphabet, period,
+			secret: { key: Base32.encode( hmacKey.export(), this.base32Variant ), encoding: 'base32', algorithm },
+		} )
+	}
+
+
+	/**
+	 * Get the static methods options.
+	 * 
+	 * Plain secrets are decoded once when the instance is created, sealed secrets are opened and decoded on each call,
+	 * so the static defaults are never used.
+	 * 
+	 * @returns	The TOTP options.
+	 */
+	private options()
+	{
+		return {
+			secret		: (
+				'sealed' in this.secret
+					? Totp.PrepareKey( SealedSecret.Open( this.secret.sealed, this.secret.keyring ), this.base32Variant, this.minSecretBits )
+					: this.secret
+			),
+			digits		: this.digits,
+			encoder		: this.encoder,
+			alphabet	: this.alphabet,
+			period		: this.period,
+			epoch		: this.epoch,
+			clock		: this.clock,
+		}
+	}
 
 
 	/**
@@ -23,7 +243,7 @@ export class Totp extends Otp
 	 * @param	options The TOTP options. @see {@link OTP.TOTP.GetDeltaOptions}
 	 * @returns	True if the given TOTP token is valid, false otherwise.
 	 */
-	static Verify( options: OTP.TOTP.GetDeltaOptions )
+	static Verify( options: OTP.Preparable<OTP.TOTP.GetDeltaOptions> )
 	{
 		return Totp.GetDelta( options ) != null
 	}
@@ -33,17 +253,51 @@ export class Totp extends Otp
 	 * Get OTP token delta.
 	 * If the token is valid, the delta will match the step on which the given token has been validated with the given counter.
 	 * 
+	 * Replayed tokens are rejected like invalid tokens. Use `Totp.Check()` to tell them apart.
+	 * 
+	 * If `replay` options are given, the accepted time-step counter is recorded in the given store and
+	 * tokens matching a time-step counter lower than or equal to the last accepted one are rejected.
+	 * 
 	 * @param	options The TOTP options. @see {@link OTP.TOTP.GetDeltaOptions}
 	 * @returns	The delta number, null otherwise.
 	 */
-	static GetDelta( options: OTP.TOTP.GetDeltaOptions )
+	static GetDelta( options: OTP.Preparable<OTP.TOTP.GetDeltaOptions> )
 	{
-		return (
-			Hotp.GetDelta( {
-				...options,
-				counter: Totp.Counter( options )
-			}, true )
-		)
+		const result = Totp.Check( options )
+
+		return result.valid ? result.delta : null
+	}
+
+
+	/**
+	 * Check a TOTP token.
+	 * 
+	 * Unlike `Totp.Verify()` and `Totp.GetDelta()`, the result tells why the verification failed
+	 * or which time step the token matched and when it expires. Replayed tokens are reported with the `replayed` reason.
+	 * 
+	 * If `drift` options are given, the verification window is centered on the time-step counter shifted by the stored drift estimate
+	 * and the estimate gets updated with the drift observed on success. The returned `delta` is always relative to the unshifted counter.
+	 * 
+	 * @param	options The TOTP options. @see {@link OTP.TOTP.GetDeltaOptions}
+	 * @returns	The verification result. @see {@link OTP.TOTP.CheckResult}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.EMPTY_VALUE` if no token has been provided.
+	 */
+	static Check( options: OTP.Preparable<OTP.TOTP.GetDeltaOptions> ): OTP.TOTP.CheckResult
+	{
+		const { replay, drift, ...rest } = options
+		const { period = Totp.Period, epoch = 0 } = options
+		const counter	= Totp.Counter( options )
+		const estimate	= drift ? Core.Drift( drift ) : 0
+		const result	= Hotp.Check( { ...rest, counter: counter + Math.round( estimate ) }, true )
+
+		if ( ! result.valid ) return result
+
+		/** Compare and record the counter in a single store operation, so concurrent verifications of the same token cannot both succeed */
+		if ( replay && ! replay.store.setIfGreater( replay.id, result.matchedCounter ) ) {
+			return { valid: false, reason: 'replayed' }
+		}
+
+		return Core.TotpSuccess( result, counter, estimate, period, epoch, drift )
 	}
 
 
@@ -53,7 +307,7 @@ export class Totp extends Otp
 	 * @param	options The TOTP options. @see {@link Otp.TOTP.GetTokenOptions}
 	 * @returns The TOTP token.
 	 */
-	static GetToken( options: OTP.TOTP.GetTokenOptions )
+	static GetToken( options: OTP.Preparable<OTP.TOTP.GetTokenOptions> )
 	{
 		return (
 			Hotp.GetToken( {
@@ -71,17 +325,15 @@ export class Totp extends Otp
 	 *
 	 * @param	options The TOTP counter options. @see {@link OTP.TOTP.CounterOptions}
 	 * @returns	The calculated counter value.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
 	 */
 	static Counter( options: OTP.TOTP.CounterOptions = {} )
 	{
 		const {
-			period = Totp.Period, time = Date.now() / 1000, epoch = 0,
+			period = Totp.Period, epoch = 0,
 		} = options
 
-		const _time		= time * 1000
-		const _epoch	= epoch * 1000
-	
-		return Math.floor( ( _time - _epoch ) / period / 1000 )
+		return Core.Counter( Totp.Now( options ), period, epoch )
 	}
 
 
@@ -95,14 +347,67 @@ export class Totp extends Otp
 	static NextTick( options: OTP.TOTP.CounterOptions = {} )
 	{
 		const {
-			period = Totp.Period, epoch = 0, ...rest
+			period = Totp.Period, epoch = 0,
+		} = options
+
+		return Core.NextTick( Totp.Counter( options ), period, epoch )
+	}
+
+
+	/**
+	 * Get the time used to calculate the counter value.
+	 *
+	 * @param	options The TOTP counter options. @see {@link OTP.TOTP.CounterOptions}
+	 * @returns	The given `time`, or the `clock` current time, in seconds since the UNIX epoch.
+	 */
+	static Now( options: Pick<OTP.TOTP.CounterOptions, 'time' | 'clock'> = {} )
+	{
+		const { time, clock = Totp.Clock } = options
+
+		return Core.Now( time, clock )
+	}
+
+
+	/**
+	 * Watch the TOTP token.
+	 * 
+	 * The returned watcher emits the current token, the time-step counter, the seconds remaining and the elapsed ratio of the time step
+	 * at every tick boundary, and every `interval` seconds in between if set. Boundaries are aligned to the `epoch`.
+	 * 
+	 * Plain secrets are decoded once, sealed secrets are opened on each update.
+	 * 
+	 * @param	options The TOTP watch options. @see {@link OTP.TOTP.WatchOptions}
+	 * @returns	The TOTP watcher. @see {@link TotpWatcher}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given interval is not a positive number.
+	 */
+	static Watch( options: OTP.Preparable<OTP.TOTP.WatchOptions> )
+	{
+		const {
+			period = Totp.Period, epoch = 0, interval, signal, clock = Totp.Clock, ...rest
 		} = options
 
-		const _epoch	= epoch * 1000
-		const counter	= Totp.Counter( { period, epoch, ...rest } )
-		const nextTick	= _epoch + ( counter + 1 ) * period * 1000
+		Core.AssertPeriod( period )
 
-		return new Date( nextTick )
+		if ( interval != null && ! ( interval > 0 ) ) {
+			throw new Exception( `Expected a positive watch interval, got \`${ interval }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		const secret = 'key' in rest.secret ? Totp.PrepareKey( rest.secret, Totp.Base32Variant, rest.minSecretBits ) : rest.secret
+
+		/** Clocks without timers are scheduled with the default timers */
+		const timers: OTP.TOTP.WatchClock = Totp.HasTimers( clock ) ? clock : {
+			now				: () => clock.now(),
+			setTimeout		: ( callback, delay ) => Totp.Clock.setTimeout( callback, delay ),
+			clearTimeout	: handle => Totp.Clock.clearTimeout( handle ),
+		}
+
+		return new TotpWatcher(
+			{ period, epoch, interval, signal, clock: timers },
+			time => Totp.GetToken( { ...rest, secret, period, epoch, time } )
+		)
 	}
 
 
@@ -113,11 +418,29 @@ export class Totp extends Otp
 	 * 
 	 * @param	options The AuthURLOptions object.
 	 * @returns	The otpauth URL string.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the vendor options are not valid.
 	 */
 	static AuthURL( options: Omit<OTP.AuthURLOptions<'totp'>, 'type'> )
 	{
+		if ( options.period != null ) Core.AssertPeriod( options.period )
+
 		return (
 			Otp.GetAuthURL( { ...options, type: 'totp' } )
 		)
 	}
+
+
+
+	/**
+	 * Check whether the given clock has timers.
+	 *
+	 * @param	clock The clock.
+	 * @returns	True if the clock can schedule callbacks, false otherwise.
+	 */
+	private static HasTimers( clock: OTP.TOTP.Clock | OTP.TOTP.WatchClock ): clock is OTP.TOTP.WatchClock
+	{
+		return 'setTimeout' in clock && 'clearTimeout' in clock
+	}
+
 }
\ No newline at end of file
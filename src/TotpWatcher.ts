@@ -0,0 +1,364 @@
+import type { OTP } from './types'
+
+
+/**
+ * Live TOTP token stream.
+ *
+ * Emits the current token at every tick boundary and optionally every `interval` seconds in between.
+ * Boundaries are computed from the `epoch`, so updates don't drift like `setInterval()` callbacks do.
+ *
+ * Consume it with `subscribe()` or as an async iterable. Timers only run while there is at least one consumer.
+ * If a scheduled update fails ( e.g. a sealed secret cannot be opened ) or a listener throws, the watcher stops and async iterators reject with the error.
+ * Create it with `Totp.Watch()`.
+ */
+export class TotpWatcher implements AsyncIterable<OTP.TOTP.WatchUpdate>
+{
+	/**
+	 * The time step duration in seconds.
+	 *
+	 */
+	readonly period: OTP.TOTP.Period
+	/**
+	 * The initial time since the UNIX epoch from which time steps are counted, in seconds.
+	 *
+	 */
+	readonly epoch: number
+	/**
+	 * The countdown updates interval in seconds, if any.
+	 *
+	 */
+	readonly interval?: number
+	/**
+	 * The time source and timers.
+	 *
+	 */
+	private readonly clock: OTP.TOTP.WatchClock
+	/**
+	 * Generates the TOTP token for the given time in seconds.
+	 *
+	 */
+	private readonly generate: ( time: number ) => string
+	/**
+	 * The subscribed listeners.
+	 *
+	 */
+	private readonly listeners = new Set<OTP.TOTP.WatchListener>()
+	/**
+	 * Ends the pending async iterators.
+	 *
+	 */
+	private readonly endings = new Set<( failure?: { error: unknown } ) => void>()
+	/**
+	 * The abort signal, if any.
+	 *
+	 */
+	private readonly signal?: AbortSignal
+	/**
+	 * Stops the watcher when the abort signal is aborted.
+	 *
+	 */
+	private readonly abort = () => this.stop()
+	/**
+	 * The scheduled timer, if any.
+	 *
+	 * The handle is wrapped since custom clocks may return falsy handles.
+	 */
+	private timer?: { handle: unknown }
+	/**
+	 * The next boundary in milliseconds.
+	 *
+	 */
+	private boundary = 0
+	/**
+	 * Whether the watcher has been stopped.
+	 *
+	 */
+	private stopped = false
+
+
+	/**
+	 * Constructs a new `TotpWatcher` instance.
+	 *
+	 * @param	options		The resolved watch options.
+	 * @param	generate	Generates the TOTP token for the given time in seconds.
+	 */
+	constructor(
+		options		: Required<Pick<OTP.TOTP.WatchOptions, 'period' | 'epoch'>> & Pick<OTP.TOTP.WatchOptions, 'interval' | 'signal'> & { clock: OTP.TOTP.WatchClock },
+		generate	: ( time: number ) => string,
+	)
+	{
+		this.period		= options.period
+		this.epoch		= options.epoch
+		this.interval	= options.interval
+		this.clock		= options.clock
+		this.signal		= options.signal
+		this.generate	= generate
+
+		if ( this.signal?.aborted ) {
+			this.stopped = true
+			return
+		}
+
+		this.signal?.addEventListener( 'abort', this.abort, { once: true } )
+	}
+
+
+	/**
+	 * Get the update for the current time.
+	 *
+	 * @returns	The current update. @see {@link OTP.TOTP.WatchUpdate}
+	 */
+	current()
+	{
+		return this.update( this.clock.now() )
+	}
+
+
+	/**
+	 * Subscribe to updates.
+	 *
+	 * The listener is called synchronously with the current update, then at every boundary.
+	 *
+	 * @param	listener The listener. @see {@link OTP.TOTP.WatchListener}
+	 * @returns	A function which unsubscribes the listener.
+	 */
+	subscribe( listener: OTP.TOTP.WatchListener )
+	{
+		if ( this.stopped ) return () => {}
+
+		const update = this.current()
+
+		this.listeners.add( listener )
+		listener( update )
+		this.start()
+
+		return () => {
+			this.listeners.delete( listener )
+
+			if ( ! this.listeners.size ) this.pause()
+		}
+	}
+
+
+	/**
+	 * Stop the watcher.
+	 *
+	 * Listeners are unsubscribed and pending async iterators complete.
+	 *
+	 */
+	stop()
+	{
+		this.finish()
+	}
+
+
+	/**
+	 * Iterate over updates, starting with the current one.
+	 *
+	 * Slow consumers only receive the latest update.
+	 *
+	 * @returns	The async iterator.
+	 */
+	[ Symbol.asyncIterator ](): AsyncIterator<OTP.TOTP.WatchUpdate>
+	{
+		let latest: OTP.TOTP.WatchUpdate | undefined
+		let failure: { error: unknown } | undefined
+		let pending: {
+			resolve	: ( result: IteratorResult<OTP.TOTP.WatchUpdate> ) => void
+			reject	: ( error: unknown ) => void
+		} | undefined
+		let done = this.stopped
+
+		const unsubscribe = this.subscribe( update => {
+			if ( ! pending ) {
+				latest = update
+				return
+			}
+
+			const { resolve } = pending
+
+			pending = undefined
+			resolve( { value: update, done: false } )
+		} )
+
+		const end = ( reason?: { error: unknown } ) => {
+			done = true
+			unsubscribe()
+			this.endings.delete( end )
+
+			/** Rejects the pending call or the next one if the watcher failed */
+			if ( ! pending ) failure = reason
+			else if ( reason ) pending.reject( reason.error )
+			else pending.resolve( { value: undefined, done: true } )
+
+			pending = undefined
+		}
+
+		if ( ! done ) this.endings.add( end )
+
+		return {
+			next: () => {
+				if ( latest ) {
+					const value = latest
+
+					latest = undefined
+					return Promise.resolve( { value, done: false } )
+				}
+
+				if ( failure ) {
+					const { error } = failure
+
+					failure = undefined
+					return Promise.reject( error )
+				}
+
+				if ( done ) return Promise.resolve( { value: undefined, done: true } )
+
+				return new Promise( ( resolve, reject ) => pending = { resolve, reject } )
+			},
+			return: () => {
+				end()
+				return Promise.resolve( { value: undefined, done: true } )
+			},
+		}
+	}
+
+
+	/**
+	 * Get the update for the given time.
+	 *
+	 * @param	now The time in milliseconds.
+	 * @returns	The update. @see {@link OTP.TOTP.WatchUpdate}
+	 */
+	private update( now: number ): OTP.TOTP.WatchUpdate
+	{
+		const { counter, start, nextTick } = this.step( now )
+
+		return {
+			token		: this.generate( now / 1000 ),
+			counter,
+			remaining	: ( nextTick - now ) / 1000,
+			progress	: ( now - start ) / ( nextTick - start ),
+			nextTick	: new Date( nextTick ),
+		}
+	}
+
+
+	/**
+	 * Get the time step of the given time.
+	 *
+	 * The counter is calculated like `Totp.Counter()` does.
+	 *
+	 * @param	now The time in milliseconds.
+	 * @returns	The time-step counter and the time step bounds in milliseconds.
+	 */
+	private step( now: number )
+	{
+		const period	= this.period * 1000
+		const epoch		= this.epoch * 1000
+		const counter	= Math.floor( ( now - epoch ) / this.period / 1000 )
+		const start		= epoch + counter * period
+
+		return { counter, start, nextTick: start + period }
+	}
+
+
+	/**
+	 * Get the first boundary after the given time.
+	 *
+	 * @param	now The time in milliseconds.
+	 * @returns	The boundary in milliseconds.
+	 */
+	private next( now: number )
+	{
+		const { nextTick } = this.step( now )
+
+		if ( ! this.interval ) return nextTick
+
+		const interval	= this.interval * 1000
+		const epoch		= this.epoch * 1000
+
+		return Math.min( nextTick, epoch + ( Math.floor( ( now - epoch ) / interval ) + 1 ) * interval )
+	}
+
+
+	/**
+	 * Schedule the next boundary if not already scheduled.
+	 *
+	 */
+	private start()
+	{
+		if ( this.stopped || this.timer != null ) return
+
+		this.boundary = this.next( this.clock.now() )
+		this.schedule()
+	}
+
+
+	/**
+	 * Cancel the scheduled boundary.
+	 *
+	 */
+	private pause()
+	{
+		if ( this.timer == null ) return
+
+		this.clock.clearTimeout( this.timer.handle )
+		this.timer = undefined
+	}
+
+
+	/**
+	 * Schedule a timer firing at the next boundary.
+	 *
+	 */
+	private schedule()
+	{
+		this.timer = { handle: this.clock.setTimeout( () => this.tick(), Math.max( 0, this.boundary - this.clock.now() ) ) }
+	}
+
+
+	/**
+	 * Stop the watcher and end the pending async iterators.
+	 *
+	 * @param	failure The error which stopped the watcher, if any. Async iterators reject with it.
+	 */
+	private finish( failure?: { error: unknown } )
+	{
+		if ( this.stopped ) return
+
+		this.stopped = true
+		this.signal?.removeEventListener( 'abort', this.abort )
+		this.pause()
+		this.listeners.clear()
+		this.endings.forEach( end => end( failure ) )
+	}
+
+
+	/**
+	 * Emit the update of the reached boundary and schedule the next one.
+	 *
+	 * Timers firing early are clamped to the boundary. Late timers ( e.g. after system sleep ) emit the update for the current time.
+	 * Errors stop the watcher instead of escaping the timer callback.
+	 *
+	 */
+	private tick()
+	{
+		this.timer = undefined
+
+		try {
+			const now		= Math.max( this.clock.now(), this.boundary )
+			const update	= this.update( now )
+
+			this.listeners.forEach( listener => listener( update ) )
+
+			/** Stopped, paused or already rescheduled by a new listener */
+			if ( this.stopped || ! this.listeners.size || this.timer != null ) return
+
+			this.boundary = this.next( now )
+			this.schedule()
+		} catch ( error ) {
+			this.finish( { error } )
+		}
+	}
+}
\ No newline at end of file
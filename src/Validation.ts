@@ -0,0 +1,126 @@
+import { Exception } from '@alessiofrittoli/exception'
+import { Base32, type Variant } from '@alessiofrittoli/crypto-encoder/Base32'
+import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+
+import { Core } from './Core'
+import { ErrorCode } from './error'
+import type { OTP } from './types'
+
+
+/**
+ * Secret keys and HMAC digests validation.
+ *
+ * Shared by the Node.js and the Web Crypto implementations, so malformed secret keys are rejected
+ * before being decoded instead of failing deep inside the decoders or silently producing a different key,
+ * and signer outputs are checked before being truncated into tokens.
+ */
+export class Validation
+{
+	/**
+	 * The default minimum decoded secret key length in bits.
+	 *
+	 * [RFC 4226, section 4](https://datatracker.ietf.org/doc/html/rfc4226#section-4) requires secret keys of at least 128 bits.
+	 * Pass `minSecretBits: 0` to accept legacy credentials with shorter secret keys.
+	 */
+	static readonly MinSecretBits = 128
+
+
+	/**
+	 * Validate a secret key.
+	 *
+	 * @param	key			The secret key.
+	 * @param	encoding	The secret key encoding.
+	 * @param	variant		The Base32 encoding variant used to decode `base32` secret keys.
+	 * @param	minBits		( Optional ) The minimum decoded secret key length in bits. Default: `Validation.MinSecretBits`.
+	 * @returns	The decoded secret key length in bytes.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.EMPTY_VALUE` if no secret key has been provided.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_SECRET` if the secret key is not correctly encoded with the given encoding.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WEAK_SECRET` if the decoded secret key is shorter than `minBits` bits.
+	 */
+	static SecretKey( key: string, encoding: OTP.Encoding, variant: Variant, minBits: number = Validation.MinSecretBits )
+	{
+		if ( ! key ) {
+			throw new Exception( 'No secret key has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const length = Validation.SecretKeyLength( key, encoding, variant )
+
+		if ( length == null ) {
+			throw new Exception( `The secret key is not a valid \`${ encoding }\` string.`, {
+				code: ErrorCode.INVALID_SECRET,
+			} )
+		}
+
+		if ( length * 8 < minBits ) {
+			throw new Exception( `Expected a secret key of at least ${ minBits } bits, got ${ length * 8 } bits.`, {
+				code: ErrorCode.WEAK_SECRET,
+			} )
+		}
+
+		return length
+	}
+
+
+	/**
+	 * Validate an HMAC digest returned by a signer.
+	 *
+	 * @param	digest		The HMAC digest.
+	 * @param	algorithm	The hash algorithm the digest has been computed with.
+	 * @returns	The given HMAC digest.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_DIGEST` if the digest is not a `Uint8Array` of the hash algorithm output length.
+	 */
+	static Digest( digest: unknown, algorithm: Algo.Hash )
+	{
+		const length = Core.KeyLength( algorithm )
+
+		if ( ! ( digest instanceof Uint8Array ) || digest.length !== length ) {
+			throw new Exception( `Expected a ${ length } bytes \`${ algorithm }\` HMAC digest from the signer.`, {
+				code: ErrorCode.INVALID_DIGEST,
+			} )
+		}
+
+		return digest
+	}
+
+
+	/**
+	 * Get the decoded length of a secret key.
+	 *
+	 * @param	key			The secret key.
+	 * @param	encoding	The secret key encoding.
+	 * @param	variant		The Base32 encoding variant used to decode `base32` secret keys.
+	 * @returns	The decoded secret key length in bytes, `null` if the secret key is not correctly encoded.
+	 */
+	private static SecretKeyLength( key: string, encoding: OTP.Encoding, variant: Variant )
+	{
+		switch ( encoding ) {
+			case 'hex':
+				return /^(?:[\da-f]{2})+$/i.test( key ) ? key.length / 2 : null
+			case 'base64url': {
+				const data = key.replace( /={1,2}$/, '' )
+
+				if ( ! /^[\w+/-]+$/.test( data ) || data.length % 4 === 1 ) return null
+
+				return Math.floor( data.length * 6 / 8 )
+			}
+			case 'base32': {
+				const data = key.replace( /=+$/, '' )
+
+				/** Unpadded Base32 strings cannot be 1, 3 or 6 characters longer than a multiple of 8 */
+				if ( ! data || [ 1, 3, 6 ].includes( data.length % 8 ) ) return null
+
+				try {
+					return Base32.decode( data, variant ).byteLength
+				} catch {
+					return null
+				}
+			}
+			case 'ascii':
+				return /^[\x20-\x7e]+$/.test( key ) ? key.length : null
+			default:
+				return null
+		}
+	}
+}
\ No newline at end of file
@@ -0,0 +1,519 @@
+import { parseArgs } from 'util'
+
+import { Exception } from '@alessiofrittoli/exception'
+import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+
+import { Otp } from '../Otp'
+import { Hotp } from '../Hotp'
+import { Totp } from '../Totp'
+import { QRCode } from '../QRCode'
+import { ErrorCode } from '../error'
+import type { OTP } from '../types'
+
+
+/**
+ * Defines the CLI input/output.
+ *
+ */
+export interface CliIO
+{
+	/**
+	 * Writes to the standard output.
+	 *
+	 */
+	stdout: ( text: string ) => void
+	/**
+	 * Writes to the standard error.
+	 *
+	 */
+	stderr: ( text: string ) => void
+	/**
+	 * Whether the standard output is a terminal. Enables in-place updates in `watch`.
+	 *
+	 * @default false
+	 */
+	isTTY?: boolean
+	/**
+	 * Stops the `watch` subcommand when aborted.
+	 *
+	 */
+	signal?: AbortSignal
+}
+
+
+/**
+ * A credential resolved from the CLI options.
+ *
+ */
+type Credential = (
+	{ type: 'hotp', options: OTP.HOTP.GetTokenOptions } |
+	{ type: 'totp', options: OTP.TOTP.GetTokenOptions }
+)
+
+
+/**
+ * The CLI options.
+ *
+ */
+const Options = {
+	secret		: { type: 'string', short: 's' },
+	encoding	: { type: 'string', short: 'e' },
+	algorithm	: { type: 'string', short: 'a' },
+	digits		: { type: 'string', short: 'd' },
+	period		: { type: 'string', short: 'p' },
+	counter		: { type: 'string', short: 'c' },
+	time		: { type: 'string', short: 't' },
+	window		: { type: 'string', short: 'w' },
+	type		: { type: 'string' },
+	uri			: { type: 'string', short: 'u' },
+	label		: { type: 'string', short: 'l' },
+	issuer		: { type: 'string', short: 'i' },
+	input		: { type: 'string' },
+	qr			: { type: 'boolean' },
+	json		: { type: 'boolean', short: 'j' },
+	help		: { type: 'boolean', short: 'h' },
+} as const
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof Options }>>[ 'values' ]
+
+
+/**
+ * The CLI usage.
+ *
+ */
+const Usage = `Usage: crypto-otp <command> [options]
+
+Commands:
+  secret              Generate a secret sized for --algorithm (or convert --secret) and print its hex, base32, base64url and, if printable, ascii encodings.
+  token               Generate a HOTP/TOTP token.
+  verify <token>      Verify a HOTP/TOTP token and report its delta. Exits with code 1 if the token is not valid.
+  uri                 Build an otpauth URI.
+  watch               Show the current TOTP token with a live countdown until the next tick.
+
+Options:
+  -s, --secret <key>        The secret key.
+  -e, --encoding <enc>      The secret encoding: hex (default), ascii, base64url or base32.
+  -a, --algorithm <alg>     The HMAC algorithm: SHA-1 (default), SHA-256, SHA-384 or SHA-512.
+  -d, --digits <n>          The token digits count. Default: 6.
+  -p, --period <seconds>    The TOTP period. Default: 30.
+  -c, --counter <n>         The HOTP counter. Implies --type hotp.
+  -t, --time <time>         The TOTP time, as UNIX seconds or ISO 8601 date. Default: now.
+  -w, --window <n>          The verification window. Default: 0.
+      --type <type>         The OTP type: totp (default) or hotp.
+  -u, --uri <otpauth>       Read the credential from an otpauth URI instead of --secret.
+  -l, --label <label>       The otpauth URI label.
+  -i, --issuer <issuer>     The otpauth URI issuer.
+      --input <string>      The seed input used by the secret command.
+      --qr                  Print the otpauth URI QR code (uri command).
+  -j, --json                Print JSON output.
+  -h, --help                Print this help.`
+
+
+/**
+ * Command-line interface.
+ *
+ * Runs the `crypto-otp` bin subcommands.
+ */
+export class Cli
+{
+	/**
+	 * Run the CLI with the given arguments.
+	 *
+	 * @param	args	The command-line arguments, without the node executable and the script path.
+	 * @param	io		The CLI input/output. @see {@link CliIO}
+	 * @returns	A new Promise resolved with the process exit code.
+	 */
+	static async Run( args: string[], io: CliIO )
+	{
+		let command: string | undefined
+		let values: Values
+		let positionals: string[]
+
+		try {
+			( { values, positionals } = parseArgs( { args, options: Options, allowPositionals: true, strict: true } ) )
+			command = positionals.shift()
+		} catch ( error ) {
+			io.stderr( `${ ( error as Error ).message }\n\n${ Usage }\n` )
+			return 2
+		}
+
+		if ( values.help || ! command ) {
+			( values.help ? io.stdout : io.stderr )( `${ Usage }\n` )
+			return values.help ? 0 : 2
+		}
+
+		try {
+			switch ( command ) {
+				case 'secret': return Cli.Secret( values, io )
+				case 'token': return Cli.Token( values, io )
+				case 'verify': return Cli.Verify( values, positionals, io )
+				case 'uri': return Cli.URI( values, io )
+				case 'watch': return await Cli.Watch( values, io )
+				default:
+					io.stderr( `Unknown command \`${ command }\`.\n\n${ Usage }\n` )
+					return 2
+			}
+		} catch ( error ) {
+			const message	= error instanceof Error ? error.message : String( error )
+			const code		= Exception.isException( error ) ? error.code : ErrorCode.UNKNOWN
+
+			io.stderr( values.json ? `${ JSON.stringify( { error: { message, code } } ) }\n` : `Error: ${ message }\n` )
+			return 1
+		}
+	}
+
+
+	/**
+	 * Run the `secret` subcommand.
+	 *
+	 * The `ascii` encoding is printed only if the secret key bytes are printable ASCII characters,
+	 * since other bytes cannot be represented with the `ascii` encoding (e.g. randomly generated secret keys).
+	 *
+	 * @param	values	The parsed options.
+	 * @param	io		The CLI input/output.
+	 * @returns	The process exit code.
+	 */
+	private static Secret( values: Values, io: CliIO )
+	{
+		const secret: OTP.Secret = (
+			values.secret != null
+				? { key: values.secret, encoding: Cli.Encoding( values.encoding ) }
+				: values.input != null
+					? { key: Otp.Seed( values.input ), encoding: 'hex' }
+					: Otp.GenerateSecret( { algorithm: Cli.Algorithm( values.algorithm ) } )
+		)
+
+		const { hex, ascii, base32, base64url } = Otp.GetSecrets( { secret } )
+		const printable = Buffer.from( hex!, 'hex' ).every( byte => byte >= 0x20 && byte <= 0x7e )
+
+		Cli.Print( io, values, { hex, ...( printable ? { ascii } : {} ), base32, base64url }, [
+			`hex        ${ hex }`,
+			...( printable ? [ `ascii      ${ ascii }` ] : [] ),
+			`base32     ${ base32 }`,
+			`base64url  ${ base64url }`,
+		] )
+
+		return 0
+	}
+
+
+	/**
+	 * Run the `token` subcommand.
+	 *
+	 * @param	values	The parsed options.
+	 * @param	io		The CLI input/output.
+	 * @returns	The process exit code.
+	 */
+	private static Token( values: Values, io: CliIO )
+	{
+		const credential = Cli.Credential( values )
+
+		if ( credential.type === 'hotp' ) {
+			const { counter = 0 } = credential.options
+			const token = Hotp.GetToken( credential.options )
+
+			Cli.Print( io, values, { type: 'hotp', token, counter }, [ `${ token }  (counter ${ counter })` ] )
+
+			return 0
+		}
+
+		const token		= Totp.GetToken( credential.options )
+		const counter	= Totp.Counter( credential.options )
+		const nextTick	= Totp.NextTick( credential.options )
+		const remaining	= Math.ceil( nextTick.getTime() / 1000 - Totp.Now( credential.options ) )
+
+		Cli.Print( io, values, {
+			type: 'totp', token, counter, nextTick: nextTick.toISOString(), remaining,
+		}, [ `${ token }  (valid for ${ remaining }s)` ] )
+
+		return 0
+	}
+
+
+	/**
+	 * Run the `verify` subcommand.
+	 *
+	 * @param	values		The parsed options.
+	 * @param	positionals	The positional arguments. The first one is the token to verify.
+	 * @param	io			The CLI input/output.
+	 * @returns	The process exit code: `0` if the token is valid, `1` otherwise.
+	 */
+	private static Verify( values: Values, positionals: string[], io: CliIO )
+	{
+		const [ token ] = positionals
+
+		if ( ! token ) {
+			throw new Exception( 'No token has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const credential	= Cli.Credential( values )
+		const window		= Cli.Integer( values.window, 'window' ) ?? 0
+		const delta			= (
+			credential.type === 'hotp'
+				? Hotp.GetDelta( { ...credential.options, token, window } )
+				: Totp.GetDelta( { ...credential.options, token, window } )
+		)
+
+		Cli.Print( io, values, { valid: delta != null, delta }, [
+			delta != null ? `valid (delta ${ delta })` : 'invalid',
+		] )
+
+		return delta != null ? 0 : 1
+	}
+
+
+	/**
+	 * Run the `uri` subcommand.
+	 *
+	 * @param	values	The parsed options.
+	 * @param	io		The CLI input/output.
+	 * @returns	The process exit code.
+	 */
+	private static URI( values: Values, io: CliIO )
+	{
+		const { label, issuer } = values
+
+		if ( ! label ) {
+			throw new Exception( 'No label has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const credential	= Cli.Credential( values )
+		const common		= { ...credential.options, label, ...( issuer ? { issuer } : {} ) }
+		const uri			= (
+			credential.type === 'hotp'
+				? Hotp.AuthURL( { ...common, counter: credential.options.counter ?? 0 } )
+				: Totp.AuthURL( common )
+		)
+
+		const lines = [ uri ]
+
+		if ( values.qr ) lines.push( '', new QRCode( uri ).toTerminal( { invert: true } ) )
+
+		Cli.Print( io, values, { uri }, lines )
+
+		return 0
+	}
+
+
+	/**
+	 * Run the `watch` subcommand.
+	 *
+	 * Prints the current TOTP token and the seconds left until the next tick every second with `Totp.Watch()`, until `io.signal` is aborted.
+	 *
+	 * @param	values	The parsed options.
+	 * @param	io		The CLI input/output.
+	 * @returns	A new Promise resolved with the process exit code once `io.signal` is aborted.
+	 */
+	private static Watch( values: Values, io: CliIO )
+	{
+		const credential = Cli.Credential( values )
+
+		if ( credential.type !== 'totp' ) {
+			throw new Exception( 'The watch command only supports TOTP credentials.', {
+				code: ErrorCode.INVALID_TYPE,
+			} )
+		}
+
+		const watcher = Totp.Watch( { ...credential.options, interval: 1, signal: io.signal } )
+
+		const print = ( update: OTP.TOTP.WatchUpdate ) => {
+			const { token }	= update
+			const remaining	= Math.ceil( update.remaining )
+
+			if ( values.json ) {
+				io.stdout( `${ JSON.stringify( { token, remaining } ) }\n` )
+				return
+			}
+
+			io.stdout( io.isTTY ? `\x1b[2K\r${ token }  ${ remaining }s` : `${ token }  ${ remaining }s\n` )
+		}
+
+		return new Promise<number>( resolve => {
+			const stop = () => {
+				watcher.stop()
+				if ( io.isTTY && ! values.json ) io.stdout( '\n' )
+				resolve( 0 )
+			}
+
+			if ( io.signal?.aborted ) {
+				print( watcher.current() )
+				return stop()
+			}
+
+			watcher.subscribe( print )
+			io.signal?.addEventListener( 'abort', stop, { once: true } )
+		} )
+	}
+
+
+	/**
+	 * Resolve the credential from the `--uri` option or from the `--secret` and related options.
+	 *
+	 * `--counter` and `--time` options override the otpauth URI values.
+	 *
+	 * @param	values The parsed options.
+	 * @returns	The resolved credential.
+	 */
+	private static Credential( values: Values ): Credential
+	{
+		const counter	= Cli.Integer( values.counter, 'counter' )
+		const time		= Cli.Time( values.time )
+
+		if ( values.uri ) {
+			const parsed = Otp.ParseAuthURL( values.uri )
+
+			if ( parsed.type === 'hotp' ) {
+				return { type: 'hotp', options: { ...parsed, ...( counter != null ? { counter } : {} ) } }
+			}
+
+			return { type: 'totp', options: { ...parsed, ...( time != null ? { time } : {} ) } }
+		}
+
+		if ( ! values.secret ) {
+			throw new Exception( 'No secret has been provided. Use --secret or --uri.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const type = values.type ?? ( counter != null ? 'hotp' : 'totp' )
+
+		if ( type !== 'hotp' && type !== 'totp' ) {
+			throw new Exception( `Expected \`hotp\` or \`totp\` OTP type, got \`${ type }\`.`, {
+				code: ErrorCode.INVALID_TYPE,
+			} )
+		}
+
+		const digits	= Cli.Integer( values.digits, 'digits' )
+		const common	= {
+			secret: {
+				key			: values.secret,
+				encoding	: Cli.Encoding( values.encoding ),
+				algorithm	: Cli.Algorithm( values.algorithm ),
+			},
+			...( digits != null ? { digits } : {} ),
+		}
+
+		if ( type === 'hotp' ) {
+			return { type, options: { ...common, ...( counter != null ? { counter } : {} ) } }
+		}
+
+		const period = Cli.Integer( values.period, 'period' )
+
+		return {
+			type, options: {
+				...common,
+				...( period != null ? { period } : {} ),
+				...( time != null ? { time } : {} ),
+			},
+		}
+	}
+
+
+	/**
+	 * Print the command output.
+	 *
+	 * @param	io		The CLI input/output.
+	 * @param	values	The parsed options.
+	 * @param	json	The JSON output.
+	 * @param	lines	The text output lines.
+	 */
+	private static Print( io: CliIO, values: Values, json: object, lines: string[] )
+	{
+		io.stdout( values.json ? `${ JSON.stringify( json ) }\n` : `${ lines.join( '\n' ) }\n` )
+	}
+
+
+	/**
+	 * Parse an integer option.
+	 *
+	 * @param	value	The option value.
+	 * @param	name	The option name.
+	 * @returns	The parsed integer, `undefined` if no value has been provided.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given value is not an integer.
+	 */
+	private static Integer( value: string | undefined, name: string )
+	{
+		if ( value == null ) return
+
+		if ( ! /^-?\d+$/.test( value ) ) {
+			throw new Exception( `Expected an integer --${ name }, got \`${ value }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return Number( value )
+	}
+
+
+	/**
+	 * Parse the `--time` option.
+	 *
+	 * @param	value The option value, as UNIX seconds or ISO 8601 date.
+	 * @returns	The time in seconds, `undefined` if no value has been provided.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given value is not a valid time.
+	 */
+	private static Time( value: string | undefined )
+	{
+		if ( value == null ) return
+
+		if ( /^\d+(\.\d+)?$/.test( value ) ) return Number( value )
+
+		const time = Date.parse( value )
+
+		if ( Number.isNaN( time ) ) {
+			throw new Exception( `Expected UNIX seconds or ISO 8601 date --time, got \`${ value }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return time / 1000
+	}
+
+
+	/**
+	 * Parse the `--encoding` option.
+	 *
+	 * @param	value The option value.
+	 * @returns	The secret encoding.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given encoding is not supported.
+	 */
+	private static Encoding( value: string | undefined ): OTP.Encoding
+	{
+		if ( value == null ) return Otp.Encoding
+
+		if ( ! ( [ 'ascii', 'hex', 'base64url', 'base32' ] as string[] ).includes( value ) ) {
+			throw new Exception( `Unsupported encoding \`${ value }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return value as OTP.Encoding
+	}
+
+
+	/**
+	 * Parse the `--algorithm` option.
+	 *
+	 * @param	value The option value (e.g. `SHA1` or `SHA-1`).
+	 * @returns	The normalized hash algorithm.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALGORITHM` if the given algorithm is not supported.
+	 */
+	private static Algorithm( value: string | undefined ): Algo.Hash
+	{
+		if ( value == null ) return Otp.Algorithm
+
+		const normalized = value.toUpperCase().replace( /^SHA-?(\d+)$/, 'SHA-$1' )
+
+		if ( ! ( [ 'SHA-1', 'SHA-256', 'SHA-384', 'SHA-512' ] as string[] ).includes( normalized ) ) {
+			throw new Exception( `Unsupported algorithm \`${ value }\`.`, {
+				code: ErrorCode.INVALID_ALGORITHM,
+			} )
+		}
+
+		return normalized as Algo.Hash
+	}
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+import { Cli } from './Cli'
+
+const controller = new AbortController()
+
+process.once( 'SIGINT', () => controller.abort() )
+
+Cli.Run( process.argv.slice( 2 ), {
+	stdout	: text => process.stdout.write( text ),
+	stderr	: text => process.stderr.write( text ),
+	isTTY	: process.stdout.isTTY,
+	signal	: controller.signal,
+} ).then( code => process.exitCode = code )
\ No newline at end of file
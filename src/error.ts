@@ -0,0 +1,56 @@
+import { ErrorCode as BaseErrorCode } from '@alessiofrittoli/exception/code'
+
+
+/**
+ * OTP specific error codes.
+ *
+ * Includes the most common error codes exported by `@alessiofrittoli/exception/code`.
+ */
+export const ErrorCode = {
+	...BaseErrorCode,
+	/** The given otpauth URL cannot be parsed. */
+	INVALID_URL			: 'ERR:INVALIDURL',
+	/** The given URL protocol is not `otpauth:`. */
+	INVALID_PROTOCOL	: 'ERR:INVALIDPROTOCOL',
+	/** The given OTP type is neither `hotp` nor `totp`. */
+	INVALID_TYPE		: 'ERR:INVALIDTYPE',
+	/** The given label is malformed. */
+	INVALID_LABEL		: 'ERR:INVALIDLABEL',
+	/** The label issuer prefix doesn't match the `issuer` parameter. */
+	ISSUER_MISMATCH		: 'ERR:ISSUERMISMATCH',
+	/** The given issuer is malformed. */
+	INVALID_ISSUER		: 'ERR:INVALIDISSUER',
+	/** The given secret key is not correctly encoded. */
+	INVALID_SECRET		: 'ERR:INVALIDSECRET',
+	/** The given secret key is shorter than the minimum secret key length. */
+	WEAK_SECRET			: 'ERR:WEAKSECRET',
+	/** The given hash algorithm is not supported. */
+	INVALID_ALGORITHM	: 'ERR:INVALIDALGORITHM',
+	/** The given HMAC digest is not a `Uint8Array` of the hash algorithm output length. */
+	INVALID_DIGEST		: 'ERR:INVALIDDIGEST',
+	/** An asynchronous signer has been given to the synchronous Node.js implementation. */
+	ASYNC_SIGNER		: 'ERR:ASYNCSIGNER',
+	/** The given token encoder is not supported. */
+	INVALID_ENCODER		: 'ERR:INVALIDENCODER',
+	/** The given token alphabet is not valid. */
+	INVALID_ALPHABET	: 'ERR:INVALIDALPHABET',
+	/** The given digits count is not supported. */
+	INVALID_DIGITS		: 'ERR:INVALIDDIGITS',
+	/** The given TOTP period is not supported. */
+	INVALID_PERIOD		: 'ERR:INVALIDPERIOD',
+	/** The given HOTP counter is not a non-negative integer. */
+	INVALID_COUNTER		: 'ERR:INVALIDCOUNTER',
+	/** The given OCRA suite is malformed or not supported. */
+	INVALID_SUITE		: 'ERR:INVALIDSUITE',
+	/** The given OCRA challenge question doesn't match the suite question format or exceeds the suite question length. */
+	INVALID_QUESTION	: 'ERR:INVALIDQUESTION',
+	/** The given migration payload is malformed. */
+	INVALID_PAYLOAD		: 'ERR:INVALIDPAYLOAD',
+	/** The given data doesn't fit in a QR Code. */
+	DATA_TOO_LONG		: 'ERR:DATATOOLONG',
+	/** The given sealed secret is malformed or cannot be authenticated with the keyring master key. */
+	INVALID_SEALED_SECRET	: 'ERR:INVALIDSEALEDSECRET',
+	/** The pending enrollment has expired. */
+	ENROLLMENT_EXPIRED	: 'ERR:ENROLLMENTEXPIRED',
+} as const
+export type ErrorCode = typeof ErrorCode[ keyof typeof ErrorCode ]
\ No newline at end of file
@@ -1,4 +1,21 @@
 export * from './Otp'
 export * from './Hotp'
 export * from './Totp'
-export type * from './types'
\ No newline at end of file
+export * from './TotpWatcher'
+export * from './Clock'
+export * from './Ocra'
+export * from './Migration'
+export * from './QRCode'
+export * from './SealedSecret'
+export * from './FileKeyStore'
+export * from './RecoveryCodes'
+export * from './Enrollment'
+export * from './ReplayStore'
+export * from './DriftStore'
+export * from './Throttle'
+export * from './ThrottleStore'
+export * from './Validation'
+export * from './Core'
+export * from './error'
+export type * from './types'
+export type * from './types.node'
\ No newline at end of file
@@ -0,0 +1,241 @@
+import { Exception } from '@alessiofrittoli/exception'
+import { ErrorCode } from './error'
+
+
+/**
+ * Protocol Buffers wire types.
+ *
+ * [Encoding - Protocol Buffers](https://protobuf.dev/programming-guides/encoding/)
+ */
+export const WireType = {
+	VARINT	: 0,
+	I64		: 1,
+	LEN		: 2,
+	I32		: 5,
+} as const
+
+
+/**
+ * Minimal Protocol Buffers wire format reader.
+ *
+ * Only supports what is needed to decode flat messages: varints, length-delimited fields and skipping fixed-size fields.
+ */
+export class ProtobufReader
+{
+	/**
+	 * The encoded message.
+	 *
+	 */
+	private readonly buffer: Buffer
+	/**
+	 * The current read position.
+	 *
+	 */
+	private offset = 0
+
+
+	/**
+	 * Constructs a new `ProtobufReader` instance.
+	 *
+	 * @param buffer The encoded message.
+	 */
+	constructor( buffer: Buffer )
+	{
+		this.buffer = buffer
+	}
+
+
+	/**
+	 * Whether the whole message has been read.
+	 *
+	 */
+	get done()
+	{
+		return this.offset >= this.buffer.length
+	}
+
+
+	/**
+	 * Read the next field tag.
+	 *
+	 * @returns	An object containing the field number and the field wire type.
+	 */
+	tag()
+	{
+		const tag = this.varint()
+
+		return { field: Number( tag >> BigInt( 3 ) ), wireType: Number( tag & BigInt( 7 ) ) }
+	}
+
+
+	/**
+	 * Read a varint.
+	 *
+	 * @returns	The unsigned 64-bit varint value.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PAYLOAD` if the varint is truncated or longer than 10 bytes.
+	 */
+	varint()
+	{
+		let value = BigInt( 0 )
+
+		for ( let shift = 0; shift < 70; shift += 7 ) {
+			const byte = this.buffer[ this.offset++ ]
+
+			if ( byte == null ) break
+
+			value |= BigInt( byte & 0x7f ) << BigInt( shift )
+
+			if ( ! ( byte & 0x80 ) ) return BigInt.asUintN( 64, value )
+		}
+
+		throw new Exception( 'Malformed varint.', {
+			code: ErrorCode.INVALID_PAYLOAD,
+		} )
+	}
+
+
+	/**
+	 * Read a length-delimited field.
+	 *
+	 * @returns	The field bytes.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PAYLOAD` if the field exceeds the message length.
+	 */
+	bytes()
+	{
+		const length	= Number( this.varint() )
+		const end		= this.offset + length
+
+		if ( end > this.buffer.length ) {
+			throw new Exception( 'Length-delimited field exceeds the message length.', {
+				code: ErrorCode.INVALID_PAYLOAD,
+			} )
+		}
+
+		const bytes = this.buffer.subarray( this.offset, end )
+		this.offset = end
+
+		return bytes
+	}
+
+
+	/**
+	 * Skip a field value.
+	 *
+	 * @param	wireType The field wire type.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PAYLOAD` if the wire type is not supported or the message is truncated.
+	 */
+	skip( wireType: number )
+	{
+		switch ( wireType ) {
+			case WireType.VARINT:
+				this.varint()
+				return
+			case WireType.LEN:
+				this.bytes()
+				return
+			case WireType.I64:
+				this.offset += 8
+				break
+			case WireType.I32:
+				this.offset += 4
+				break
+			default:
+				throw new Exception( `Unsupported wire type \`${ wireType }\`.`, {
+					code: ErrorCode.INVALID_PAYLOAD,
+				} )
+		}
+
+		if ( this.offset > this.buffer.length ) {
+			throw new Exception( 'Fixed-size field exceeds the message length.', {
+				code: ErrorCode.INVALID_PAYLOAD,
+			} )
+		}
+	}
+}
+
+
+/**
+ * Minimal Protocol Buffers wire format writer.
+ *
+ */
+export class ProtobufWriter
+{
+	/**
+	 * The encoded chunks.
+	 *
+	 */
+	private readonly chunks: Buffer[] = []
+
+
+	/**
+	 * Write a varint field.
+	 *
+	 * Negative numbers are written as 10 bytes two's complement varints, as `int32` and `int64` fields are.
+	 *
+	 * @param	field The field number.
+	 * @param	value The field value.
+	 * @returns	The `ProtobufWriter` instance for chaining purposes.
+	 */
+	varint( field: number, value: number | bigint )
+	{
+		this.chunks.push(
+			ProtobufWriter.Varint( ( field << 3 ) | WireType.VARINT ),
+			ProtobufWriter.Varint( value ),
+		)
+
+		return this
+	}
+
+
+	/**
+	 * Write a length-delimited field.
+	 *
+	 * @param	field The field number.
+	 * @param	value The field value. Strings are UTF-8 encoded.
+	 * @returns	The `ProtobufWriter` instance for chaining purposes.
+	 */
+	bytes( field: number, value: Buffer | string )
+	{
+		const bytes = Buffer.from( value )
+
+		this.chunks.push(
+			ProtobufWriter.Varint( ( field << 3 ) | WireType.LEN ),
+			ProtobufWriter.Varint( bytes.length ),
+			bytes,
+		)
+
+		return this
+	}
+
+
+	/**
+	 * Get the encoded message.
+	 *
+	 * @returns	The encoded message bytes.
+	 */
+	finish()
+	{
+		return Buffer.concat( this.chunks )
+	}
+
+
+	/**
+	 * Encode a varint.
+	 *
+	 * @param	value The value to encode.
+	 * @returns	The encoded varint bytes.
+	 */
+	private static Varint( value: number | bigint )
+	{
+		let _value		= BigInt.asUintN( 64, BigInt( value ) )
+		const bytes: number[] = []
+
+		do {
+			const byte	= Number( _value & BigInt( 0x7f ) )
+			_value		>>= BigInt( 7 )
+			bytes.push( _value ? byte | 0x80 : byte )
+		} while ( _value )
+
+		return Buffer.from( bytes )
+	}
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import type { KeyObject } from 'crypto'
+import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+
+
+/**
+ * Node.js only types.
+ *
+ * They extend the `OTP` namespace from the Node.js entry point only, so the Web Crypto typings don't depend on Node.js modules.
+ */
+declare module './types'
+{
+	namespace OTP
+	{
+		/**
+		 * A secret key decoded once and reused across HMAC computations.
+		 *
+		 * Create it with `Otp.PrepareKey()` and pass it in place of the plain `secret` option to skip decoding the secret key on each call.
+		 */
+		export interface PreparedKey
+		{
+			/**
+			 * The decoded HMAC key.
+			 *
+			 */
+			hmacKey: KeyObject
+			/**
+			 * The hash algorithm used for HMAC generation.
+			 *
+			 */
+			algorithm: Algo.Hash
+		}
+
+
+		/**
+		 * Allows a sealed secret, a prepared key or a signer in place of the plain `secret` option.
+		 *
+		 * Prepared keys and synchronous signers are only supported by the Node.js implementation.
+		 */
+		export type Preparable<T extends { secret: OTP.Secret }> = Omit<T, 'secret'> & {
+			/**
+			 * The shared secret key and associated encoding/algorithm, a sealed secret and the keyring to open it with, a prepared key or a signer.
+			 *
+			 */
+			secret: OTP.Secret | OTP.SEALED.Options | OTP.PreparedKey | OTP.Signer
+		}
+	}
+}
\ No newline at end of file
@@ -1,4 +1,6 @@
 import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+import type { Variant } from '@alessiofrittoli/crypto-encoder/Base32'
+import type { Exception } from '@alessiofrittoli/exception'
 
 
 /**
@@ -23,8 +25,18 @@ export namespace OTP
 	 * The number of digits in a generated OTP token.
 	 * 
 	 * Typical values are 6 (default), 7, or 8.
+	 * Any integer from 1 up to the maximum length supported by the 31-bit dynamic truncation for the token alphabet is allowed
+	 * (e.g. 10 for decimal tokens, 8 for hexadecimal tokens).
 	 */
-	export type Digits = 6 | 7 | 8
+	export type Digits = number
+
+
+	/**
+	 * The token encoder.
+	 * 
+	 * - `steam`: Steam Guard 5 characters tokens using the `23456789BCDFGHJKMNPQRTVWXY` alphabet.
+	 */
+	export type Encoder = 'steam'
 
 
 	/**
@@ -80,6 +92,75 @@ export namespace OTP
 	export type Secrets = Record<OTP.Encoding, string>
 
 
+	/**
+	 * An authenticator compatibility profile.
+	 * 
+	 * - `generic`: all the supported parameters are emitted.
+	 * - `google`: only the parameters defined by the Google Authenticator Key URI format are emitted.
+	 * - `freeotp`: adds `image`, `color`, `lock` and custom parameters.
+	 * - `aegis`: adds `encoder`, `image` and custom parameters.
+	 * - `yubico`: adds `touch` and custom parameters.
+	 */
+	export type AuthURLProfile = 'generic' | 'google' | 'freeotp' | 'aegis' | 'yubico'
+
+
+	/**
+	 * An otpauth URI parameter not defined by the Google Authenticator Key URI format.
+	 * 
+	 * `params` stands for the custom parameters.
+	 */
+	export type AuthURLVendorParam = 'encoder' | 'alphabet' | 'image' | 'color' | 'lock' | 'touch' | 'params'
+
+
+	/**
+	 * Vendor specific otpauth URI parameters and compatibility options.
+	 * 
+	 */
+	export interface AuthURLVendorOptions
+	{
+		/**
+		 * The icon URL shown next to the credential ( FreeOTP, Aegis ).
+		 * 
+		 */
+		image?: string
+		/**
+		 * The credential color as 6 HEX digits, e.g. `1A73E8` ( FreeOTP ).
+		 * 
+		 */
+		color?: string
+		/**
+		 * Whether the authenticator should require unlocking the device before showing the token ( FreeOTP ).
+		 * 
+		 */
+		lock?: boolean
+		/**
+		 * Whether the hardware key should require touch before generating the token ( Yubico ).
+		 * 
+		 */
+		touch?: boolean
+		/**
+		 * Custom parameters appended to the otpauth URI as they are.
+		 * 
+		 * Custom parameters cannot override the parameters supported by this library.
+		 */
+		params?: Record<string, string | number | boolean>
+		/**
+		 * The authenticator compatibility profile. Parameters not supported by the profile are omitted.
+		 * 
+		 * @default 'generic'
+		 */
+		profile?: OTP.AuthURLProfile
+		/**
+		 * Omit the parameters rejected by Google Authenticator. Same as `profile: 'google'`, which it takes precedence over.
+		 * 
+		 * ⚠️ Tokens generated with an omitted `encoder` or `alphabet` won't match the tokens generated by the authenticator. ⚠️
+		 * 
+		 * @default false
+		 */
+		strict?: boolean
+	}
+
+
 	/**
 	 * Options for creating an OTP Auth URI (`otpauth://`) used in QR codes or OTP apps.
 	 *
@@ -118,7 +199,7 @@ export namespace OTP
 			 * Valid values corresponding to the label prefix would be: `issuer=Example`, `issuer=Provider1`, and `issuer=Big%20Corporation`.
 			 */
 			issuer?: string
-		} & (
+		} & OTP.AuthURLVendorOptions & (
 			T extends 'hotp' ?
 			{
 				/** The OTP type needed to distinguish whether the key will be used for counter-based HOTP or for TOTP. */
@@ -132,8 +213,22 @@ export namespace OTP
 			} & Pick<TOTP.CounterOptions, 'period'>
 		)
 	)
-	
-	
+
+
+	/**
+	 * The result of parsing an OTP Auth URI (`otpauth://`).
+	 *
+	 * The parsed `secret.key` is always `base32` encoded as required by the Key URI format.
+	 */
+	export type ParsedAuthURL = OTP.AuthURLOptions<OTP.Type> & {
+		/**
+		 * The account name decoded from the label, without the issuer prefix.
+		 *
+		 */
+		account: string
+	}
+
+
 	/**
 	 * Base options shared across HOTP and TOTP configurations.
 	 * 
@@ -151,6 +246,32 @@ export namespace OTP
 		 * @default 6
 		 */
 		digits?: OTP.Digits
+		/**
+		 * The token encoder.
+		 * 
+		 * When set to `steam`, Steam Guard 5 characters tokens are generated and `digits` is ignored.
+		 * 
+		 */
+		encoder?: OTP.Encoder
+		/**
+		 * The token alphabet.
+		 * 
+		 * A string of at least 2 unique characters. The token is the truncated value written in base `alphabet.length`.
+		 * Ignored if `encoder` is set.
+		 * 
+		 * @default '0123456789'
+		 */
+		alphabet?: string
+		/**
+		 * The minimum decoded secret key length in bits.
+		 * 
+		 * Defaults to the 128 bits required by [RFC 4226, section 4](https://datatracker.ietf.org/doc/html/rfc4226#section-4).
+		 * Set it to `0` to opt out and accept legacy credentials with shorter secret keys (e.g. 80 bits).
+		 * Prepared keys and signers are not checked.
+		 * 
+		 * @default 128
+		 */
+		minSecretBits?: number
 	}
 
 
@@ -161,6 +282,306 @@ export namespace OTP
 	export type GetSecretsOptions = Pick<OTP.GenericOptions, 'secret'>
 
 
+	/**
+	 * Options for generating a new random secret key.
+	 *
+	 */
+	export interface GenerateSecretOptions
+	{
+		/**
+		 * The hash algorithm the secret key is intended for.
+		 *
+		 * @default 'SHA-1'
+		 */
+		algorithm?: Algo.Hash
+		/**
+		 * The secret key output encoding.
+		 *
+		 * @default 'hex'
+		 */
+		encoding?: OTP.Encoding
+		/**
+		 * The secret key length in bytes (or characters when `encoding` is `ascii`).
+		 *
+		 * Defaults to the `algorithm` output length (20 bytes for SHA-1, 32 for SHA-256, 48 for SHA-384 and 64 for SHA-512),
+		 * as recommended by [RFC 4226](https://datatracker.ietf.org/doc/html/rfc4226#section-4) and used by [RFC 6238](https://datatracker.ietf.org/doc/html/rfc6238#appendix-B) test vectors.
+		 * ASCII keys default to the number of characters carrying the same entropy. @see {@link Otp.ASCIILength}
+		 */
+		length?: number
+		/**
+		 * Whether to include symbols when `encoding` is `ascii`.
+		 *
+		 * @default false
+		 */
+		symbols?: boolean
+	}
+
+
+	/**
+	 * Computes HMAC digests with a secret key which never leaves its key-management boundary (HSM, KMS, key store).
+	 * 
+	 */
+	export interface Signer
+	{
+		/**
+		 * The hash algorithm used for HMAC generation.
+		 * 
+		 * @default Otp.Algorithm
+		 */
+		algorithm?: Algo.Hash
+		/**
+		 * Compute the HMAC digest of the given counter bytes.
+		 * 
+		 * @param	algorithm	The hash algorithm used for HMAC generation.
+		 * @param	counter		The 8 bytes big-endian counter.
+		 * @returns	The HMAC digest bytes.
+		 */
+		sign( algorithm: Algo.Hash, counter: Uint8Array ): Uint8Array
+	}
+
+
+	/**
+	 * Computes HMAC digests asynchronously with a secret key which never leaves its key-management boundary (HSM, KMS, key store).
+	 * 
+	 */
+	export interface AsyncSigner extends Omit<Signer, 'sign'>
+	{
+		/**
+		 * Compute the HMAC digest of the given counter bytes.
+		 * 
+		 * @param	algorithm	The hash algorithm used for HMAC generation.
+		 * @param	counter		The 8 bytes big-endian counter.
+		 * @returns	The HMAC digest bytes, or a new Promise resolved with the HMAC digest bytes.
+		 */
+		sign( algorithm: Algo.Hash, counter: Uint8Array ): Uint8Array | Promise<Uint8Array>
+	}
+
+
+	/**
+	 * Allows a sealed secret or a signer in place of the plain `secret` option.
+	 * 
+	 * Both synchronous and asynchronous signers are supported by the Web Crypto implementation.
+	 */
+	export type Signable<T extends { secret: OTP.Secret }> = Omit<T, 'secret' | 'replay'> & {
+		/**
+		 * The shared secret key and associated encoding/algorithm, a sealed secret and the keyring to open it with, or a signer.
+		 * 
+		 */
+		secret: OTP.Secret | SEALED.Options | OTP.AsyncSigner
+	} & ( 'replay' extends keyof T ? {
+		/**
+		 * Replay protection options. Both synchronous and asynchronous replay stores are supported.
+		 * 
+		 */
+		replay?: TOTP.AsyncReplayOptions
+	} : unknown )
+
+
+	/**
+	 * Defines the failed verifications state of a credential.
+	 * 
+	 */
+	export interface ThrottleState
+	{
+		/**
+		 * The number of consecutive failed verifications.
+		 * 
+		 */
+		failures: number
+		/**
+		 * Time in milliseconds of the last failed verification.
+		 * 
+		 */
+		lastFailure: number
+	}
+
+
+	/**
+	 * Stores the failed verifications state for each credential.
+	 * 
+	 * `Throttle` is synchronous, so the store must answer synchronously (e.g. an in-process cache).
+	 */
+	export interface ThrottleStore
+	{
+		/**
+		 * Get the failed verifications state of the given credential.
+		 * 
+		 * @param	id The credential ID.
+		 * @returns	The failed verifications state, `undefined` if no failure has been recorded.
+		 */
+		get( id: string ): OTP.ThrottleState | undefined
+		/**
+		 * Record the failed verifications state of the given credential.
+		 * 
+		 * @param	id		The credential ID.
+		 * @param	state	The failed verifications state.
+		 */
+		set( id: string, state: OTP.ThrottleState ): void
+		/**
+		 * Remove the failed verifications state of the given credential.
+		 * 
+		 * @param	id The credential ID.
+		 */
+		delete( id: string ): void
+	}
+
+
+	/**
+	 * Throttling and lockout policy options.
+	 * 
+	 * [RFC 4226 - IETF](https://datatracker.ietf.org/doc/html/rfc4226#section-7.3)
+	 */
+	export interface ThrottleOptions
+	{
+		/**
+		 * The store where failed verifications are recorded.
+		 * 
+		 * @default new MemoryThrottleStore()
+		 */
+		store?: OTP.ThrottleStore
+		/**
+		 * The number of consecutive failed verifications after which the credential gets locked.
+		 * 
+		 * @default 10
+		 */
+		maxFailures?: number
+		/**
+		 * The back-off delay in seconds applied after the first failed verification.
+		 * 
+		 * Set it to `0` to disable back-off delays.
+		 * 
+		 * @default 1
+		 */
+		delay?: number
+		/**
+		 * The factor by which the back-off delay gets multiplied on each subsequent failed verification.
+		 * 
+		 * @default 2
+		 */
+		factor?: number
+		/**
+		 * The maximum back-off delay in seconds.
+		 * 
+		 * @default 300
+		 */
+		maxDelay?: number
+		/**
+		 * The lockout duration in seconds.
+		 * 
+		 * If not set, the credential remains locked until its state gets reset.
+		 * 
+		 */
+		lockout?: number
+		/**
+		 * Whether the failed verifications count restarts from `0` when a lockout expires.
+		 * 
+		 * If `false`, a single failed verification after the lockout expires locks the credential again.
+		 * 
+		 * @default false
+		 */
+		resetOnUnlock?: boolean
+		/**
+		 * The time source used to compute back-off delays and lockouts.
+		 * 
+		 * @default Totp.Clock
+		 */
+		clock?: OTP.TOTP.Clock
+	}
+
+
+	/**
+	 * Defines the throttling status of a credential.
+	 * 
+	 */
+	export interface ThrottleStatus
+	{
+		/**
+		 * The number of consecutive failed verifications.
+		 * 
+		 */
+		failures: number
+		/**
+		 * Whether the credential is locked.
+		 * 
+		 */
+		locked: boolean
+		/**
+		 * The Date after which a new verification attempt is allowed.
+		 * 
+		 * `undefined` if a new attempt is allowed right away or if the credential is locked until its state gets reset.
+		 */
+		retryAfter?: Date
+	}
+
+
+	/**
+	 * The reason of a failed token verification.
+	 * 
+	 * - `malformed`: the token contains characters not included in the token alphabet.
+	 * - `length-mismatch`: the token length doesn't match the expected token length.
+	 * - `no-match`: the token doesn't match any counter within the verification window.
+	 * - `replayed`: the token matches a TOTP time-step counter already accepted.
+	 * - `locked`: the credential is locked or throttled.
+	 */
+	export type CheckFailureReason = 'malformed' | 'length-mismatch' | 'no-match' | 'replayed' | 'locked'
+
+
+	/**
+	 * Defines a successful token verification result.
+	 * 
+	 */
+	export interface CheckSuccess
+	{
+		/**
+		 * Indicates the token is valid.
+		 * 
+		 */
+		valid: true
+		/**
+		 * The difference between the matched counter and the expected counter.
+		 * 
+		 */
+		delta: number
+		/**
+		 * The counter the token has been matched with.
+		 * 
+		 */
+		matchedCounter: number
+	}
+
+
+	/**
+	 * Defines a failed token verification result.
+	 * 
+	 */
+	export interface CheckFailure
+	{
+		/**
+		 * Indicates the token is not valid.
+		 * 
+		 */
+		valid: false
+		/**
+		 * The reason of the failure. @see {@link OTP.CheckFailureReason}
+		 * 
+		 */
+		reason: OTP.CheckFailureReason
+		/**
+		 * The Date after which a new verification attempt is allowed.
+		 * 
+		 * Only set when `reason` is `locked` and the credential is throttled or temporarily locked.
+		 */
+		retryAfter?: Date
+	}
+
+
+	/**
+	 * Defines a token verification result.
+	 * 
+	 */
+	export type CheckResult = OTP.CheckSuccess | OTP.CheckFailure
+
+
 	/**
 	 * HOTP (HMAC-based One-Time Password) specific types.
 	 * 
@@ -210,24 +631,294 @@ export namespace OTP
 			 */
 			window?: number
 		}
-	}
 
 
-	/**
-	 * TOTP (Time-based One-Time Password) specific types.
-	 * 
-	 * [RFC 6238 - IETF](https://datatracker.ietf.org/doc/html/rfc6238).
-	 */
-	export namespace TOTP
-	{
 		/**
-		 * Defines a period that a TOTP code will be valid for, in seconds.
+		 * Options for resynchronizing the HOTP counter using consecutive tokens.
 		 * 
+		 * [RFC 4226 - IETF](https://datatracker.ietf.org/doc/html/rfc4226#section-7.4)
 		 */
-		export type Period = 15 | 30 | 60
-
-
-		/**
+		export interface ResyncOptions extends GetTokenOptions
+		{
+			/**
+			 * Two or three consecutive HOTP tokens generated by the client.
+			 * 
+			 */
+			tokens: [ Token, Token ] | [ Token, Token, Token ]
+			/**
+			 * The number of counter values to look-ahead from the given counter while searching for the first token.
+			 * 
+			 * ⚠️ Only use high values after the user has already been authenticated with a different auth method.
+			 * 
+			 * @default 1000
+			 */
+			window?: number
+		}
+
+
+		/**
+		 * Defines the `Hotp` instance configuration.
+		 * 
+		 * Omitted values are resolved from the static defaults when the instance is created,
+		 * so later changes to the static defaults don't affect the instance.
+		 */
+		export interface Config extends OTP.SEALED.Sealable<GenericOptions>
+		{
+			/**
+			 * The number of counter values to check ahead of the expected counter during verification.
+			 * 
+			 * @default 0
+			 */
+			window?: number
+			/**
+			 * The Base32 encoding variant used to decode `base32` secrets and to encode the otpauth URL secret.
+			 * 
+			 * @default Otp.Base32Variant
+			 */
+			base32Variant?: Variant
+		}
+
+
+		/**
+		 * Defines the `Hotp` instance otpauth URL options.
+		 * 
+		 */
+		export type AuthURLOptions = Pick<OTP.AuthURLOptions<'hotp'>, 'label' | 'issuer'> & Partial<Pick<OTP.AuthURLOptions<'hotp'>, 'counter'>> & OTP.AuthURLVendorOptions
+	}
+
+
+	/**
+	 * OCRA (OATH Challenge-Response Algorithm) specific types.
+	 * 
+	 * [RFC 6287 - IETF](https://datatracker.ietf.org/doc/html/rfc6287).
+	 */
+	export namespace OCRA
+	{
+		/**
+		 * The OCRA challenge question format.
+		 * 
+		 * - `A`: alphanumeric.
+		 * - `N`: numeric.
+		 * - `H`: hexadecimal.
+		 */
+		export type QuestionFormat = 'A' | 'N' | 'H'
+
+
+		/**
+		 * A parsed OCRA suite.
+		 * 
+		 * [RFC 6287 - IETF](https://datatracker.ietf.org/doc/html/rfc6287#section-6)
+		 */
+		export interface Suite
+		{
+			/**
+			 * The OCRA suite string (e.g. `OCRA-1:HOTP-SHA256-8:QN08-PSHA1`).
+			 * 
+			 */
+			suite: string
+			/**
+			 * The hash algorithm used for HMAC generation.
+			 * 
+			 */
+			algorithm: Algo.Hash
+			/**
+			 * The number of digits of the response. `0` means no truncation.
+			 * 
+			 */
+			digits: number
+			/**
+			 * Whether the DataInput includes a counter.
+			 * 
+			 */
+			counter: boolean
+			/**
+			 * The challenge question format and maximum length.
+			 * 
+			 */
+			question: {
+				format: OCRA.QuestionFormat
+				length: number
+			}
+			/**
+			 * The hash algorithm used to hash the password, if the DataInput includes a password.
+			 * 
+			 */
+			password?: Algo.Hash
+			/**
+			 * The session information length in bytes, if the DataInput includes session information.
+			 * 
+			 */
+			session?: number
+			/**
+			 * The timestamp time-step in seconds, if the DataInput includes a timestamp.
+			 * 
+			 */
+			timestep?: number
+		}
+
+
+		/**
+		 * Options used to build the OCRA DataInput.
+		 * 
+		 */
+		export interface DataInputOptions
+		{
+			/**
+			 * The OCRA suite string (e.g. `OCRA-1:HOTP-SHA256-8:QN08-PSHA1`).
+			 * 
+			 */
+			suite: string
+			/**
+			 * The challenge question, formatted according to the suite question format.
+			 * 
+			 * It must not be longer than the suite question length ( e.g. 8 characters with `QA08` ).
+			 */
+			question: string
+			/**
+			 * Whether the question concatenates the client and server challenges of a mutual challenge-response.
+			 * 
+			 * Each challenge can be up to the suite question length, so the question can be up to twice as long.
+			 * [RFC 6287, section 7.3](https://datatracker.ietf.org/doc/html/rfc6287#section-7.3)
+			 * 
+			 * @default false
+			 */
+			mutual?: boolean
+			/**
+			 * The counter value. Required if the suite DataInput includes a counter.
+			 * 
+			 */
+			counter?: number
+			/**
+			 * The password (e.g. PIN). It will be hashed with the suite password hash algorithm.
+			 * 
+			 * Either `password` or `passwordHash` is required if the suite DataInput includes a password.
+			 */
+			password?: string
+			/**
+			 * The HEX password hash.
+			 * 
+			 * Either `password` or `passwordHash` is required if the suite DataInput includes a password.
+			 */
+			passwordHash?: string
+			/**
+			 * The HEX session information. Required if the suite DataInput includes session information.
+			 * 
+			 */
+			session?: string
+			/**
+			 * Time in seconds used to calculate the timestamp value.
+			 * 
+			 * @default clock.now() / 1000
+			 */
+			time?: number
+			/**
+			 * The time source used when no `time` is given.
+			 * 
+			 * @default Totp.Clock
+			 */
+			clock?: OTP.TOTP.Clock
+			/**
+			 * The timestamp value (the number of time-steps since the UNIX epoch).
+			 * 
+			 * By default, the timestamp get calculated based on `time` and the suite time-step.
+			 */
+			timestamp?: number
+		}
+
+
+		/**
+		 * Defines the options required to generate an OCRA response.
+		 * 
+		 */
+		export interface GetTokenOptions extends OCRA.DataInputOptions, Pick<OTP.GenericOptions, 'minSecretBits'>
+		{
+			/**
+			 * The shared secret key and associated encoding.
+			 * 
+			 * ⚠️ The HMAC algorithm is defined by the suite. `secret.algorithm` is ignored.
+			 */
+			secret: OTP.Secret
+		}
+
+
+		/**
+		 * Options for verifying an OCRA response.
+		 * 
+		 */
+		export interface GetDeltaOptions extends OCRA.GetTokenOptions
+		{
+			/**
+			 * The OCRA response to verify.
+			 * 
+			 */
+			token: Token
+			/**
+			 * The verification window.
+			 * 
+			 * If the suite DataInput includes a counter, counter values from `counter` to `counter + window` are checked.
+			 * Otherwise, if it includes a timestamp, timestamp values from `timestamp - window` to `timestamp + window` are checked.
+			 * 
+			 * @default 0
+			 */
+			window?: number
+		}
+	}
+
+
+	/**
+	 * TOTP (Time-based One-Time Password) specific types.
+	 * 
+	 * [RFC 6238 - IETF](https://datatracker.ietf.org/doc/html/rfc6238).
+	 */
+	export namespace TOTP
+	{
+		/**
+		 * Defines a period that a TOTP code will be valid for, in seconds.
+		 * 
+		 * Typical values are 15, 30 (default) or 60 but any positive integer is allowed
+		 * (e.g. 10 seconds codes or 5-10 minutes codes sent by email).
+		 */
+		export type Period = number
+
+
+		/**
+		 * Temporal-like instant (e.g. `Temporal.Instant`).
+		 * 
+		 */
+		export interface Instant
+		{
+			/**
+			 * The time in milliseconds since the UNIX epoch.
+			 * 
+			 */
+			readonly epochMilliseconds: number
+		}
+
+
+		/**
+		 * Defines a point in time.
+		 * 
+		 * Numbers are expressed in seconds since the UNIX epoch.
+		 */
+		export type Time = Date | number | TOTP.Instant
+
+
+		/**
+		 * Defines the time source used when no `time` is given.
+		 * 
+		 */
+		export interface Clock
+		{
+			/**
+			 * Get the current time.
+			 * 
+			 * @returns	The current time in milliseconds since the UNIX epoch.
+			 */
+			now(): number
+		}
+
+
+		/**
 		 * Options used to calculate the TOTP time-step counter.
 		 * 
 		 */
@@ -240,11 +931,17 @@ export namespace OTP
 			 */
 			period?: TOTP.Period
 			/**
-			 * Time in seconds used to calculate the counter value.
+			 * Time used to calculate the counter value. Numbers are expressed in seconds.
 			 * 
-			 * @default Date.now() / 1000
+			 * @default clock.now() / 1000
 			 */
-			time?: number
+			time?: TOTP.Time
+			/**
+			 * The time source used when no `time` is given.
+			 * 
+			 * @default Totp.Clock
+			 */
+			clock?: TOTP.Clock
 			/**
 			 * Initial time since the UNIX epoch from which to calculate the counter value.
 			 * 
@@ -281,6 +978,879 @@ export namespace OTP
 			 * @default 0
 			 */
 			window?: number
+			/**
+			 * Replay protection options.
+			 * 
+			 * When set, a token matching a time-step counter lower than or equal to the last accepted counter
+			 * for the given credential is rejected, as recommended in
+			 * [RFC 6238, section 5.2](https://datatracker.ietf.org/doc/html/rfc6238#section-5.2).
+			 * 
+			 */
+			replay?: TOTP.ReplayOptions
+			/**
+			 * Clock drift tracking options.
+			 * 
+			 * When set, the verification window is centered on `counter + drift` using the stored drift estimate of the given credential,
+			 * and the estimate is updated on each successful verification, as recommended in
+			 * [RFC 6238, section 6](https://datatracker.ietf.org/doc/html/rfc6238#section-6).
+			 * 
+			 */
+			drift?: TOTP.DriftOptions
+		}
+
+
+		/**
+		 * Defines the `Totp` instance configuration.
+		 * 
+		 * Omitted values are resolved from the static defaults when the instance is created,
+		 * so later changes to the static defaults don't affect the instance.
+		 */
+		export interface Config extends Omit<HOTP.Config, 'window'>, Pick<TOTP.CounterOptions, 'period' | 'epoch' | 'clock'>
+		{
+			/**
+			 * The number of time-step counter values to check before and after the expected counter during verification.
+			 * 
+			 * @default 0
+			 */
+			window?: number
+		}
+
+
+		/**
+		 * Defines the `Totp` instance verification options.
+		 * 
+		 */
+		export type VerifyOptions = Pick<TOTP.GetDeltaOptions, 'time' | 'replay' | 'drift'>
+
+
+		/**
+		 * Defines the Web Crypto `Totp` instance verification options.
+		 * 
+		 */
+		export type AsyncVerifyOptions = Omit<TOTP.VerifyOptions, 'replay'> & {
+			/**
+			 * Replay protection options. Both synchronous and asynchronous replay stores are supported.
+			 * 
+			 */
+			replay?: TOTP.AsyncReplayOptions
+		}
+
+
+		/**
+		 * Defines a successful TOTP token verification result.
+		 * 
+		 */
+		export interface CheckSuccess extends OTP.CheckSuccess
+		{
+			/**
+			 * The start of the matched time step.
+			 * 
+			 */
+			validFrom: Date
+			/**
+			 * The end of the matched time step (exclusive), which is the start of the following time step.
+			 * 
+			 */
+			validUntil: Date
+			/**
+			 * The updated clock drift estimate, in time steps.
+			 * 
+			 * Only set when `drift` options are given.
+			 */
+			drift?: number
+		}
+
+
+		/**
+		 * Defines a TOTP token verification result.
+		 * 
+		 */
+		export type CheckResult = TOTP.CheckSuccess | OTP.CheckFailure
+
+
+		/**
+		 * Defines the `Totp` instance otpauth URL options.
+		 * 
+		 */
+		export type AuthURLOptions = Pick<OTP.AuthURLOptions<'totp'>, 'label' | 'issuer'> & OTP.AuthURLVendorOptions
+
+
+		/**
+		 * Stores the last accepted time-step counter for each credential.
+		 * 
+		 * The Node.js implementation is synchronous, so the store must answer synchronously (e.g. an in-process cache).
+		 * Use an {@link TOTP.AsyncReplayStore} with the Web Crypto implementation to share the last accepted counters between processes.
+		 */
+		export interface ReplayStore
+		{
+			/**
+			 * Record the accepted time-step counter for the given credential if it is greater than the last recorded one.
+			 * 
+			 * The comparison and the write must happen as a single atomic operation, so concurrent verifications of the same token
+			 * cannot both succeed.
+			 * 
+			 * @param	id		The credential ID.
+			 * @param	counter	The accepted time-step counter.
+			 * @returns	`true` if the counter has been recorded, `false` if a greater or equal counter had already been recorded.
+			 */
+			setIfGreater( id: string, counter: number ): boolean
+		}
+
+
+		/**
+		 * Options used to reject already used TOTP tokens.
+		 * 
+		 */
+		export interface ReplayOptions
+		{
+			/**
+			 * The store where the last accepted time-step counter is recorded.
+			 * 
+			 */
+			store: TOTP.ReplayStore
+			/**
+			 * The credential ID used to index the last accepted time-step counter in the store.
+			 * 
+			 */
+			id: string
+		}
+
+
+		/**
+		 * Stores the last accepted time-step counter for each credential in a shared backend (e.g. Redis or a database).
+		 * 
+		 * Asynchronous replay stores are supported by the Web Crypto implementation only.
+		 */
+		export interface AsyncReplayStore
+		{
+			/**
+			 * Record the accepted time-step counter for the given credential if it is greater than the last recorded one.
+			 * 
+			 * The comparison and the write must happen as a single atomic operation in the backend (e.g. a Redis script
+			 * or a conditional `UPDATE`), so concurrent verifications of the same token cannot both succeed.
+			 * 
+			 * @param	id		The credential ID.
+			 * @param	counter	The accepted time-step counter.
+			 * @returns	`true` if the counter has been recorded, `false` if a greater or equal counter had already been recorded, or a new Promise resolved with it.
+			 */
+			setIfGreater( id: string, counter: number ): boolean | Promise<boolean>
+		}
+
+
+		/**
+		 * Options used to reject already used TOTP tokens with a synchronous or an asynchronous replay store.
+		 * 
+		 */
+		export interface AsyncReplayOptions extends Omit<TOTP.ReplayOptions, 'store'>
+		{
+			/**
+			 * The store where the last accepted time-step counter is recorded.
+			 * 
+			 */
+			store: TOTP.ReplayStore | TOTP.AsyncReplayStore
+		}
+
+
+		/**
+		 * Stores the clock drift estimate for each credential.
+		 * 
+		 * The store is read and written synchronously by both implementations, so it must answer synchronously (e.g. an in-process cache).
+		 */
+		export interface DriftStore
+		{
+			/**
+			 * Get the clock drift estimate of the given credential.
+			 * 
+			 * @param	id The credential ID.
+			 * @returns	The clock drift estimate in time steps, `undefined` if none has been recorded yet.
+			 */
+			get( id: string ): number | undefined
+			/**
+			 * Record the clock drift estimate of the given credential.
+			 * 
+			 * @param	id		The credential ID.
+			 * @param	drift	The clock drift estimate in time steps.
+			 */
+			set( id: string, drift: number ): void
+		}
+
+
+		/**
+		 * Options used to track the clock drift of each credential.
+		 * 
+		 */
+		export interface DriftOptions
+		{
+			/**
+			 * The store where the clock drift estimate is recorded.
+			 * 
+			 */
+			store: TOTP.DriftStore
+			/**
+			 * The credential ID used to index the clock drift estimate in the store.
+			 * 
+			 */
+			id: string
+			/**
+			 * The weight given to the drift observed on the last successful verification, between 0 (excluded) and 1.
+			 * 
+			 * The estimate is the exponential moving average of the observed drifts: `estimate + smoothing * ( observed - estimate )`.
+			 * Set it to `1` to only keep the last observed drift.
+			 * 
+			 * @default 0.5
+			 */
+			smoothing?: number
+		}
+
+
+		/**
+		 * Defines the time source and the timers used by `Totp.Watch()`.
+		 * 
+		 * Inject a `FakeClock` to control time in tests.
+		 */
+		export interface WatchClock extends TOTP.Clock
+		{
+			/**
+			 * Schedule a callback.
+			 * 
+			 * @param	callback	The callback to run.
+			 * @param	delay		The delay in milliseconds.
+			 * @returns	The timer handle.
+			 */
+			setTimeout( callback: () => void, delay: number ): unknown
+			/**
+			 * Cancel a scheduled callback.
+			 * 
+			 * @param	handle The timer handle returned by `setTimeout()`.
+			 */
+			clearTimeout( handle: unknown ): void
+		}
+
+
+		/**
+		 * Defines the options to watch the TOTP token.
+		 * 
+		 */
+		export interface WatchOptions extends Omit<TOTP.GetTokenOptions, 'time'>
+		{
+			/**
+			 * Emit countdown updates every `interval` seconds between tick boundaries.
+			 * 
+			 * Updates are aligned to the `epoch` like tick boundaries. If not set, updates are only emitted at tick boundaries.
+			 * 
+			 */
+			interval?: number
+			/**
+			 * Stops the watcher when aborted.
+			 * 
+			 */
+			signal?: AbortSignal
+			/**
+			 * The time source and timers.
+			 * 
+			 * Clocks without timers are used as time source only and scheduled with the `Totp.Clock` timers.
+			 * 
+			 * @default Totp.Clock
+			 */
+			clock?: TOTP.Clock | TOTP.WatchClock
+		}
+
+
+		/**
+		 * Defines a TOTP watcher update.
+		 * 
+		 */
+		export interface WatchUpdate
+		{
+			/**
+			 * The current TOTP token.
+			 * 
+			 */
+			token: string
+			/**
+			 * The current time-step counter.
+			 * 
+			 */
+			counter: number
+			/**
+			 * The seconds remaining until the next tick.
+			 * 
+			 */
+			remaining: number
+			/**
+			 * The elapsed time ratio of the current time step, from 0 (included) to 1 (excluded).
+			 * 
+			 */
+			progress: number
+			/**
+			 * The start of the next time step.
+			 * 
+			 */
+			nextTick: Date
+		}
+
+
+		/**
+		 * Receives TOTP watcher updates.
+		 * 
+		 */
+		export type WatchListener = ( update: TOTP.WatchUpdate ) => void
+	}
+
+
+	/**
+	 * Google Authenticator migration ( `otpauth-migration://offline` ) specific types.
+	 * 
+	 */
+	export namespace MIGRATION
+	{
+		/**
+		 * A decoded migration batch.
+		 * 
+		 * Google Authenticator splits large exports into multiple migration URIs ( batches ) sharing the same `batchId`.
+		 */
+		export interface Batch
+		{
+			/**
+			 * The credentials stored in the batch.
+			 * 
+			 * The parsed `secret.key` is always `base32` encoded.
+			 */
+			entries: OTP.ParsedAuthURL[]
+			/**
+			 * The errors of the credentials which cannot be decoded.
+			 * 
+			 */
+			errors: MIGRATION.EntryError[]
+			/**
+			 * The migration payload version.
+			 * 
+			 */
+			version: number
+			/**
+			 * The number of batches in the export.
+			 * 
+			 */
+			batchSize: number
+			/**
+			 * The index of this batch in the export.
+			 * 
+			 */
+			batchIndex: number
+			/**
+			 * The export ID shared by all the batches.
+			 * 
+			 */
+			batchId: number
+		}
+
+
+		/**
+		 * Defines the error of a credential which cannot be decoded.
+		 * 
+		 */
+		export interface EntryError
+		{
+			/**
+			 * The index of the batch the credential belongs to.
+			 * 
+			 */
+			batchIndex: number
+			/**
+			 * The position of the credential in the batch.
+			 * 
+			 */
+			index: number
+			/**
+			 * The decoding error ( e.g. `ErrorCode.INVALID_ALGORITHM` or `ErrorCode.ISSUER_MISMATCH` ).
+			 * 
+			 */
+			error: Exception
+		}
+
+
+		/**
+		 * Defines the credentials imported from migration URIs.
+		 * 
+		 */
+		export interface ImportResult
+		{
+			/**
+			 * The imported credentials, ordered by batch index.
+			 * 
+			 * The parsed `secret.key` is always `base32` encoded.
+			 */
+			entries: OTP.ParsedAuthURL[]
+			/**
+			 * The errors of the skipped credentials.
+			 * 
+			 */
+			errors: MIGRATION.EntryError[]
+		}
+
+
+		/**
+		 * Defines the options to export credentials to migration URIs.
+		 * 
+		 */
+		export interface ExportOptions
+		{
+			/**
+			 * The maximum number of credentials stored in each migration URI.
+			 * 
+			 * @default 10
+			 */
+			batchSize?: number
+			/**
+			 * The export ID shared by all the batches.
+			 * 
+			 * @default A random 31-bit integer.
+			 */
+			batchId?: number
+		}
+	}
+
+
+	/**
+	 * QR Code ( ISO/IEC 18004 ) specific types.
+	 * 
+	 */
+	export namespace QR
+	{
+		/**
+		 * The QR Code error correction level.
+		 * 
+		 * - `L`: recovers ~7% of the symbol.
+		 * - `M`: recovers ~15% of the symbol.
+		 * - `Q`: recovers ~25% of the symbol.
+		 * - `H`: recovers ~30% of the symbol.
+		 */
+		export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+
+
+		/**
+		 * Defines the options to encode a QR Code.
+		 * 
+		 */
+		export interface EncodeOptions
+		{
+			/**
+			 * The error correction level.
+			 * 
+			 * @default 'M'
+			 */
+			level?: QR.ErrorCorrectionLevel
+			/**
+			 * The minimum symbol version ( 1-40 ). A larger version is used if the data doesn't fit.
+			 * 
+			 * @default 1
+			 */
+			minVersion?: number
+			/**
+			 * The maximum symbol version ( 1-40 ).
+			 * 
+			 * @default 40
+			 */
+			maxVersion?: number
+			/**
+			 * The data mask pattern ( 0-7 ).
+			 * 
+			 * @default The mask pattern with the lowest penalty score.
+			 */
+			mask?: number
+		}
+
+
+		/**
+		 * Defines the common QR Code rendering options.
+		 * 
+		 */
+		export interface RenderOptions
+		{
+			/**
+			 * The quiet zone width, in modules.
+			 * 
+			 * @default 4
+			 */
+			margin?: number
+			/**
+			 * The dark modules color.
+			 * 
+			 * @default '#000000'
+			 */
+			dark?: string
+			/**
+			 * The light modules and quiet zone color.
+			 * 
+			 * @default '#ffffff'
+			 */
+			light?: string
+		}
+
+
+		/**
+		 * Defines the SVG rendering options.
+		 * 
+		 */
+		export interface SVGOptions extends QR.RenderOptions
+		{
+			/**
+			 * The SVG `width` and `height` attributes. The SVG scales to its container if omitted.
+			 * 
+			 */
+			size?: number | string
+		}
+
+
+		/**
+		 * Defines the PNG rendering options.
+		 * 
+		 * The `dark` and `light` colors must be `#rgb` or `#rrggbb` hex colors.
+		 */
+		export interface PNGOptions extends QR.RenderOptions
+		{
+			/**
+			 * The size of each module, in pixels.
+			 * 
+			 * @default 8
+			 */
+			scale?: number
+		}
+
+
+		/**
+		 * Defines the terminal rendering options.
+		 * 
+		 */
+		export interface TerminalOptions extends Pick<QR.RenderOptions, 'margin'>
+		{
+			/**
+			 * Draw light modules instead of dark modules with block characters.
+			 * 
+			 * Enable it on terminals with a dark background.
+			 * 
+			 * @default false
+			 */
+			invert?: boolean
+		}
+	}
+
+	/**
+	 * Sealed secrets specific types.
+	 * 
+	 */
+	export namespace SEALED
+	{
+		/**
+		 * The master keys used to seal and open secrets.
+		 * 
+		 */
+		export interface Keyring
+		{
+			/**
+			 * The ID of the master key used to seal new secrets.
+			 * 
+			 */
+			current: string
+			/**
+			 * The 32 bytes AES-256-GCM master keys, indexed by key ID.
+			 * 
+			 * Key IDs may only contain letters, digits, `_` and `-`.
+			 * Keep retired keys in the keyring until all the secrets sealed with them have been rotated.
+			 */
+			keys: Record<string, Uint8Array>
+		}
+
+
+		/**
+		 * A sealed secret and the keyring to open it with.
+		 * 
+		 */
+		export interface Options
+		{
+			/**
+			 * The sealed secret envelope returned by `SealedSecret.Seal()`.
+			 * 
+			 */
+			sealed: string
+			/**
+			 * The keyring holding the master key the secret has been sealed with.
+			 * 
+			 */
+			keyring: SEALED.Keyring
+		}
+
+
+		/**
+		 * Allows a sealed secret in place of the plain `secret` option.
+		 * 
+		 * Sealed secrets are opened for the duration of the call only.
+		 */
+		export type Sealable<T extends { secret: OTP.Secret }> = Omit<T, 'secret'> & {
+			/**
+			 * The shared secret key and associated encoding/algorithm, or a sealed secret and the keyring to open it with.
+			 * 
+			 */
+			secret: OTP.Secret | SEALED.Options
+		}
+	}
+
+	/**
+	 * Recovery codes specific types.
+	 * 
+	 */
+	export namespace RECOVERY
+	{
+		/**
+		 * Defines the recovery codes format.
+		 * 
+		 */
+		export interface FormatOptions
+		{
+			/**
+			 * The characters set recovery codes are generated from.
+			 * 
+			 * If it doesn't contain lowercase letters, submitted codes are compared case-insensitively.
+			 * 
+			 * @default '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'
+			 */
+			alphabet?: string
+			/**
+			 * The number of characters of each recovery code, separators excluded.
+			 * 
+			 * @default 10
+			 */
+			length?: number
+			/**
+			 * The number of characters of each group. Set it to `0` to disable grouping.
+			 * 
+			 * @default 5
+			 */
+			groupSize?: number
+			/**
+			 * The groups separator. Separators and whitespaces are ignored when verifying a submitted code.
+			 * 
+			 * @default '-'
+			 */
+			separator?: string
+		}
+
+
+		/**
+		 * Options for generating recovery codes.
+		 * 
+		 */
+		export interface GenerateOptions extends RECOVERY.FormatOptions
+		{
+			/**
+			 * The number of recovery codes to generate.
+			 * 
+			 * @default 10
+			 */
+			count?: number
+		}
+
+
+		/**
+		 * Generated recovery codes.
+		 * 
+		 */
+		export interface Generated
+		{
+			/**
+			 * The plaintext recovery codes to show to the user once.
+			 * 
+			 */
+			codes: string[]
+			/**
+			 * The salted hashes of the recovery codes to store, in the same order of `codes`.
+			 * 
+			 */
+			hashes: string[]
+		}
+
+
+		/**
+		 * The result of a recovery code verification.
+		 * 
+		 */
+		export interface VerifyResult
+		{
+			/**
+			 * Whether the submitted code matches one of the stored hashes.
+			 * 
+			 */
+			valid: boolean
+			/**
+			 * The index of the matched hash, `-1` if the code is not valid.
+			 * 
+			 */
+			index: number
+			/**
+			 * The stored hashes without the consumed one. Store them in place of the previous hashes.
+			 * 
+			 */
+			hashes: string[]
+		}
+	}
+
+	/**
+	 * Enrollment ceremony specific types.
+	 * 
+	 */
+	export namespace ENROLLMENT
+	{
+		/**
+		 * Options for starting a TOTP enrollment.
+		 * 
+		 */
+		export interface StartOptions extends Pick<TOTP.Config, 'digits' | 'encoder' | 'alphabet' | 'period' | 'epoch' | 'window'>, TOTP.AuthURLOptions
+		{
+			/**
+			 * The secret key to enroll.
+			 * 
+			 * A new random secret key is generated with `Otp.GenerateSecret()` if none is given.
+			 */
+			secret?: OTP.Secret
+			/**
+			 * The hash algorithm of the generated secret key. Ignored if `secret` is given.
+			 * 
+			 * @default 'SHA-1'
+			 */
+			algorithm?: Algo.Hash
+			/**
+			 * The number of seconds the pending enrollment can be confirmed within.
+			 * 
+			 * @default 600
+			 */
+			ttl?: number
+			/**
+			 * The enrollment start time in seconds.
+			 * 
+			 * @default clock.now() / 1000
+			 */
+			time?: number
+			/**
+			 * The time source used when no `time` is given.
+			 * 
+			 * @default Totp.Clock
+			 */
+			clock?: OTP.TOTP.Clock
+		}
+
+
+		/**
+		 * A pending enrollment waiting for confirmation.
+		 * 
+		 * It only contains JSON serializable values so it can be stored in a session until it gets confirmed.
+		 */
+		export interface Pending extends Required<Pick<TOTP.Config, 'digits' | 'alphabet' | 'period' | 'epoch' | 'window'>>, Pick<TOTP.Config, 'encoder'>, Pick<TOTP.AuthURLOptions, 'label' | 'issuer'>
+		{
+			/**
+			 * The secret key with resolved encoding and algorithm.
+			 * 
+			 */
+			secret: Required<OTP.Secret>
+			/**
+			 * The otpauth URL to show to the user.
+			 * 
+			 */
+			url: string
+			/**
+			 * The enrollment start time in seconds.
+			 * 
+			 */
+			createdAt: number
+			/**
+			 * The time in seconds after which the enrollment can no longer be confirmed.
+			 * 
+			 */
+			expiresAt: number
+		}
+
+
+		/**
+		 * Options for confirming a pending enrollment.
+		 * 
+		 */
+		export interface ConfirmOptions
+		{
+			/**
+			 * The TOTP token typed by the user.
+			 * 
+			 */
+			token: OTP.Token
+			/**
+			 * The TOTP token of the next time step.
+			 * 
+			 * When given, the enrollment is confirmed only if it matches the time step right after the one matched by `token`, within the window.
+			 */
+			next?: OTP.Token
+			/**
+			 * The confirmation time in seconds.
+			 * 
+			 * @default clock.now() / 1000
+			 */
+			time?: number
+			/**
+			 * The time source used when no `time` is given.
+			 * 
+			 * @default Totp.Clock
+			 */
+			clock?: OTP.TOTP.Clock
+		}
+
+
+		/**
+		 * An active credential resulting from a confirmed enrollment.
+		 * 
+		 * It can be passed as it is to the `Totp` constructor.
+		 */
+		export interface Credential extends Omit<ENROLLMENT.Pending, 'url' | 'createdAt' | 'expiresAt'>
+		{
+			/**
+			 * The clock drift measured with the last confirmation token, in time steps.
+			 * 
+			 * A negative value means the user device clock is behind the server clock.
+			 */
+			drift: number
+			/**
+			 * The time-step counter matched by the last confirmation token.
+			 * 
+			 * Record it in your replay store so confirmation tokens cannot be used again.
+			 */
+			counter: number
+			/**
+			 * The confirmation time in seconds.
+			 * 
+			 */
+			confirmedAt: number
+		}
+	}
+
+
+	/**
+	 * File key store specific types.
+	 * 
+	 */
+	export namespace KEYSTORE
+	{
+		/**
+		 * Defines a secret key stored by `FileKeyStore`.
+		 * 
+		 */
+		export interface Record
+		{
+			/**
+			 * The HEX encoded secret key.
+			 * 
+			 */
+			key: string
+			/**
+			 * The hash algorithm the secret key is used with.
+			 * 
+			 */
+			algorithm: Algo.Hash
 		}
 	}
 }
\ No newline at end of file
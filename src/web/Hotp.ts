@@ -0,0 +1,347 @@
+import { Exception } from '@alessiofrittoli/exception'
+import type { Variant } from '@alessiofrittoli/crypto-encoder/Base32'
+import { Otp } from './Otp'
+import { SealedSecret } from './SealedSecret'
+import { bytesToHex, hexToBytes, timingSafeEqual } from './encoding'
+import { Core } from '../Core'
+import { ErrorCode } from '../error'
+import { Validation } from '../Validation'
+import type { OTP } from '../types'
+
+
+/**
+ * Web Crypto based HMAC-Based One-Time Password.
+ * 
+ * [RFC 4226 - IETF](https://datatracker.ietf.org/doc/html/rfc4226)
+ */
+export class Hotp extends Otp
+{
+	/**
+	 * The token digits count.
+	 * 
+	 */
+	readonly digits: OTP.Digits
+	/**
+	 * The token encoder.
+	 * 
+	 */
+	readonly encoder?: OTP.Encoder
+	/**
+	 * The token alphabet.
+	 * 
+	 */
+	readonly alphabet: string
+	/**
+	 * The number of counter values to check ahead of the expected counter during verification.
+	 * 
+	 */
+	readonly window: number
+	/**
+	 * The Base32 encoding variant.
+	 * 
+	 */
+	readonly base32Variant: Variant
+	/**
+	 * The minimum decoded secret key length in bits.
+	 * 
+	 */
+	readonly minSecretBits: number
+	/**
+	 * The secret with resolved encoding and algorithm, or the sealed secret options.
+	 * 
+	 */
+	private readonly secret: Required<OTP.Secret> | OTP.SEALED.Options
+
+
+	/**
+	 * Constructs a new `Hotp` instance.
+	 * 
+	 * @param	config The HOTP configuration. @see {@link OTP.HOTP.Config}
+	 */
+	constructor( config: OTP.HOTP.Config )
+	{
+		super()
+
+		const {
+			secret, digits = Hotp.Digits, encoder, alphabet = Hotp.Alphabet,
+			window = 0, base32Variant = Hotp.Base32Variant, minSecretBits = Validation.MinSecretBits,
+		} = config
+
+		this.digits			= digits
+		this.encoder		= encoder
+		this.alphabet		= alphabet
+		this.window			= window
+		this.base32Variant	= base32Variant
+		this.minSecretBits	= minSecretBits
+		this.secret			= (
+			'sealed' in secret
+				? secret
+				: { key: secret.key, encoding: secret.encoding ?? Hotp.Encoding, algorithm: secret.algorithm ?? Hotp.Algorithm }
+		)
+	}
+
+
+	/**
+	 * Generates the HOTP token for the given counter.
+	 * 
+	 * @param	counter ( Optional ) The HOTP counter. Default: `0`.
+	 * @returns	A new Promise resolved with the HOTP token.
+	 */
+	async token( counter: number = 0 )
+	{
+		return Hotp.GetToken( { ...await this.options(), counter } )
+	}
+
+
+	/**
+	 * Check a HOTP token against the given counter.
+	 * 
+	 * @param	token	The HOTP token to verify.
+	 * @param	counter	( Optional ) The expected HOTP counter. Default: `0`.
+	 * @returns	A new Promise resolved with the verification result. @see {@link OTP.CheckResult}
+	 */
+	async check( token: OTP.Token, counter: number = 0 )
+	{
+		return Hotp.Check( { ...await this.options(), token, counter, window: this.window } )
+	}
+
+
+	/**
+	 * Get the HOTP token delta from the given counter.
+	 * 
+	 * @param	token	The HOTP token to verify.
+	 * @param	counter	( Optional ) The expected HOTP counter. Default: `0`.
+	 * @returns	A new Promise resolved with the delta number, null otherwise.
+	 */
+	async delta( token: OTP.Token, counter: number = 0 )
+	{
+		const result = await this.check( token, counter )
+
+		return result.valid ? result.delta : null
+	}
+
+
+	/**
+	 * Verify a HOTP token.
+	 * 
+	 * @param	token	The HOTP token to verify.
+	 * @param	counter	( Optional ) The expected HOTP counter. Default: `0`.
+	 * @returns	A new Promise resolved with `true` if the given HOTP token is valid, `false` otherwise.
+	 */
+	async verify( token: OTP.Token, counter: number = 0 )
+	{
+		return ( await this.delta( token, counter ) ) != null
+	}
+
+
+	/**
+	 * Get the static methods options.
+	 * 
+	 * Sealed secrets are opened and the secret key is always converted to HEX, so the static defaults are never used.
+	 * 
+	 * @returns	A new Promise resolved with the HOTP options.
+	 */
+	private async options()
+	{
+		const { key, encoding, algorithm } = (
+			'sealed' in this.secret
+				? await SealedSecret.Open( this.secret.sealed, this.secret.keyring )
+				: this.secret
+		)
+
+		return {
+			secret		: { key: bytesToHex( Hotp.HmacKey( key, encoding, this.base32Variant ) ), encoding: 'hex', algorithm } as Required<OTP.Secret>,
+			digits		: this.digits,
+			encoder		: this.encoder,
+			alphabet	: this.alphabet,
+			minSecretBits	: this.minSecretBits,
+		}
+	}
+
+
+	/**
+	 * Verify a HOTP token.
+	 * 
+	 * @param	options The HOTP options. @see {@link OTP.HOTP.GetDeltaOptions}
+	 * @returns	A new Promise resolved with `true` if the given HOTP token is valid, `false` otherwise.
+	 */
+	static async Verify( options: OTP.Signable<OTP.HOTP.GetDeltaOptions> )
+	{
+		return ( await Hotp.Check( options ) ).valid
+	}
+
+
+	/**
+	 * Get OTP token delta.
+	 * 
+	 * If the token is valid, the delta will match the step on which the given token has been validated with the given counter.
+	 * 
+	 * @param	options			The HOTP options. @see {@link OTP.HOTP.GetDeltaOptions}
+	 * @param	twoSidedWindow	( Optional ) If set to `true` the function will check the passcode against all One Time Passcodes
+	 * 							between (counter - window) and (counter + window), inclusive.
+	 * 							⚠️ This flag is provisioned for TOTP use only! ⚠️
+	 * @returns	A new Promise resolved with the delta number, null otherwise.
+	 */
+	static async GetDelta( options: OTP.Signable<OTP.HOTP.GetDeltaOptions>, twoSidedWindow: boolean = false ): Promise<number | null>
+	{
+		const result = await Hotp.Check( options, twoSidedWindow )
+
+		return result.valid ? result.delta : null
+	}
+
+
+	/**
+	 * Check an OTP token.
+	 * 
+	 * Unlike `Hotp.Verify()` and `Hotp.GetDelta()`, the result tells why the verification failed or which counter the token matched.
+	 * 
+	 * @param	options			The HOTP options. @see {@link OTP.HOTP.GetDeltaOptions}
+	 * @param	twoSidedWindow	( Optional ) If set to `true` the function will check the passcode against all One Time Passcodes
+	 * 							between (counter - window) and (counter + window), inclusive.
+	 * 							⚠️ This flag is provisioned for TOTP use only! ⚠️
+	 * @returns	A new Promise resolved with the verification result. @see {@link OTP.CheckResult}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.EMPTY_VALUE` if no token has been provided.
+	 */
+	static async Check( options: OTP.Signable<OTP.HOTP.GetDeltaOptions>, twoSidedWindow: boolean = false ): Promise<OTP.CheckResult>
+	{
+		const { token } = options
+
+		if ( ! token ) {
+			throw new Exception( 'No token has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const {
+			counter = 0, window = 0, digits = Hotp.Digits, encoder, alphabet = Hotp.Alphabet,
+		} = options
+
+		/** Import the secret key once for the whole window */
+		const signer = await Hotp.Prepare( options.secret, options.minSecretBits )
+
+		const _counter	= ! twoSidedWindow ? counter : counter - window
+		const _window	= ! twoSidedWindow ? window : window * 2
+
+		/** Fail if token is malformed or not of correct length */
+		const failure = Core.TokenFailure( token, digits, encoder, alphabet )
+
+		if ( failure ) return failure
+
+		const expected = new TextEncoder().encode( token )
+
+		/** Loop from counter to ( counter + window ) inclusive */
+		for ( let i = _counter; i <= _counter + _window; ++i ) {
+
+			const _token = Hotp.DigestToToken(
+				await Hotp.Sign( signer, i ), digits, encoder, alphabet
+			)
+
+			if ( timingSafeEqual( new TextEncoder().encode( _token ), expected ) ) {
+
+				const delta = i - _counter
+
+				return { valid: true, delta: ! twoSidedWindow ? delta : delta - window, matchedCounter: i }
+
+			}
+
+		}
+
+		return { valid: false, reason: 'no-match' }
+	}
+
+
+	/**
+	 * Generates a HMAC-Based One-Time Password (HOTP)
+	 * 
+	 * @param	options The HOTP options. @see {@link OTP.HOTP.GetTokenOptions}
+	 * @returns	A new Promise resolved with the HOTP token.
+	 */
+	static async GetToken( options: OTP.Signable<OTP.HOTP.GetTokenOptions> )
+	{
+		const { digits = Hotp.Digits, encoder, alphabet } = options
+
+		return (
+			Hotp.DigestToToken(
+				await Hotp.Digest( options ), digits, encoder, alphabet
+			)
+		)
+	}
+
+
+	/**
+	 * Generates a HMAC digest.
+	 *
+	 * @param	options The HOTP options. @see {@link OTP.HOTP.GetTokenOptions}
+	 * @returns A new Promise resolved with the HMAC digest bytes.
+	 */
+	static async Digest( options: Omit<OTP.Signable<OTP.HOTP.GetTokenOptions>, 'digits'> )
+	{
+		const { counter = 0 } = options
+
+		return Hotp.Sign( await Hotp.Prepare( options.secret, options.minSecretBits ), counter )
+	}
+
+
+	/**
+	 * Generates a HMAC digest of the given counter with a signer.
+	 *
+	 * @param	signer	The signer. @see {@link OTP.AsyncSigner}
+	 * @param	counter	The HOTP counter.
+	 * @returns A new Promise resolved with the HMAC digest bytes.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_DIGEST` if the signer doesn't return a `Uint8Array` of the hash algorithm output length.
+	 */
+	static async Sign( signer: OTP.AsyncSigner, counter: number )
+	{
+		const algorithm = signer.algorithm ?? Hotp.Algorithm
+
+		return (
+			new Uint8Array(
+				Validation.Digest( await signer.sign( algorithm, Hotp.Counter( counter ) ), algorithm )
+			)
+		)
+	}
+
+
+	/**
+	 * Open the given secret if sealed and import it into a signer.
+	 *
+	 * Signers are returned as they are.
+	 *
+	 * @param	secret			The secret, the sealed secret options or a signer.
+	 * @param	minSecretBits	( Optional ) The minimum decoded secret key length in bits. Default: `Validation.MinSecretBits`.
+	 * @returns	A new Promise resolved with the signer. @see {@link OTP.AsyncSigner}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_SECRET` or `ErrorCode.WEAK_SECRET` if the secret key is malformed or shorter than `minSecretBits`. @see {@link Validation.SecretKey}
+	 */
+	protected static async Prepare( secret: OTP.Secret | OTP.SEALED.Options | OTP.AsyncSigner, minSecretBits: number = Validation.MinSecretBits ): Promise<OTP.AsyncSigner>
+	{
+		if ( 'sign' in secret ) return secret
+
+		const {
+			key, algorithm = Hotp.Algorithm, encoding = Hotp.Encoding,
+		} = 'sealed' in secret ? await SealedSecret.Open( secret.sealed, secret.keyring ) : secret
+
+		Validation.SecretKey( key, encoding, Hotp.Base32Variant, minSecretBits )
+
+		const cryptoKey = await Hotp.ImportKey( algorithm, Hotp.HmacKey( key, encoding ) )
+
+		return { algorithm, sign: ( _, counter ) => Hotp.createDigest( cryptoKey, counter ) }
+	}
+
+
+	/**
+	 * Formats a given counter into the counter bytes.
+	 *
+	 * @param counter The HOTP counter.
+	 */
+	static Counter( counter: number )
+	{
+		return (
+			hexToBytes(
+				Hotp.padStart(
+					counter.toString( 16 ), // convert counter to hexadecimal string
+					16, '0'
+				)
+			)
+		)
+	}
+}
\ No newline at end of file
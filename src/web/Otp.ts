@@ -0,0 +1,294 @@
+import { Exception } from '@alessiofrittoli/exception'
+import type { Algo } from '@alessiofrittoli/crypto-algorithm/types'
+import { Base32, type Variant } from '@alessiofrittoli/crypto-encoder/Base32'
+import { padStart } from '@alessiofrittoli/math-utils/helpers'
+
+import { bytesToHex, decode, encode } from './encoding'
+import { Core } from '../Core'
+import { ErrorCode } from '../error'
+import type { OTP } from '../types'
+
+
+/**
+ * Web Crypto based OTP utilities.
+ * 
+ * Relies on `crypto.subtle` and `Uint8Array` only so it can run in browsers, Deno, Bun and edge runtimes.
+ */
+export class Otp
+{
+	/**
+	 * Defines the default used digits.
+	 * 
+	 */
+	static Digits: OTP.Digits = 6
+	/**
+	 * Defines the default secret key encoding.
+	 * 
+	 */
+	static Encoding: OTP.Encoding = 'hex'
+	/**
+	 * Defines the default secret key hash algorithm.
+	 * 
+	 */
+	static Algorithm: Algo.Hash = 'SHA-1'
+	/**
+	 * Defines the default Base32 encoding variant.
+	 * 
+	 */
+	static Base32Variant: Variant = Base32.VARIANT.RFC3548
+	/**
+	 * Defines the default token alphabet.
+	 * 
+	 */
+	static Alphabet = '0123456789'
+	/**
+	 * Defines the Steam Guard token alphabet.
+	 * 
+	 */
+	static readonly SteamAlphabet = Core.SteamAlphabet
+	/**
+	 * Defines the Steam Guard token length.
+	 * 
+	 */
+	static readonly SteamDigits = Core.SteamDigits
+
+
+	/**
+	 * Converts a digest to a token of a specified length.
+	 *
+	 * @param	digest		The digest bytes.
+	 * @param	digits		( Optional ) The OTP token digits count ( usually 6 | 8 ). Default: `6`.
+	 * @param	encoder		( Optional ) The token encoder. If set, `digits` and `alphabet` are ignored. @see {@link OTP.Encoder}
+	 * @param	alphabet	( Optional ) The token alphabet. Default: `0123456789`.
+	 * 
+	 * [RFC 4226 - IETF](https://datatracker.ietf.org/doc/html/rfc4226#section-5.3)
+	 * 
+	 * @returns	The OTP token.
+	 * @throws	{Exception} Throws a new Exception if the given alphabet is not valid or if digits exceed the supported range.
+	 */
+	static DigestToToken(
+		digest		: Uint8Array,
+		digits		: OTP.Digits = Otp.Digits,
+		encoder?	: OTP.Encoder,
+		alphabet	: string = Otp.Alphabet,
+	)
+	{
+		return Core.DigestToToken( digest, digits, encoder, alphabet )
+	}
+
+
+	/**
+	 * Get the maximum token length supported by the 31-bit dynamic truncation for the given alphabet.
+	 *
+	 * @param	alphabet ( Optional ) The token alphabet. Default: `0123456789`.
+	 * @returns	The maximum token length.
+	 * @throws	{Exception} Throws a new Exception if the given alphabet has less than 2 characters or contains duplicates.
+	 */
+	static MaxDigits( alphabet: string = Otp.Alphabet )
+	{
+		return Core.MaxDigits( alphabet )
+	}
+
+
+	/**
+	 * Get the expected token length.
+	 *
+	 * @param	digits	( Optional ) The OTP token digits count. Default: `6`.
+	 * @param	encoder	( Optional ) The token encoder. If set, `digits` is ignored. @see {@link OTP.Encoder}
+	 * 
+	 * @returns	The expected token length.
+	 */
+	static TokenLength(
+		digits	: OTP.Digits = Otp.Digits,
+		encoder?: OTP.Encoder,
+	)
+	{
+		return Core.TokenLength( digits, encoder )
+	}
+
+
+	/**
+	 * Takes a OTP secret and derives the HMAC key bytes for use in token generation.
+	 *
+	 * @param secret	The OTP secret.
+	 * @param encoding	The OTP secret encoding.
+	 * @param variant	( Optional ) The Base32 encoding variant used to decode `base32` secrets. Default: `Otp.Base32Variant`.
+	 *
+	 * @returns The HMAC key bytes.
+	 */
+	static HmacKey(
+		secret	: string,
+		encoding: OTP.Encoding,
+		variant	: Variant = Otp.Base32Variant,
+	)
+	{
+		return decode( secret, encoding, variant )
+	}
+
+
+	/**
+	 * Imports the HMAC key bytes into a Web Crypto `CryptoKey`.
+	 *
+	 * @param	algorithm	The HMAC algorithm.
+	 * @param	hmacKey		The HMAC key bytes derived from OTP secret. @see {@link Otp.HmacKey}.
+	 *
+	 * @returns	A new Promise resolved with the `CryptoKey`.
+	 */
+	static ImportKey(
+		algorithm	: Algo.Hash,
+		hmacKey		: Uint8Array,
+	)
+	{
+		return (
+			crypto.subtle.importKey(
+				'raw', new Uint8Array( hmacKey ), { name: 'HMAC', hash: algorithm }, false, [ 'sign' ]
+			)
+		)
+	}
+
+
+	/**
+	 * Create HMAC digest.
+	 *
+	 * @param	key		The `CryptoKey` imported with {@link Otp.ImportKey}.
+	 * @param	counter	The OTP counter bytes.
+	 *
+	 * @returns	A new Promise resolved with the HMAC digest bytes.
+	 */
+	static async createDigest(
+		key		: CryptoKey,
+		counter	: Uint8Array,
+	)
+	{
+		return (
+			new Uint8Array(
+				await crypto.subtle.sign( 'HMAC', key, new Uint8Array( counter ) )
+			)
+		)
+	}
+
+
+	protected static padStart = padStart
+
+
+	/**
+	 * Generate 20 bytes HMAC-SHA-1 HEX secret associated with the given string.
+	 *
+	 * @param string ( Optional ) The string to encrypt into the HMAC secret key.
+	 *
+	 * @returns A new Promise resolved with the 20 bytes SHA-1 HEX secret key.
+	 */
+	static async Seed( string?: string )
+	{
+		const key = await Otp.ImportKey(
+			'SHA-1', crypto.getRandomValues( new Uint8Array( 32 ) )
+		)
+
+		const digest = await Otp.createDigest(
+			key, new TextEncoder().encode( string || bytesToHex( crypto.getRandomValues( new Uint8Array( 4 ) ) ) )
+		)
+
+		return bytesToHex( digest ).toUpperCase()
+	}
+
+
+	/**
+	 * Generate a random secret key for the given hash algorithm.
+	 *
+	 * Random bytes are drawn from `crypto.getRandomValues()`. ASCII keys are drawn with rejection sampling so every character has the same probability.
+	 *
+	 * @param	options ( Optional ) The GenerateSecretOptions object. @see {@link OTP.GenerateSecretOptions}
+	 * @returns	The generated secret, ready to be used in the subsequent operations.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALGORITHM` if the given algorithm is not supported.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the given length is not a positive integer.
+	 */
+	static GenerateSecret( options: OTP.GenerateSecretOptions = {} ): Required<OTP.Secret>
+	{
+		const {
+			algorithm = Otp.Algorithm, encoding = Otp.Encoding, symbols = false,
+		} = options
+
+		const length = options.length ?? (
+			encoding === 'ascii'
+				? Core.ASCIILength( Otp.KeyLength( algorithm ), symbols )
+				: Otp.KeyLength( algorithm )
+		)
+
+		if ( ! Number.isInteger( length ) || length < 1 ) {
+			throw new Exception( `Expected a positive integer secret length, got \`${ length }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		if ( encoding === 'ascii' ) {
+			return { key: Otp.GenerateSecretASCII( length, symbols ), encoding, algorithm }
+		}
+
+		const bytes	= crypto.getRandomValues( new Uint8Array( length ) )
+		const key	= encode( bytes, encoding, Otp.Base32Variant )
+
+		return { key: encoding === 'hex' ? key.toUpperCase() : key, encoding, algorithm }
+	}
+
+
+	/**
+	 * Get the recommended secret key length in bytes for the given hash algorithm.
+	 *
+	 * @param	algorithm ( Optional ) The hash algorithm. Default: `SHA-1`.
+	 * @returns	The hash algorithm output length in bytes.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_ALGORITHM` if the given algorithm is not supported.
+	 */
+	static KeyLength( algorithm: Algo.Hash = Otp.Algorithm )
+	{
+		return Core.KeyLength( algorithm )
+	}
+
+
+	/**
+	 * Get the number of ASCII characters needed to match the entropy of a random key of the given length.
+	 *
+	 * @see {@link Core.ASCIILength}
+	 */
+	static ASCIILength = Core.ASCIILength
+
+
+	/**
+	 * Generates a key of a certain length (default 40) from A-Z, a-z, 0-9, and symbols (if requested).
+	 *
+	 * Characters are drawn with rejection sampling so every character has the same probability.
+	 *
+	 * @param	length	( Optional ) The lenght of the key. Default: `40`.
+	 * @param	symbols	( Optional ) Whether to use symbols or not. Default: `false`.
+	 *
+	 * @returns	The generated key.
+	 */
+	static GenerateSecretASCII( length: number = 40, symbols: boolean = false )
+	{
+		return Core.GenerateSecretASCII( length, symbols, size => crypto.getRandomValues( new Uint8Array( size ) ) )
+	}
+
+
+	/**
+	 * Retrieve the Secret Key in different encodings.
+	 *
+	 * @param	options The GetSecretsOptions object.
+	 * @returns	A new Promise resolved with an object with Secret Key in different encodings, indexed by encoding name.
+	 */
+	static async GetSecrets( options: OTP.GetSecretsOptions )
+	{
+		const { secret: {
+			encoding = Otp.Encoding, key
+		} } = options
+
+		const bytes = Otp.HmacKey( key, encoding )
+
+		return (
+			Object.fromEntries(
+				( [ 'ascii', 'hex', 'base64url', 'base32' ] as OTP.Encoding[] )
+					.map( enc => [
+						enc, enc === encoding ? key : encode( bytes, enc, Otp.Base32Variant )
+					] )
+			) as OTP.Secrets
+		)
+	}
+}
\ No newline at end of file
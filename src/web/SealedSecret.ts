@@ -0,0 +1,218 @@
+import { Exception } from '@alessiofrittoli/exception'
+
+import { Otp } from './Otp'
+import { decode, encode } from './encoding'
+import { ErrorCode } from '../error'
+import type { OTP } from '../types'
+
+
+/**
+ * Web Crypto based sealed (encrypted-at-rest) OTP secrets.
+ *
+ * Envelopes are interchangeable with the Node.js implementation.
+ */
+export class SealedSecret
+{
+	/**
+	 * The sealed secret envelope version.
+	 *
+	 */
+	static readonly Version = 1
+	/**
+	 * The AES-256-GCM master key length in bytes.
+	 *
+	 */
+	static readonly KeyLength = 32
+	/**
+	 * The AES-256-GCM IV length in bytes.
+	 *
+	 */
+	private static readonly IVLength = 12
+	/**
+	 * The AES-256-GCM auth tag length in bytes.
+	 *
+	 */
+	private static readonly TagLength = 16
+
+
+	/**
+	 * Seal a secret with a keyring master key.
+	 *
+	 * @param	secret		The secret to seal. @see {@link OTP.Secret}
+	 * @param	keyring		The keyring. @see {@link OTP.SEALED.Keyring}
+	 * @param	keyId		( Optional ) The ID of the master key to use. Default: `keyring.current`.
+	 * @returns	A new Promise resolved with the sealed secret envelope.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.NOT_FOUND` if the master key is not in the keyring.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the key ID or the master key are not valid.
+	 */
+	static async Seal( secret: OTP.Secret, keyring: OTP.SEALED.Keyring, keyId: string = keyring.current )
+	{
+		const {
+			key, encoding = Otp.Encoding, algorithm = Otp.Algorithm,
+		} = secret
+
+		if ( ! key ) {
+			throw new Exception( 'No secret key has been provided.', {
+				code: ErrorCode.EMPTY_VALUE,
+			} )
+		}
+
+		const masterKey	= await SealedSecret.MasterKey( keyring, keyId, 'encrypt' )
+		const header	= `v${ SealedSecret.Version }.${ keyId }`
+		const iv		= crypto.getRandomValues( new Uint8Array( SealedSecret.IVLength ) )
+
+		const ciphertext = new Uint8Array(
+			await crypto.subtle.encrypt(
+				{ name: 'AES-GCM', iv, additionalData: new TextEncoder().encode( header ) },
+				masterKey, new TextEncoder().encode( JSON.stringify( { key, encoding, algorithm } ) )
+			)
+		)
+
+		return `${ header }.${ encode( iv, 'base64url', Otp.Base32Variant ) }.${ encode( ciphertext, 'base64url', Otp.Base32Variant ) }`
+	}
+
+
+	/**
+	 * Open a sealed secret.
+	 *
+	 * @param	sealed	The sealed secret envelope.
+	 * @param	keyring	The keyring holding the master key the secret has been sealed with. @see {@link OTP.SEALED.Keyring}
+	 * @returns	A new Promise resolved with the secret key with its encoding and algorithm.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_SEALED_SECRET` if the envelope is malformed or it cannot be authenticated.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.NOT_FOUND` if the master key is not in the keyring.
+	 */
+	static async Open( sealed: string, keyring: OTP.SEALED.Keyring ): Promise<Required<OTP.Secret>>
+	{
+		const { keyId, header, iv, ciphertext } = SealedSecret.Parse( sealed )
+
+		const masterKey = await SealedSecret.MasterKey( keyring, keyId, 'decrypt' )
+
+		try {
+			return JSON.parse(
+				new TextDecoder().decode(
+					await crypto.subtle.decrypt(
+						{ name: 'AES-GCM', iv, additionalData: new TextEncoder().encode( header ) },
+						masterKey, ciphertext
+					)
+				)
+			)
+		} catch {
+			throw new Exception( 'The given sealed secret cannot be authenticated.', {
+				code: ErrorCode.INVALID_SEALED_SECRET,
+			} )
+		}
+	}
+
+
+	/**
+	 * Re-encrypt a sealed secret with a different keyring master key.
+	 *
+	 * @param	sealed	The sealed secret envelope.
+	 * @param	keyring	The keyring holding both the old and the new master keys. @see {@link OTP.SEALED.Keyring}
+	 * @param	keyId	( Optional ) The ID of the new master key. Default: `keyring.current`.
+	 * @returns	A new Promise resolved with the new sealed secret envelope, or the given one if it is already sealed with the new master key.
+	 */
+	static async Rotate( sealed: string, keyring: OTP.SEALED.Keyring, keyId: string = keyring.current )
+	{
+		if ( SealedSecret.KeyId( sealed ) === keyId ) return sealed
+
+		return SealedSecret.Seal( await SealedSecret.Open( sealed, keyring ), keyring, keyId )
+	}
+
+
+	/**
+	 * Get the ID of the master key a secret has been sealed with, without opening it.
+	 *
+	 * @param	sealed The sealed secret envelope.
+	 * @returns	The master key ID.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_SEALED_SECRET` if the envelope is malformed.
+	 */
+	static KeyId( sealed: string )
+	{
+		return SealedSecret.Parse( sealed ).keyId
+	}
+
+
+	/**
+	 * Parse a sealed secret envelope.
+	 *
+	 * @param	sealed The sealed secret envelope.
+	 * @returns	The parsed envelope.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_SEALED_SECRET` if the envelope is malformed or its version is not supported.
+	 */
+	private static Parse( sealed: string )
+	{
+		const [ version, keyId, iv, ciphertext, ...rest ] = ( sealed || '' ).split( '.' )
+
+		if ( ! version || ! keyId || ! iv || ! ciphertext || rest.length ) {
+			throw new Exception( 'The given sealed secret is malformed.', {
+				code: ErrorCode.INVALID_SEALED_SECRET,
+			} )
+		}
+
+		if ( version !== `v${ SealedSecret.Version }` ) {
+			throw new Exception( `Unsupported sealed secret version \`${ version }\`.`, {
+				code: ErrorCode.INVALID_SEALED_SECRET,
+			} )
+		}
+
+		let _iv: Uint8Array
+		let _ciphertext: Uint8Array
+
+		try {
+			_iv			= decode( iv, 'base64url', Otp.Base32Variant )
+			_ciphertext	= decode( ciphertext, 'base64url', Otp.Base32Variant )
+		} catch {
+			throw new Exception( 'The given sealed secret is malformed.', {
+				code: ErrorCode.INVALID_SEALED_SECRET,
+			} )
+		}
+
+		if ( _iv.length !== SealedSecret.IVLength || _ciphertext.length <= SealedSecret.TagLength ) {
+			throw new Exception( 'The given sealed secret is malformed.', {
+				code: ErrorCode.INVALID_SEALED_SECRET,
+			} )
+		}
+
+		return {
+			keyId, header: `${ version }.${ keyId }`,
+			iv: new Uint8Array( _iv ), ciphertext: new Uint8Array( _ciphertext ),
+		}
+	}
+
+
+	/**
+	 * Import a master key from the keyring.
+	 *
+	 * @param	keyring	The keyring.
+	 * @param	keyId	The master key ID.
+	 * @param	usage	The `CryptoKey` usage.
+	 * @returns	A new Promise resolved with the AES-GCM `CryptoKey`.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.NOT_FOUND` if the master key is not in the keyring.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.WRONG_VALUE` if the key ID or the master key are not valid.
+	 */
+	private static MasterKey( keyring: OTP.SEALED.Keyring, keyId: string, usage: 'encrypt' | 'decrypt' )
+	{
+		if ( ! /^[\w-]+$/.test( keyId ) ) {
+			throw new Exception( `Invalid master key ID \`${ keyId }\`.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		const key = Object.hasOwn( keyring.keys, keyId ) ? keyring.keys[ keyId ] : undefined
+
+		if ( ! key ) {
+			throw new Exception( `The master key \`${ keyId }\` is not in the keyring.`, {
+				code: ErrorCode.NOT_FOUND,
+			} )
+		}
+
+		if ( key.length !== SealedSecret.KeyLength ) {
+			throw new Exception( `Expected a ${ SealedSecret.KeyLength } bytes master key, got ${ key.length } bytes.`, {
+				code: ErrorCode.WRONG_VALUE,
+			} )
+		}
+
+		return crypto.subtle.importKey( 'raw', new Uint8Array( key ), 'AES-GCM', false, [ usage ] )
+	}
+}
\ No newline at end of file
@@ -0,0 +1,331 @@
+import type { Variant } from '@alessiofrittoli/crypto-encoder/Base32'
+import { Otp } from './Otp'
+import { Hotp } from './Hotp'
+import { SealedSecret } from './SealedSecret'
+import { bytesToHex } from './encoding'
+import { Clock } from '../Clock'
+import { Core } from '../Core'
+import { Validation } from '../Validation'
+import type { OTP } from '../types'
+
+
+/**
+ * Web Crypto based Time-Based One-Time Password.
+ * 
+ * [RFC 6238 - IETF](https://datatracker.ietf.org/doc/html/rfc6238)
+ */
+export class Totp extends Otp
+{
+	/**
+	 * The TOTP default period.
+	 * 
+	 */
+	static Period: OTP.TOTP.Period = 30
+	/**
+	 * The TOTP default time source, used when no `time` or `clock` is given.
+	 * 
+	 */
+	static Clock: OTP.TOTP.Clock = new Clock()
+
+
+	/**
+	 * The token digits count.
+	 * 
+	 */
+	readonly digits: OTP.Digits
+	/**
+	 * The token encoder.
+	 * 
+	 */
+	readonly encoder?: OTP.Encoder
+	/**
+	 * The token alphabet.
+	 * 
+	 */
+	readonly alphabet: string
+	/**
+	 * The TOTP period in seconds.
+	 * 
+	 */
+	readonly period: OTP.TOTP.Period
+	/**
+	 * Initial time since the UNIX epoch from which to calculate the counter value.
+	 * 
+	 */
+	readonly epoch: number
+	/**
+	 * The number of time-step counter values to check before and after the expected counter during verification.
+	 * 
+	 */
+	readonly window: number
+	/**
+	 * The Base32 encoding variant.
+	 * 
+	 */
+	readonly base32Variant: Variant
+	/**
+	 * The minimum decoded secret key length in bits.
+	 * 
+	 */
+	readonly minSecretBits: number
+	/**
+	 * The time source used when no `time` is given.
+	 * 
+	 */
+	readonly clock: OTP.TOTP.Clock
+	/**
+	 * The secret with resolved encoding and algorithm, or the sealed secret options.
+	 * 
+	 */
+	private readonly secret: Required<OTP.Secret> | OTP.SEALED.Options
+
+
+	/**
+	 * Constructs a new `Totp` instance.
+	 * 
+	 * @param	config The TOTP configuration. @see {@link OTP.TOTP.Config}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
+	 */
+	constructor( config: OTP.TOTP.Config )
+	{
+		super()
+
+		const {
+			secret, digits = Totp.Digits, encoder, alphabet = Totp.Alphabet,
+			period = Totp.Period, epoch = 0, window = 0, base32Variant = Totp.Base32Variant, clock = Totp.Clock, minSecretBits = Validation.MinSecretBits,
+		} = config
+
+		Core.AssertPeriod( period )
+
+		this.digits			= digits
+		this.encoder		= encoder
+		this.alphabet		= alphabet
+		this.period			= period
+		this.epoch			= epoch
+		this.window			= window
+		this.base32Variant	= base32Variant
+		this.minSecretBits	= minSecretBits
+		this.clock			= clock
+		this.secret			= (
+			'sealed' in secret
+				? secret
+				: { key: secret.key, encoding: secret.encoding ?? Totp.Encoding, algorithm: secret.algorithm ?? Totp.Algorithm }
+		)
+	}
+
+
+	/**
+	 * Generates the TOTP token for the given time.
+	 * 
+	 * @param	time ( Optional ) The time. Numbers are expressed in seconds. Default: `clock.now() / 1000`.
+	 * @returns	A new Promise resolved with the TOTP token.
+	 */
+	async token( time?: OTP.TOTP.Time )
+	{
+		return Totp.GetToken( { ...await this.options(), time } )
+	}
+
+
+	/**
+	 * Get the TOTP token time-step delta.
+	 * 
+	 * @param	token	The TOTP token to verify.
+	 * @param	options	( Optional ) The verification options. @see {@link OTP.TOTP.AsyncVerifyOptions}
+	 * @returns	A new Promise resolved with the delta number, null otherwise.
+	 */
+	async delta( token: OTP.Token, options: OTP.TOTP.AsyncVerifyOptions = {} )
+	{
+		return Totp.GetDelta( { ...await this.options(), ...options, token, window: this.window } )
+	}
+
+
+	/**
+	 * Check a TOTP token.
+	 * 
+	 * @param	token	The TOTP token to verify.
+	 * @param	options	( Optional ) The verification options. @see {@link OTP.TOTP.AsyncVerifyOptions}
+	 * @returns	A new Promise resolved with the verification result. @see {@link OTP.TOTP.CheckResult}
+	 */
+	async check( token: OTP.Token, options: OTP.TOTP.AsyncVerifyOptions = {} )
+	{
+		return Totp.Check( { ...await this.options(), ...options, token, window: this.window } )
+	}
+
+
+	/**
+	 * Verify a TOTP token.
+	 * 
+	 * @param	token	The TOTP token to verify.
+	 * @param	options	( Optional ) The verification options. @see {@link OTP.TOTP.AsyncVerifyOptions}
+	 * @returns	A new Promise resolved with `true` if the given TOTP token is valid, `false` otherwise.
+	 */
+	async verify( token: OTP.Token, options: OTP.TOTP.AsyncVerifyOptions = {} )
+	{
+		return ( await this.delta( token, options ) ) != null
+	}
+
+
+	/**
+	 * Get the start of the next TOTP time step.
+	 * 
+	 * @param	time ( Optional ) The time. Numbers are expressed in seconds. Default: `clock.now() / 1000`.
+	 * @returns	A `Date` object representing the start of the next TOTP time step.
+	 */
+	nextTick( time?: OTP.TOTP.Time )
+	{
+		return Totp.NextTick( { period: this.period, epoch: this.epoch, clock: this.clock, time } )
+	}
+
+
+	/**
+	 * Get the static methods options.
+	 * 
+	 * Sealed secrets are opened and the secret key is always converted to HEX, so the static defaults are never used.
+	 * 
+	 * @returns	A new Promise resolved with the TOTP options.
+	 */
+	private async options()
+	{
+		const { key, encoding, algorithm } = (
+			'sealed' in this.secret
+				? await SealedSecret.Open( this.secret.sealed, this.secret.keyring )
+				: this.secret
+		)
+
+		return {
+			secret		: { key: bytesToHex( Totp.HmacKey( key, encoding, this.base32Variant ) ), encoding: 'hex', algorithm } as Required<OTP.Secret>,
+			digits		: this.digits,
+			encoder		: this.encoder,
+			alphabet	: this.alphabet,
+			period		: this.period,
+			epoch		: this.epoch,
+			clock		: this.clock,
+			minSecretBits	: this.minSecretBits,
+		}
+	}
+
+
+	/**
+	 * Verify a TOTP token.
+	 * 
+	 * @param	options The TOTP options. @see {@link OTP.TOTP.GetDeltaOptions}
+	 * @returns	A new Promise resolved with `true` if the given TOTP token is valid, `false` otherwise.
+	 */
+	static async Verify( options: OTP.Signable<OTP.TOTP.GetDeltaOptions> )
+	{
+		return ( await Totp.GetDelta( options ) ) != null
+	}
+
+
+	/**
+	 * Get OTP token delta.
+	 * If the token is valid, the delta will match the step on which the given token has been validated with the given counter.
+	 * 
+	 * Replayed tokens are rejected like invalid tokens. Use `Totp.Check()` to tell them apart.
+	 * 
+	 * @param	options The TOTP options. @see {@link OTP.TOTP.GetDeltaOptions}
+	 * @returns	A new Promise resolved with the delta number, null otherwise.
+	 */
+	static async GetDelta( options: OTP.Signable<OTP.TOTP.GetDeltaOptions> )
+	{
+		const result = await Totp.Check( options )
+
+		return result.valid ? result.delta : null
+	}
+
+
+	/**
+	 * Check a TOTP token.
+	 * 
+	 * Unlike `Totp.Verify()` and `Totp.GetDelta()`, the result tells why the verification failed
+	 * or which time step the token matched and when it expires. Replayed tokens are reported with the `replayed` reason.
+	 * 
+	 * If `drift` options are given, the verification window is centered on the time-step counter shifted by the stored drift estimate
+	 * and the estimate gets updated with the drift observed on success. The returned `delta` is always relative to the unshifted counter.
+	 * 
+	 * @param	options The TOTP options. @see {@link OTP.TOTP.GetDeltaOptions}
+	 * @returns	A new Promise resolved with the verification result. @see {@link OTP.TOTP.CheckResult}
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.EMPTY_VALUE` if no token has been provided.
+	 */
+	static async Check( options: OTP.Signable<OTP.TOTP.GetDeltaOptions> ): Promise<OTP.TOTP.CheckResult>
+	{
+		const { replay, drift, ...rest } = options
+		const { period = Totp.Period, epoch = 0 } = options
+		const counter	= Totp.Counter( options )
+		const estimate	= drift ? Core.Drift( drift ) : 0
+		const result	= await Hotp.Check( { ...rest, counter: counter + Math.round( estimate ) }, true )
+
+		if ( ! result.valid ) return result
+
+		/** Compare and record the counter in a single store operation, so concurrent verifications of the same token cannot both succeed */
+		if ( replay && ! await replay.store.setIfGreater( replay.id, result.matchedCounter ) ) {
+			return { valid: false, reason: 'replayed' }
+		}
+
+		return Core.TotpSuccess( result, counter, estimate, period, epoch, drift )
+	}
+
+
+	/**
+	 * Generates a Time-Based One-Time Password (TOTP).
+	 *
+	 * @param	options The TOTP options. @see {@link OTP.TOTP.GetTokenOptions}
+	 * @returns A new Promise resolved with the TOTP token.
+	 */
+	static async GetToken( options: OTP.Signable<OTP.TOTP.GetTokenOptions> )
+	{
+		return (
+			Hotp.GetToken( {
+				...options,
+				counter: Totp.Counter( options )
+			} )
+		)
+	}
+
+
+	/**
+	 * Calculate counter value based on given options.
+	 *
+	 * @param	options The TOTP counter options. @see {@link OTP.TOTP.CounterOptions}
+	 * @returns	The calculated counter value.
+	 * @throws	{Exception} Throws a new Exception with `ErrorCode.INVALID_PERIOD` if the given period is not a positive integer.
+	 */
+	static Counter( options: OTP.TOTP.CounterOptions = {} )
+	{
+		const {
+			period = Totp.Period, epoch = 0,
+		} = options
+
+		return Core.Counter( Totp.Now( options ), period, epoch )
+	}
+
+
+	/**
+	 * Get the time used to calculate the counter value.
+	 *
+	 * @param	options The TOTP counter options. @see {@link OTP.TOTP.CounterOptions}
+	 * @returns	The given `time`, or the `clock` current time, in seconds since the UNIX epoch.
+	 */
+	static Now( options: Pick<OTP.TOTP.CounterOptions, 'time' | 'clock'> = {} )
+	{
+		const { time, clock = Totp.Clock } = options
+
+		return Core.Now( time, clock )
+	}
+
+
+	/**
+	 * Calculates the Date object representing the next time tick for a TOTP counter.
+	 *
+	 * @param	options The TOTP counter options. @see {@link OTP.TOTP.CounterOptions}
+	 * @returns A `Date` object representing the start of the next TOTP time step.
+	 */
+	static NextTick( options: OTP.TOTP.CounterOptions = {} )
+	{
+		const {
+			period = Totp.Period, epoch = 0,
+		} = options
+
+		return Core.NextTick( Totp.Counter( options ), period, epoch )
+	}
+}
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { Base32, type Variant } from '@alessiofrittoli/crypto-encoder/Base32'
+
+import type { OTP } from '../types'
+
+
+/**
+ * Converts a HEX string to bytes.
+ * 
+ * Decoding stops at the first invalid HEX pair, matching Node.js `Buffer.from( hex, 'hex' )` behavior.
+ *
+ * @param	hex The HEX string.
+ * @returns	The decoded bytes.
+ */
+export const hexToBytes = ( hex: string ) => {
+	const bytes = new Uint8Array( hex.length >>> 1 )
+
+	let index = 0
+	for ( ; index < bytes.length; index++ ) {
+		const pair = hex.slice( index * 2, index * 2 + 2 )
+		if ( ! /^[0-9a-f]{2}$/i.test( pair ) ) break
+		bytes[ index ] = parseInt( pair, 16 )
+	}
+
+	return bytes.slice( 0, index )
+}
+
+
+/**
+ * Converts bytes to a lowercase HEX string.
+ *
+ * @param	bytes The bytes to convert.
+ * @returns	The HEX string.
+ */
+export const bytesToHex = ( bytes: Uint8Array ) => (
+	Array.from( bytes, byte => byte.toString( 16 ).padStart( 2, '0' ) ).join( '' )
+)
+
+
+/**
+ * Decodes a string with the given encoding.
+ *
+ * @param	data		The encoded string.
+ * @param	encoding	The string encoding.
+ * @param	variant		The Base32 encoding variant.
+ * @returns	The decoded bytes.
+ */
+export const decode = ( data: string, encoding: OTP.Encoding, variant: Variant ) => {
+	switch ( encoding ) {
+		case 'hex':
+			return hexToBytes( data )
+		case 'base32':
+			return new Uint8Array( Base32.decode( data, variant ) )
+		case 'base64url': {
+			const base64 = data.replace( /-/g, '+' ).replace( /_/g, '/' ).replace( /[=\s]/g, '' )
+			const binary = atob( base64.padEnd( Math.ceil( base64.length / 4 ) * 4, '=' ) )
+			return Uint8Array.from( binary, char => char.charCodeAt( 0 ) )
+		}
+		case 'ascii':
+			return Uint8Array.from( data, char => char.charCodeAt( 0 ) & 0xff )
+	}
+}
+
+
+/**
+ * Encodes bytes with the given encoding.
+ *
+ * @param	bytes		The bytes to encode.
+ * @param	encoding	The output encoding.
+ * @param	variant		The Base32 encoding variant.
+ * @returns	The encoded string.
+ */
+export const encode = ( bytes: Uint8Array, encoding: OTP.Encoding, variant: Variant ) => {
+	switch ( encoding ) {
+		case 'hex':
+			return bytesToHex( bytes )
+		case 'base32':
+			return Base32.encode( bytes, variant )
+		case 'base64url':
+			return (
+				btoa( String.fromCharCode( ...bytes ) )
+					.replace( /\+/g, '-' ).replace( /\//g, '_' ).replace( /=+$/, '' )
+			)
+		case 'ascii':
+			return String.fromCharCode( ...Array.from( bytes, byte => byte & 0x7f ) )
+	}
+}
+
+
+/**
+ * Compares two byte arrays in constant time.
+ *
+ * @param	a The first byte array.
+ * @param	b The second byte array.
+ * @returns	True if both byte arrays are equal, false otherwise.
+ */
+export const timingSafeEqual = ( a: Uint8Array, b: Uint8Array ) => {
+	if ( a.length !== b.length ) return false
+
+	let diff = 0
+	for ( let index = 0; index < a.length; index++ ) {
+		diff |= a[ index ]! ^ b[ index ]!
+	}
+
+	return diff === 0
+}
\ No newline at end of file
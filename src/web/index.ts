@@ -0,0 +1,11 @@
+export * from './Otp'
+export * from './Hotp'
+export * from './Totp'
+export * from './SealedSecret'
+export * from '../ReplayStore'
+export * from '../DriftStore'
+export * from '../Clock'
+export * from '../Validation'
+export * from '../Core'
+export * from '../error'
+export type * from '../types'
\ No newline at end of file
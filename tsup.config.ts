@@ -3,7 +3,7 @@ import { defineConfig } from 'tsup'
 const isProduction = process.env.NODE_ENV === 'production'
 
 export default defineConfig( {
-	entry		: [ 'src/index.ts', 'src/types.ts' ],
+	entry		: [ 'src/index.ts', 'src/types.ts', 'src/web/index.ts', 'src/cli/index.ts' ],
 	format		: [ 'cjs', 'esm' ],
 	dts			: true,
 	splitting	: true,